@@ -1,5 +1,22 @@
 import React, { useState, useMemo, useEffect, useRef } from "react";
-import { TradeRecord, TradeSummary, Ledger } from "./types";
+import {
+  CostBasisMethod,
+  CsvImportPreset,
+  Currency,
+  FeePreset,
+  FxRates,
+  Metal,
+  TradeRecord,
+  TradeSummary,
+  TriggeredAlert,
+  Ledger,
+  PendingEntry,
+  PriceAlert,
+  PriceQuote,
+  SavingsPlan,
+  SpotPrice,
+  WeightUnit,
+} from "./types";
 import { TradeForm } from "./components/TradeForm";
 import { StatsCards } from "./components/StatsCards";
 import { InputModal } from "./components/InputModal";
@@ -9,23 +26,107 @@ import {
   ShareReportTemplate,
 } from "./components/ShareReportModal";
 import { DataTransferModal } from "./components/DataTransferModal";
+import {
+  CsvImportDestination,
+  CsvImportWizard,
+} from "./components/CsvImportWizard";
+import { BankStatementImportModal } from "./components/BankStatementImportModal";
+import { PassphraseModal } from "./components/PassphraseModal";
+import { SnapshotsModal } from "./components/SnapshotsModal";
+import { FeePresetsModal } from "./components/FeePresetsModal";
+import { FxRatesModal } from "./components/FxRatesModal";
+import { SpotPricesModal } from "./components/SpotPricesModal";
+import { AlertsModal } from "./components/AlertsModal";
+import { SavingsPlansModal } from "./components/SavingsPlansModal";
+import { SavingsPlansCard } from "./components/SavingsPlansCard";
 import { analyzeTrades } from "./services/geminiService";
+import {
+  createJsonPriceProvider,
+  DEFAULT_PRICE_ENDPOINT,
+  PRICE_POLL_INTERVAL_MS,
+} from "./services/priceProvider";
 import { translations, Language } from "./translations";
 import {
+  downloadCsv,
   downloadJson,
+  downloadXlsx,
+  AuraGoldAllExport,
+  AuraGoldLedgerExport,
   normalizeAllImport,
+  normalizeCsvPresets,
+  normalizeFeePresets,
+  normalizeFxRates,
+  normalizeSpotPrices,
   normalizeLedgerImport,
+  normalizeStoredLedgers,
+  normalizeStoredExportExtras,
+  NormalizedAllImport,
+  ExportExtras,
+  mergeExportExtras,
+  StoredExportExtras,
+  ImportReport,
   readJsonFromFile,
   safeFilename,
+  exportStamp,
 } from "./utils/dataTransfer";
-
-// Robust ID fallback
-const generateId = () => {
-  if (typeof crypto !== "undefined" && crypto.randomUUID) {
-    return crypto.randomUUID();
-  }
-  return `led-${Date.now()}-${Math.floor(Math.random() * 1000000)}`;
-};
+import { EXPORT_VERSION, ExportVersionError } from "./utils/migrations";
+import {
+  BackupError,
+  decryptBackup,
+  encryptBackup,
+  isEncryptedBackup,
+} from "./utils/backup";
+import { loadSnapshot, saveSnapshot, SnapshotReason } from "./utils/snapshots";
+import {
+  closedLotIds,
+  COST_BASIS_METHODS,
+  firstClosingSellAt,
+  getOpenLots,
+  METALS,
+  remainingGramsByLot,
+  repriceSells,
+} from "./utils/positions";
+import { DERIVED_FIELDS, DerivedField, recordFees } from "./utils/calc";
+import {
+  formatWeight,
+  isWeightUnit,
+  pricePerUnit,
+  WEIGHT_UNITS,
+} from "./utils/units";
+import {
+  CURRENCIES,
+  crossRate,
+  DEFAULT_CURRENCY,
+  formatMoney,
+  isCurrency,
+} from "./utils/currency";
+import { latestSpotPrices, upsertSpotPrices } from "./utils/prices";
+import { heldMetals, summarizeLedgers } from "./utils/summary";
+import { statementEntries, statementRows } from "./utils/statement";
+import {
+  ALERT_HISTORY_LIMIT,
+  evaluateAlerts,
+  MarketPrices,
+  notifyBrowser,
+} from "./utils/alerts";
+import { CsvColumn, recordsToCsv } from "./utils/csv";
+import { ledgersToXlsx } from "./utils/xlsx";
+import {
+  ConflictChoice,
+  diffImport,
+  ImportDiff,
+  ImportMode,
+  MergeError,
+  resolveImport,
+} from "./utils/merge";
+import {
+  buildPlanBuy,
+  localDateKey,
+  PLAN_CHECK_INTERVAL_MS,
+  planFeeSchedule,
+  schedulePlans,
+} from "./utils/plans";
+import { generateId } from "./utils/id";
 
 export default function App() {
   // Use initializer functions for faster/more robust state loading
@@ -49,7 +150,7 @@ export default function App() {
     const saved = localStorage.getItem("auragold_all_ledgers");
     if (saved) {
       try {
-        return JSON.parse(saved);
+        return normalizeStoredLedgers(JSON.parse(saved));
       } catch (e) {
         console.error("Failed to parse ledgers", e);
       }
@@ -57,6 +158,89 @@ export default function App() {
     return [];
   });
 
+  const [feePresets, setFeePresets] = useState<FeePreset[]>(() => {
+    const saved = localStorage.getItem("auragold_fee_presets");
+    if (saved) {
+      try {
+        return normalizeFeePresets(JSON.parse(saved));
+      } catch (e) {
+        console.error("Failed to parse fee presets", e);
+      }
+    }
+    return [];
+  });
+
+  const [csvPresets, setCsvPresets] = useState<CsvImportPreset[]>(() => {
+    const saved = localStorage.getItem("auragold_csv_presets");
+    if (saved) {
+      try {
+        return normalizeCsvPresets(JSON.parse(saved));
+      } catch (e) {
+        console.error("Failed to parse CSV presets", e);
+      }
+    }
+    return [];
+  });
+
+  const [displayUnit, setDisplayUnit] = useState<WeightUnit>(() => {
+    const saved = localStorage.getItem("auragold_display_unit");
+    return isWeightUnit(saved) ? saved : "g";
+  });
+  const unitSuffix = t.unitSuffix[displayUnit];
+
+  const [fxRates, setFxRates] = useState<FxRates>(() => {
+    const saved = localStorage.getItem("auragold_fx_rates");
+    if (saved) {
+      try {
+        return normalizeFxRates(JSON.parse(saved));
+      } catch (e) {
+        console.error("Failed to parse FX rates", e);
+      }
+    }
+    return normalizeFxRates(null);
+  });
+
+  const [exportExtras, setExportExtras] = useState<StoredExportExtras>(() => {
+    const saved = localStorage.getItem("auragold_export_extras");
+    if (saved) {
+      try {
+        return normalizeStoredExportExtras(JSON.parse(saved));
+      } catch (e) {
+        console.error("Failed to parse export extras", e);
+      }
+    }
+    return normalizeStoredExportExtras(null);
+  });
+
+  const [spotPrices, setSpotPrices] = useState<SpotPrice[]>(() => {
+    const saved = localStorage.getItem("auragold_spot_prices");
+    if (saved) {
+      try {
+        return normalizeSpotPrices(JSON.parse(saved));
+      } catch (e) {
+        console.error("Failed to parse spot prices", e);
+      }
+    }
+    return [];
+  });
+
+  const [priceEndpoint, setPriceEndpoint] = useState(
+    () =>
+      localStorage.getItem("auragold_price_endpoint") ?? DEFAULT_PRICE_ENDPOINT,
+  );
+  const [liveQuotes, setLiveQuotes] = useState<
+    Partial<Record<Metal, PriceQuote>>
+  >({});
+  // An offline feed keeps the last error for the status button's tooltip.
+  const [priceFeedStatus, setPriceFeedStatus] = useState<
+    { state: "idle" | "live" } | { state: "offline"; error: string }
+  >({ state: "idle" });
+
+  const [reportingCurrency, setReportingCurrency] = useState<Currency>(() => {
+    const saved = localStorage.getItem("auragold_reporting_currency");
+    return isCurrency(saved) ? saved : DEFAULT_CURRENCY;
+  });
+
   const [showMasterLedger, setShowMasterLedger] = useState(() => {
     const saved = localStorage.getItem("auragold_show_master_ledger");
     if (saved === "false") return false;
@@ -93,8 +277,35 @@ export default function App() {
   const [isHistoryFullscreen, setIsHistoryFullscreen] = useState(false);
   const [isLedgerMenuOpen, setIsLedgerMenuOpen] = useState(false);
   const [isTradeModalOpen, setIsTradeModalOpen] = useState(false);
+  const [historyMetal, setHistoryMetal] = useState<Metal | "all">("all");
+  const [historySearch, setHistorySearch] = useState("");
+  const [editingRecord, setEditingRecord] = useState<TradeRecord | null>(null);
   const [isShareModalOpen, setIsShareModalOpen] = useState(false);
   const [isTransferModalOpen, setIsTransferModalOpen] = useState(false);
+  const [isFeePresetsModalOpen, setIsFeePresetsModalOpen] = useState(false);
+  const [isFxRatesModalOpen, setIsFxRatesModalOpen] = useState(false);
+  const [isSpotPricesModalOpen, setIsSpotPricesModalOpen] = useState(false);
+  const [isAlertsModalOpen, setIsAlertsModalOpen] = useState(false);
+  const [isPlansModalOpen, setIsPlansModalOpen] = useState(false);
+  const [isCsvImportOpen, setIsCsvImportOpen] = useState(false);
+  const [isBankImportOpen, setIsBankImportOpen] = useState(false);
+  const [isSnapshotsModalOpen, setIsSnapshotsModalOpen] = useState(false);
+  // The snapshot taken just before the last restore, to undo it.
+  const [undoSnapshotId, setUndoSnapshotId] = useState<string | null>(null);
+  const [passphrasePrompt, setPassphrasePrompt] = useState<{
+    mode: "encrypt" | "decrypt";
+    fileName?: string;
+    error?: string;
+    busy: boolean;
+    submit: (passphrase: string) => Promise<void>;
+  } | null>(null);
+  const [pendingImport, setPendingImport] = useState<{
+    fileName: string;
+    report: ImportReport;
+    mode?: ImportMode;
+    diff?: ImportDiff;
+    apply: (choices: Record<string, ConflictChoice>) => void;
+  } | null>(null);
   const [shareTemplate, setShareTemplate] =
     useState<ShareReportTemplate>("glass");
   const [shareGeneratedAt, setShareGeneratedAt] = useState(() =>
@@ -104,7 +315,7 @@ export default function App() {
 
   const [modalConfig, setModalConfig] = useState<{
     isOpen: boolean;
-    type: "create" | "rename";
+    type: "create" | "rename" | "priceEndpoint";
     initialValue: string;
     targetId?: string;
   }>({
@@ -129,6 +340,85 @@ export default function App() {
     localStorage.setItem("auragold_all_ledgers", JSON.stringify(ledgers));
   }, [ledgers]);
 
+  useEffect(() => {
+    localStorage.setItem("auragold_fee_presets", JSON.stringify(feePresets));
+  }, [feePresets]);
+
+  // One automatic snapshot per local day, taken on the first change (or
+  // load) of that day.
+  useEffect(() => {
+    const today = localDateKey(Date.now());
+    if (localStorage.getItem("auragold_snapshot_day") === today) return;
+    if (!ledgers.some((l) => l.records.length > 0)) return;
+    localStorage.setItem("auragold_snapshot_day", today);
+    saveSnapshot(ledgers, activeLedgerId, "daily").catch((e) => {
+      localStorage.removeItem("auragold_snapshot_day");
+      console.error("Failed to save snapshot", e);
+    });
+  }, [ledgers]);
+
+  useEffect(() => {
+    localStorage.setItem("auragold_csv_presets", JSON.stringify(csvPresets));
+  }, [csvPresets]);
+
+  useEffect(() => {
+    localStorage.setItem("auragold_display_unit", displayUnit);
+  }, [displayUnit]);
+
+  useEffect(() => {
+    localStorage.setItem("auragold_fx_rates", JSON.stringify(fxRates));
+  }, [fxRates]);
+
+  useEffect(() => {
+    localStorage.setItem("auragold_reporting_currency", reportingCurrency);
+  }, [reportingCurrency]);
+
+  useEffect(() => {
+    localStorage.setItem("auragold_spot_prices", JSON.stringify(spotPrices));
+  }, [spotPrices]);
+
+  useEffect(() => {
+    localStorage.setItem(
+      "auragold_export_extras",
+      JSON.stringify(exportExtras),
+    );
+  }, [exportExtras]);
+
+  useEffect(() => {
+    localStorage.setItem("auragold_price_endpoint", priceEndpoint);
+  }, [priceEndpoint]);
+
+  useEffect(() => {
+    setLiveQuotes({});
+    if (!priceEndpoint) {
+      setPriceFeedStatus({ state: "idle" });
+      return;
+    }
+    const provider = createJsonPriceProvider(priceEndpoint);
+    const controller = new AbortController();
+    const poll = async () => {
+      try {
+        const quotes = await provider.fetchQuotes(controller.signal);
+        setLiveQuotes(Object.fromEntries(quotes.map((q) => [q.metal, q])));
+        setPriceFeedStatus({ state: "live" });
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        // Offline or misconfigured feeds fall back to saved spot prices.
+        setLiveQuotes({});
+        setPriceFeedStatus({
+          state: "offline",
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    };
+    poll();
+    const timer = window.setInterval(poll, PRICE_POLL_INTERVAL_MS);
+    return () => {
+      controller.abort();
+      window.clearInterval(timer);
+    };
+  }, [priceEndpoint]);
+
   useEffect(() => {
     localStorage.setItem(
       "auragold_show_master_ledger",
@@ -178,53 +468,160 @@ export default function App() {
     [ledgers, activeLedgerId],
   );
 
+  // Live quotes take precedence over the saved history.
+  const marketPrices = useMemo<MarketPrices>(
+    () => ({ ...latestSpotPrices(spotPrices), ...liveQuotes }),
+    [liveQuotes, spotPrices],
+  );
+
   const summary = useMemo<TradeSummary>(() => {
-    const records =
+    const scopedLedgers =
+      activeLedgerId === "master"
+        ? ledgers
+        : activeLedger
+          ? [activeLedger]
+          : [];
+    const currency =
       activeLedgerId === "master"
-        ? ledgers.flatMap((l) => l.records)
-        : activeLedger?.records || [];
-    if (records.length === 0)
-      return {
-        totalProfit: 0,
-        totalProjectedProfit: 0,
-        totalGrams: 0,
-        avgCostPrice: 0,
-        profitDifference: 0,
-      };
-
-    const totalProfit = records.reduce(
-      (acc, curr) => acc + curr.actualProfit,
-      0,
+        ? reportingCurrency
+        : (activeLedger?.baseCurrency ?? DEFAULT_CURRENCY);
+    return summarizeLedgers(scopedLedgers, currency, fxRates, marketPrices);
+  }, [
+    activeLedger,
+    activeLedgerId,
+    fxRates,
+    ledgers,
+    marketPrices,
+    reportingCurrency,
+  ]);
+
+  const ledgerCurrency = activeLedger?.baseCurrency ?? DEFAULT_CURRENCY;
+
+  const mismatchLabels: Record<DerivedField, string> = {
+    actualProfit: t.table.actualNet,
+    projectedProfit: t.table.projectedNet,
+    profitMargin: t.table.roi,
+  };
+
+  const openLots = useMemo(() => {
+    const records = activeLedger?.records || [];
+    // An edited sell leg re-matches lots, so its own matches must be released.
+    return getOpenLots(
+      editingRecord?.side === "sell"
+        ? records.filter((r) => r.id !== editingRecord.id)
+        : records,
     );
-    const totalProjectedProfit = records.reduce(
-      (acc, curr) => acc + curr.projectedProfit,
-      0,
+  }, [activeLedger, editingRecord]);
+
+  const addRecord = (record: TradeRecord) => {
+    if (!activeLedgerId || activeLedgerId === "master") return;
+    setLedgers((prev) =>
+      prev.map((l) =>
+        l.id === activeLedgerId
+          ? {
+              ...l,
+              records: [record, ...l.records].sort(
+                (a, b) => b.timestamp - a.timestamp,
+              ),
+            }
+          : l,
+      ),
     );
-    const totalGrams = records.reduce((acc, curr) => acc + curr.grams, 0);
-    const avgCostPrice =
-      records.reduce((acc, curr) => acc + curr.costPrice, 0) / records.length;
-    const profitDifference = totalProjectedProfit - totalProfit;
+  };
 
-    return {
-      totalProfit,
-      totalProjectedProfit,
-      totalGrams,
-      avgCostPrice,
-      profitDifference,
-    };
-  }, [activeLedger, activeLedgerId, ledgers]);
+  const visibleRecords = useMemo(() => {
+    const query = historySearch.trim().toLowerCase();
+    return (activeLedger?.records || []).filter(
+      (r) =>
+        (historyMetal === "all" || r.metal === historyMetal) &&
+        (!query ||
+          [r.note, r.channel, ...(r.tags ?? [])].some((text) =>
+            text?.toLowerCase().includes(query),
+          )),
+    );
+  }, [activeLedger, historyMetal, historySearch]);
 
-  const addRecord = (record: TradeRecord) => {
+  const lotRemaining = useMemo(
+    () => remainingGramsByLot(activeLedger?.records || []),
+    [activeLedger],
+  );
+
+  // Buy legs sells have closed against cannot be deleted until those sells
+  // are, or their matches would point at a missing lot.
+  const closedLots = useMemo(
+    () => closedLotIds(activeLedger?.records || []),
+    [activeLedger],
+  );
+
+  const setCostBasisMethod = (method: CostBasisMethod) => {
+    if (!activeLedgerId || activeLedgerId === "master") return;
+    setLedgers((prev) =>
+      prev.map((l) =>
+        l.id === activeLedgerId ? { ...l, costBasisMethod: method } : l,
+      ),
+    );
+  };
+
+  // Foreign-currency records keep FX rates against the base they were
+  // entered in, so the base only changes while the ledger is empty.
+  const setBaseCurrency = (currency: Currency) => {
     if (!activeLedgerId || activeLedgerId === "master") return;
     setLedgers((prev) =>
       prev.map((l) =>
-        l.id === activeLedgerId ? { ...l, records: [record, ...l.records] } : l,
+        l.id === activeLedgerId && l.records.length === 0
+          ? { ...l, baseCurrency: currency }
+          : l,
       ),
     );
   };
 
+  // Sells matched to an edited buy leg carry its cost, so they are
+  // re-priced along with it.
+  const updateRecord = (record: TradeRecord) => {
+    if (!activeLedgerId || activeLedgerId === "master") return;
+    setLedgers((prev) =>
+      prev.map((l) => {
+        if (l.id !== activeLedgerId) return l;
+        const closingAt =
+          record.side === "buy"
+            ? firstClosingSellAt(l.records, record.id)
+            : undefined;
+        if (closingAt !== undefined && record.timestamp > closingAt) return l;
+        const records = l.records.map((r) => (r.id === record.id ? record : r));
+        return {
+          ...l,
+          records: (record.side === "buy"
+            ? repriceSells(records, record.id)
+            : records
+          ).sort((a, b) => b.timestamp - a.timestamp),
+        };
+      }),
+    );
+  };
+
+  const openTradeModal = (record?: TradeRecord) => {
+    if (!activeLedgerId || activeLedgerId === "master") return;
+    setEditingRecord(record ?? null);
+    setIsTradeModalOpen(true);
+  };
+
+  const closeTradeModal = () => {
+    setIsTradeModalOpen(false);
+    setEditingRecord(null);
+  };
+
+  // Copies the current ledgers to IndexedDB before a destructive change.
+  // Failures are logged; they never block the action itself.
+  const snapshot = (reason: SnapshotReason, label?: string) => {
+    saveSnapshot(ledgers, activeLedgerId, reason, label).catch((e) =>
+      console.error("Failed to save snapshot", e),
+    );
+  };
+
   const removeRecord = (id: string) => {
     if (!activeLedgerId || activeLedgerId === "master") return;
+    if (closedLots.has(id)) return;
+    snapshot("deleteRecord", activeLedger?.name);
     setLedgers((prev) =>
       prev.map((l) =>
         l.id === activeLedgerId
@@ -235,6 +632,7 @@ export default function App() {
   };
 
   const clearLedger = (ledgerId: string) => {
+    snapshot("clearLedger", ledgers.find((l) => l.id === ledgerId)?.name);
     setLedgers((prev) =>
       prev.map((l) => (l.id === ledgerId ? { ...l, records: [] } : l)),
     );
@@ -256,6 +654,8 @@ export default function App() {
         setLedgers((prev) => [...prev, newLedger]);
         setActiveLedgerId(newId);
       }
+    } else if (modalConfig.type === "priceEndpoint") {
+      setPriceEndpoint(value.trim());
     } else if (modalConfig.type === "rename" && modalConfig.targetId) {
       if (value && value.trim()) {
         setLedgers((prev) =>
@@ -292,8 +692,10 @@ export default function App() {
     const ledger = ledgers.find((l) => l.id === id);
     if (!ledger) return;
 
+    snapshot("deleteLedger", ledger.name);
     const filtered = ledgers.filter((l) => l.id !== id);
     setLedgers(filtered);
+    setLedgerExportExtras(id, {});
     if (activeLedgerId === id) {
       if (filtered.length > 0) {
         setActiveLedgerId(filtered[0].id);
@@ -306,6 +708,25 @@ export default function App() {
     }
   };
 
+  // Only built while the share dialog is open; it walks every record.
+  const statementRowsForShare = useMemo(() => {
+    if (!isShareModalOpen) return [];
+    const scoped =
+      activeLedgerId === "master"
+        ? ledgers
+        : activeLedger
+          ? [activeLedger]
+          : [];
+    return statementRows(statementEntries(scoped, summary.currency, fxRates));
+  }, [
+    isShareModalOpen,
+    activeLedgerId,
+    activeLedger,
+    ledgers,
+    summary.currency,
+    fxRates,
+  ]);
+
   const sharePayload = useMemo(() => {
     const name =
       activeLedgerId === "master"
@@ -320,9 +741,16 @@ export default function App() {
       ledgerName: name,
       txCount,
       generatedAt: shareGeneratedAt,
+      currency: summary.currency,
+      lang,
+      weightUnit: displayUnit,
+      unitSuffix,
       labels: t.report,
     };
   }, [
+    displayUnit,
+    lang,
+    summary.currency,
     activeLedger?.name,
     activeLedger?.records.length,
     activeLedgerId,
@@ -332,6 +760,7 @@ export default function App() {
     t.ledgers.masterName,
     t.ledgers.none,
     t.report,
+    unitSuffix,
   ]);
 
   const dataTransferI18n = useMemo(
@@ -345,13 +774,24 @@ export default function App() {
 
   const buildShareReportText = (generatedAt: string) => {
     const rt = t.report;
+    const held = heldMetals(summary);
+    const holdings =
+      held.length > 1
+        ? held
+            .map(
+              (metal) =>
+                `${t.metals[metal]} ${formatWeight(summary.byMetal[metal]!.holdingGrams, displayUnit, unitSuffix)}`,
+            )
+            .join(" · ")
+        : formatWeight(summary.holdingGrams, displayUnit, unitSuffix);
     const report = `
 [${sharePayload.ledgerName}] ${rt.title}
 -----------------------------------
-- ${rt.actual}: ￥${summary.totalProfit.toFixed(2)}
-- ${rt.projected}: ￥${summary.totalProjectedProfit.toFixed(2)}
-- ${rt.diff}: ￥${summary.profitDifference.toFixed(2)}
-- ${rt.volume}: ${summary.totalGrams.toFixed(2)}g
+- ${rt.actual}: ${formatMoney(summary.totalProfit, summary.currency, lang)}
+- ${rt.projected}: ${formatMoney(summary.totalProjectedProfit, summary.currency, lang)}
+- ${rt.diff}: ${formatMoney(summary.profitDifference, summary.currency, lang)}
+- ${rt.volume}: ${formatWeight(summary.totalGrams, displayUnit, unitSuffix)}
+- ${rt.holdings}: ${holdings}
 - ${rt.count}: ${sharePayload.txCount}
 -----------------------------------
 ${rt.date}: ${generatedAt}
@@ -391,109 +831,498 @@ ${rt.date}: ${generatedAt}
     );
   };
 
+  // Alerts are checked whenever prices or ledgers change; hits move from the
+  // active list into the ledger's history.
+  useEffect(() => {
+    const now = Date.now();
+    const fired: { ledger: Ledger; hits: TriggeredAlert[] }[] = [];
+    for (const l of ledgers) {
+      if (!l.alerts?.length) continue;
+      const openLotIds = new Set(getOpenLots(l.records).map((x) => x.buyId));
+      const hits = evaluateAlerts(
+        l.alerts,
+        marketPrices,
+        l.baseCurrency ?? DEFAULT_CURRENCY,
+        fxRates,
+        openLotIds,
+        now,
+      );
+      if (hits.length > 0) fired.push({ ledger: l, hits });
+    }
+    if (fired.length === 0) return;
+
+    setLedgers((prev) =>
+      prev.map((l) => {
+        const hits = fired
+          .flatMap((f) => (f.ledger.id === l.id ? f.hits : []))
+          .filter((h) => l.alerts?.some((a) => a.id === h.alertId));
+        if (hits.length === 0) return l;
+        const hitIds = new Set(hits.map((h) => h.alertId));
+        return {
+          ...l,
+          alerts: (l.alerts ?? []).filter((a) => !hitIds.has(a.id)),
+          alertHistory: [...hits, ...(l.alertHistory ?? [])].slice(
+            0,
+            ALERT_HISTORY_LIMIT,
+          ),
+        };
+      }),
+    );
+
+    const messages = fired.flatMap(({ ledger, hits }) => {
+      const currency = ledger.baseCurrency ?? DEFAULT_CURRENCY;
+      const money = (perGram: number) =>
+        formatMoney(pricePerUnit(perGram, displayUnit), currency, lang);
+      return hits.map((h) =>
+        t.alerts.triggered
+          .replace("{ledger}", ledger.name)
+          .replace("{metal}", t.metals[h.metal])
+          .replace("{kind}", t.alerts.kinds[h.kind])
+          .replace("{price}", money(h.price))
+          .replace("{market}", money(h.marketPrice)),
+      );
+    });
+    showTransferToast(messages.join(" · "), "success");
+    for (const message of messages) {
+      notifyBrowser(t.alerts.notificationTitle, message);
+    }
+  }, [ledgers, marketPrices, fxRates]);
+
+  const setLedgerAlerts = (alerts: PriceAlert[]) => {
+    if (!activeLedgerId || activeLedgerId === "master") return;
+    setLedgers((prev) =>
+      prev.map((l) => (l.id === activeLedgerId ? { ...l, alerts } : l)),
+    );
+  };
+
+  const clearAlertHistory = () => {
+    if (!activeLedgerId || activeLedgerId === "master") return;
+    setLedgers((prev) =>
+      prev.map((l) =>
+        l.id === activeLedgerId ? { ...l, alertHistory: [] } : l,
+      ),
+    );
+  };
+
+  // A tab left open past midnight picks up the new day within a minute, or
+  // as soon as it is shown again.
+  const [planDay, setPlanDay] = useState(() => localDateKey(Date.now()));
+  useEffect(() => {
+    const check = () => setPlanDay(localDateKey(Date.now()));
+    const timer = window.setInterval(check, PLAN_CHECK_INTERVAL_MS);
+    document.addEventListener("visibilitychange", check);
+    return () => {
+      window.clearInterval(timer);
+      document.removeEventListener("visibilitychange", check);
+    };
+  }, []);
+
+  // Due plan dates queue pending entries; the buy is only recorded once the
+  // actual price is confirmed.
+  useEffect(() => {
+    setLedgers((prev) => {
+      let changed = false;
+      const next = prev.map((l) => {
+        const scheduled = schedulePlans(l, planDay, generateId);
+        if (!scheduled) return l;
+        changed = true;
+        return { ...l, ...scheduled };
+      });
+      return changed ? next : prev;
+    });
+  }, [ledgers, planDay]);
+
+  const setLedgerPlans = (plans: SavingsPlan[]) => {
+    if (!activeLedgerId || activeLedgerId === "master") return;
+    setLedgers((prev) =>
+      prev.map((l) =>
+        l.id === activeLedgerId
+          ? {
+              ...l,
+              plans,
+              pendingEntries: (l.pendingEntries ?? []).filter((e) =>
+                plans.some((p) => p.id === e.planId),
+              ),
+            }
+          : l,
+      ),
+    );
+  };
+
+  const skipPendingEntry = (entry: PendingEntry) => {
+    if (!activeLedgerId || activeLedgerId === "master") return;
+    setLedgers((prev) =>
+      prev.map((l) =>
+        l.id === activeLedgerId
+          ? {
+              ...l,
+              pendingEntries: (l.pendingEntries ?? []).filter(
+                (e) => e.id !== entry.id,
+              ),
+            }
+          : l,
+      ),
+    );
+  };
+
+  const confirmPendingEntry = (entry: PendingEntry, price: number) => {
+    const plan = activeLedger?.plans?.find((p) => p.id === entry.planId);
+    if (!plan) return;
+    addRecord(
+      buildPlanBuy(
+        plan,
+        entry,
+        price,
+        planFeeSchedule(plan, feePresets),
+        generateId(),
+      ),
+    );
+    skipPendingEntry(entry);
+  };
+
+  // Fields kept from imported files are written first, so the app's own
+  // values always win.
+  const allDataExport = (now: Date): AuraGoldAllExport => ({
+    ...exportExtras.all.document,
+    schema: "auragold.export",
+    version: EXPORT_VERSION,
+    kind: "all",
+    exportedAt: now.toISOString(),
+    payload: {
+      ...exportExtras.all.payload,
+      ledgers,
+      activeLedgerId,
+      settings: {
+        ...exportExtras.all.settings,
+        lang,
+        theme,
+        showMasterLedger,
+        displayUnit,
+        reportingCurrency,
+      },
+      spotPrices,
+    },
+  });
+
   const exportAllDataJson = () => {
     const now = new Date();
-    const stamp = now
-      .toISOString()
-      .replace(/[:.]/g, "-")
-      .replace("T", "_")
-      .slice(0, 19);
+    const stamp = exportStamp(now);
     const filename = `auragold-all-${stamp}.json`;
-    downloadJson(filename, {
-      schema: "auragold.export",
-      version: 1,
-      kind: "all",
-      exportedAt: now.toISOString(),
-      payload: { ledgers, activeLedgerId, lang, theme },
-    });
+    downloadJson(filename, allDataExport(now));
     showTransferToast(
       lang === "zh" ? "已导出 JSON 文件" : "Exported JSON file",
       "success",
     );
   };
 
+  // The encrypted file wraps exactly what the plain export would contain.
+  const exportEncryptedJson = () => {
+    setPassphrasePrompt({
+      mode: "encrypt",
+      busy: false,
+      submit: async (passphrase) => {
+        const now = new Date();
+        const stamp = exportStamp(now);
+        const backup = await encryptBackup(allDataExport(now), passphrase);
+        downloadJson(`auragold-all-${stamp}.encrypted.json`, backup);
+        setPassphrasePrompt(null);
+        showTransferToast(t.backup.exported, "success");
+      },
+    });
+  };
+
+  const importErrorMessage = (e: unknown) =>
+    e instanceof BackupError
+      ? t.backup.errors[e.reason]
+      : e instanceof ExportVersionError
+        ? t.dataTransfer.newerVersion.replace("{version}", String(e.version))
+        : e instanceof MergeError
+          ? t.dataTransfer.overClosed
+              .replace(
+                "{date}",
+                new Date(e.lot.timestamp).toLocaleString(
+                  lang === "zh" ? "zh-CN" : "en-US",
+                ),
+              )
+              .replace("{ledger}", e.ledgerName)
+          : e instanceof Error
+            ? e.message
+            : lang === "zh"
+              ? "导入失败"
+              : "Import failed";
+
+  // A wrong passphrase keeps the prompt open for another try; any other
+  // failure closes it with a toast.
+  const submitPassphrase = async (passphrase: string) => {
+    if (!passphrasePrompt || passphrasePrompt.busy) return;
+    setPassphrasePrompt({ ...passphrasePrompt, busy: true, error: undefined });
+    try {
+      await passphrasePrompt.submit(passphrase);
+    } catch (e) {
+      if (e instanceof BackupError && e.reason === "passphrase") {
+        setPassphrasePrompt({
+          ...passphrasePrompt,
+          busy: false,
+          error: t.backup.errors.passphrase,
+        });
+        return;
+      }
+      setPassphrasePrompt(null);
+      showTransferToast(importErrorMessage(e), "danger");
+    }
+  };
+
   const exportLedgerJson = (ledgerId: string) => {
     const ledger = ledgers.find((l) => l.id === ledgerId);
     if (!ledger) return;
     const now = new Date();
-    const stamp = now
-      .toISOString()
-      .replace(/[:.]/g, "-")
-      .replace("T", "_")
-      .slice(0, 19);
+    const stamp = exportStamp(now);
     const filename = `auragold-ledger-${safeFilename(ledger.name)}-${stamp}.json`;
-    downloadJson(filename, {
+    const extras = exportExtras.ledgers[ledger.id] ?? {};
+    const data: AuraGoldLedgerExport = {
+      ...extras.document,
       schema: "auragold.export",
-      version: 1,
+      version: EXPORT_VERSION,
       kind: "ledger",
       exportedAt: now.toISOString(),
-      payload: { ledger },
-    });
+      payload: { ...extras.payload, ledger },
+    };
+    downloadJson(filename, data);
     showTransferToast(
       lang === "zh" ? "已导出账本 JSON 文件" : "Exported ledger JSON file",
       "success",
     );
   };
 
-  const mergeLedgers = (current: Ledger[], incoming: Ledger[]) => {
-    const map = new Map<string, Ledger>();
-    for (const l of current) map.set(l.id, l);
+  // Each ledger is summarized in its own base currency.
+  const exportXlsx = (scope: string) => {
+    const scoped =
+      scope === "all" ? ledgers : ledgers.filter((l) => l.id === scope);
+    if (scoped.length === 0) return;
+    const bytes = ledgersToXlsx(
+      scoped.map((ledger) => ({
+        ledger,
+        summary: summarizeLedgers(
+          [ledger],
+          ledger.baseCurrency ?? DEFAULT_CURRENCY,
+          fxRates,
+          marketPrices,
+        ),
+      })),
+      {
+        summarySheet: t.dataTransfer.xlsxSummarySheet,
+        summary: t.dataTransfer.xlsxSummary,
+        headers: {
+          ...t.dataTransfer.csvColumns,
+          ...t.dataTransfer.xlsxColumns,
+        },
+        sides: t.sides,
+        metals: t.metals,
+      },
+    );
+    const stamp = exportStamp();
+    const filename =
+      scope === "all"
+        ? `auragold-all-${stamp}.xlsx`
+        : `auragold-ledger-${safeFilename(scoped[0].name)}-${stamp}.xlsx`;
+    downloadXlsx(filename, bytes);
+    showTransferToast(
+      lang === "zh" ? "已导出 Excel 文件" : "Exported Excel file",
+      "success",
+    );
+  };
 
-    for (const inLedger of incoming) {
-      const existing = map.get(inLedger.id);
-      if (!existing) {
-        map.set(inLedger.id, inLedger);
-        continue;
-      }
-      const seen = new Set(existing.records.map((r) => r.id));
-      const mergedRecords = [...existing.records];
-      for (const r of inLedger.records) {
-        if (!seen.has(r.id)) mergedRecords.push(r);
-      }
-      mergedRecords.sort((a, b) => b.timestamp - a.timestamp);
-      map.set(existing.id, { ...existing, records: mergedRecords });
+  const exportCsv = (scope: string, columns: CsvColumn[]) => {
+    const scoped =
+      scope === "all" ? ledgers : ledgers.filter((l) => l.id === scope);
+    if (scoped.length === 0) return;
+    const rows = scoped
+      .flatMap((ledger) => ledger.records.map((record) => ({ ledger, record })))
+      .sort((a, b) => b.record.timestamp - a.record.timestamp);
+    const csv = recordsToCsv(rows, columns, {
+      headers: t.dataTransfer.csvColumns,
+      sides: t.sides,
+      metals: t.metals,
+    });
+    const stamp = exportStamp();
+    const name = scope === "all" ? "all" : safeFilename(scoped[0].name);
+    downloadCsv(`auragold-${name}-${stamp}.csv`, csv);
+    showTransferToast(
+      lang === "zh" ? "已导出 CSV 文件" : "Exported CSV file",
+      "success",
+    );
+  };
+
+  const importCsvRecords = (
+    records: TradeRecord[],
+    destination: CsvImportDestination,
+  ) => {
+    if ("ledgerId" in destination) {
+      setLedgers((prev) =>
+        prev.map((l) =>
+          l.id === destination.ledgerId
+            ? {
+                ...l,
+                records: [...l.records, ...records].sort(
+                  (a, b) => b.timestamp - a.timestamp,
+                ),
+              }
+            : l,
+        ),
+      );
+      setActiveLedgerId(destination.ledgerId);
+    } else {
+      const newId = generateId();
+      setLedgers((prev) => [
+        ...prev,
+        {
+          id: newId,
+          name: destination.name,
+          records: [...records].sort((a, b) => b.timestamp - a.timestamp),
+          createdAt: Date.now(),
+        },
+      ]);
+      setActiveLedgerId(newId);
     }
+    setIsCsvImportOpen(false);
+    setIsTransferModalOpen(false);
+    showTransferToast(
+      t.csvImport.imported.replace("{count}", String(records.length)),
+      "success",
+    );
+  };
 
-    return [...map.values()].sort((a, b) => a.createdAt - b.createdAt);
+  // Statement rows carry ids derived from their content, so the merge review
+  // reports rows from an earlier import of the same statement as unchanged.
+  const reviewBankImport = (
+    ledgerId: string,
+    records: TradeRecord[],
+    fileName: string,
+  ) => {
+    const target = ledgers.find((l) => l.id === ledgerId);
+    const normalized = target
+      ? normalizeLedgerImport({ ...target, records })
+      : null;
+    if (!target || !normalized) {
+      showTransferToast(
+        lang === "zh" ? "目标账本不存在" : "Target ledger not found",
+        "danger",
+      );
+      return;
+    }
+    const incoming = { ...normalized.ledger, id: target.id };
+    setIsBankImportOpen(false);
+    setPendingImport({
+      fileName,
+      report: normalized.report,
+      mode: "merge",
+      diff: diffImport([target], [incoming]),
+      apply: (choices) => {
+        const nextLedgers = resolveImport(
+          ledgers,
+          [incoming],
+          "merge",
+          choices,
+          generateId,
+        );
+        snapshot("import", target.name);
+        setLedgers(nextLedgers);
+        setActiveLedgerId(target.id);
+        showTransferToast(
+          lang === "zh" ? "导入完成" : "Import completed",
+          "success",
+        );
+      },
+    });
   };
 
+  // Imports are parsed first and shown as a review with a diff against the
+  // current data; only the accepted part is applied once the user confirms.
   const importAllDataJson = async (file: File, mode: "merge" | "replace") => {
-    try {
-      const raw = await readJsonFromFile(file);
+    const review = (raw: unknown) => {
       const normalized = normalizeAllImport(raw);
       if (!normalized) {
         throw new Error(lang === "zh" ? "JSON 格式不支持" : "Unsupported JSON");
       }
+      setPendingImport({
+        fileName: file.name,
+        report: normalized.report,
+        mode,
+        diff: diffImport(ledgers, normalized.ledgers),
+        apply: (choices) => applyAllImport(normalized, mode, choices),
+      });
+    };
+    try {
+      const raw = await readJsonFromFile(file);
+      if (isEncryptedBackup(raw)) {
+        setPassphrasePrompt({
+          mode: "decrypt",
+          fileName: file.name,
+          busy: false,
+          submit: async (passphrase) => {
+            review(await decryptBackup(raw, passphrase));
+            setPassphrasePrompt(null);
+          },
+        });
+        return;
+      }
+      review(raw);
+    } catch (e) {
+      showTransferToast(importErrorMessage(e), "danger");
+    }
+  };
 
+  const applyAllImport = (
+    normalized: NormalizedAllImport,
+    mode: "merge" | "replace",
+    choices: Record<string, ConflictChoice>,
+  ) => {
+    // Resolved before the snapshot so a MergeError leaves the review open.
+    const nextLedgers = resolveImport(
+      ledgers,
+      normalized.ledgers,
+      mode,
+      choices,
+      generateId,
+    );
+    snapshot("import");
+    try {
+      setLedgers(nextLedgers);
       if (mode === "replace") {
-        const ok = window.confirm(
-          lang === "zh"
-            ? "覆盖导入会替换当前全部账本数据与设置，是否继续？"
-            : "Replace import will overwrite all current ledgers and settings. Continue?",
-        );
-        if (!ok) return;
-
-        const nextLedgers = normalized.ledgers;
-        setLedgers(nextLedgers);
-
+        const { settings } = normalized;
+        const showMaster = settings.showMasterLedger ?? showMasterLedger;
         const importedActive = normalized.activeLedgerId;
         const nextActive =
           importedActive &&
           importedActive !== "master" &&
           nextLedgers.some((l) => l.id === importedActive)
             ? importedActive
-            : importedActive === "master" && showMasterLedger
+            : importedActive === "master" && showMaster
               ? "master"
               : nextLedgers.length > 0
                 ? nextLedgers[0].id
-                : showMasterLedger
+                : showMaster
                   ? "master"
                   : "";
         setActiveLedgerId(nextActive);
-        if (normalized.lang) setLang(normalized.lang);
-        if (normalized.theme) setTheme(normalized.theme);
+        setShowMasterLedger(showMaster);
+        if (settings.lang) setLang(settings.lang);
+        if (settings.theme) setTheme(settings.theme);
+        if (settings.displayUnit) setDisplayUnit(settings.displayUnit);
+        if (settings.reportingCurrency) {
+          setReportingCurrency(settings.reportingCurrency);
+        }
+        if (normalized.spotPrices) setSpotPrices(normalized.spotPrices);
+        setExportExtras((prev) => ({ ...prev, all: normalized.extras }));
       } else {
-        setLedgers((prev) => mergeLedgers(prev, normalized.ledgers));
+        if (normalized.spotPrices) {
+          const incoming = normalized.spotPrices;
+          setSpotPrices((prev) => upsertSpotPrices(prev, incoming));
+        }
+        setExportExtras((prev) => ({
+          ...prev,
+          all: mergeExportExtras(prev.all, normalized.extras),
+        }));
       }
 
       setAiAnalysis("");
@@ -519,11 +1348,57 @@ ${rt.date}: ${generatedAt}
   ) => {
     try {
       const raw = await readJsonFromFile(file);
-      const ledger = normalizeLedgerImport(raw);
-      if (!ledger) {
+      const normalized = normalizeLedgerImport(raw);
+      if (!normalized) {
         throw new Error(lang === "zh" ? "JSON 格式不支持" : "Unsupported JSON");
       }
+      const target = ledgers.find((l) => l.id === targetLedgerId);
+      if (mode === "replace" && !target) {
+        throw new Error(
+          lang === "zh" ? "目标账本不存在" : "Target ledger not found",
+        );
+      }
+      setPendingImport({
+        fileName: file.name,
+        report: normalized.report,
+        ...(mode === "replace" && target
+          ? {
+              mode,
+              diff: diffImport(
+                [target],
+                [{ ...normalized.ledger, id: target.id, name: target.name }],
+              ),
+            }
+          : {}),
+        apply: (choices) =>
+          applyLedgerImport(
+            normalized.ledger,
+            normalized.extras,
+            mode,
+            targetLedgerId,
+            choices,
+          ),
+      });
+    } catch (e) {
+      showTransferToast(importErrorMessage(e), "danger");
+    }
+  };
+
+  const setLedgerExportExtras = (ledgerId: string, extras: ExportExtras) =>
+    setExportExtras(({ all, ledgers: { [ledgerId]: _old, ...rest } }) => ({
+      all,
+      ledgers:
+        Object.keys(extras).length > 0 ? { ...rest, [ledgerId]: extras } : rest,
+    }));
 
+  const applyLedgerImport = (
+    ledger: Ledger,
+    extras: ExportExtras,
+    mode: "asNew" | "replace",
+    targetLedgerId: string,
+    choices: Record<string, ConflictChoice>,
+  ) => {
+    try {
       if (mode === "asNew") {
         const existingNames = new Set(ledgers.map((l) => l.name.trim()));
         const baseName =
@@ -542,6 +1417,7 @@ ${rt.date}: ${generatedAt}
         const newLedger: Ledger = { ...ledger, id: newId, name };
         setLedgers((prev) => [...prev, newLedger]);
         setActiveLedgerId(newId);
+        setLedgerExportExtras(newId, extras);
       } else {
         const target = ledgers.find((l) => l.id === targetLedgerId);
         if (!target) {
@@ -549,18 +1425,21 @@ ${rt.date}: ${generatedAt}
             lang === "zh" ? "目标账本不存在" : "Target ledger not found",
           );
         }
-        const ok = window.confirm(
-          lang === "zh"
-            ? `将用文件记录覆盖账本「${target.name}」，是否继续？`
-            : `This will overwrite ledger "${target.name}" with the file. Continue?`,
+        const [resolved] = resolveImport(
+          [target],
+          [{ ...ledger, id: target.id }],
+          "replace",
+          choices,
+          generateId,
         );
-        if (!ok) return;
+        snapshot("import", target.name);
         setLedgers((prev) =>
           prev.map((l) =>
-            l.id === targetLedgerId ? { ...l, records: ledger.records } : l,
+            l.id === targetLedgerId ? { ...l, records: resolved.records } : l,
           ),
         );
         if (activeLedgerId === targetLedgerId) setAiAnalysis("");
+        setLedgerExportExtras(targetLedgerId, extras);
       }
 
       showTransferToast(
@@ -568,6 +1447,8 @@ ${rt.date}: ${generatedAt}
         "success",
       );
     } catch (e) {
+      // Left to the review, which stays open for another choice.
+      if (e instanceof MergeError) throw e;
       const msg =
         e instanceof Error
           ? e.message
@@ -578,6 +1459,60 @@ ${rt.date}: ${generatedAt}
     }
   };
 
+  const applySnapshotLedgers = (
+    snapshotLedgers: Ledger[],
+    snapshotActive: string,
+  ) => {
+    const nextLedgers = normalizeStoredLedgers(snapshotLedgers);
+    setLedgers(nextLedgers);
+    setActiveLedgerId(
+      snapshotActive === "master" && showMasterLedger
+        ? "master"
+        : nextLedgers.some((l) => l.id === snapshotActive)
+          ? snapshotActive
+          : nextLedgers[0]?.id || (showMasterLedger ? "master" : ""),
+    );
+    setAiAnalysis("");
+  };
+
+  // The current data is snapshotted first so the restore can be undone.
+  const restoreSnapshot = async (id: string) => {
+    try {
+      const target = await loadSnapshot(id);
+      if (!target) throw new Error(t.snapshots.failed);
+      const before = await saveSnapshot(ledgers, activeLedgerId, "restore");
+      applySnapshotLedgers(target.ledgers, target.activeLedgerId);
+      setUndoSnapshotId(before.id);
+      showTransferToast(
+        t.snapshots.restored.replace(
+          "{date}",
+          new Date(target.createdAt).toLocaleString(
+            lang === "zh" ? "zh-CN" : "en-US",
+          ),
+        ),
+        "success",
+      );
+    } catch (e) {
+      console.error("Failed to restore snapshot", e);
+      showTransferToast(t.snapshots.failed, "danger");
+    }
+  };
+
+  const undoRestore = async () => {
+    if (!undoSnapshotId) return;
+    try {
+      const before = await loadSnapshot(undoSnapshotId);
+      if (!before) throw new Error(t.snapshots.failed);
+      await saveSnapshot(ledgers, activeLedgerId, "restore");
+      applySnapshotLedgers(before.ledgers, before.activeLedgerId);
+      setUndoSnapshotId(null);
+      showTransferToast(t.snapshots.undone, "success");
+    } catch (e) {
+      console.error("Failed to undo restore", e);
+      showTransferToast(t.snapshots.failed, "danger");
+    }
+  };
+
   const runAnalysis = async () => {
     if (activeLedgerId === "master") return;
     setIsAnalyzing(true);
@@ -1031,6 +1966,123 @@ ${rt.date}: ${generatedAt}
                 {t.transferBtn}
               </button>
 
+              <button
+                onClick={() => setIsFeePresetsModalOpen(true)}
+                className="flex items-center bg-[var(--panel)] border border-[var(--border)] px-4 py-2 rounded-xl text-xs font-bold uppercase tracking-widest text-[var(--muted)] hover:text-[var(--accent)] transition-colors shadow-lg gap-2"
+              >
+                <svg
+                  xmlns="http://www.w3.org/2000/svg"
+                  className="h-4 w-4"
+                  fill="none"
+                  viewBox="0 0 24 24"
+                  stroke="currentColor"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M8 14v3m4-3v3m4-3v3M3 21h18M3 10h18M3 7l9-4 9 4M4 10h16v11H4V10z"
+                  />
+                </svg>
+                {t.feePresetsBtn}
+              </button>
+
+              <button
+                onClick={() => setIsFxRatesModalOpen(true)}
+                className="flex items-center bg-[var(--panel)] border border-[var(--border)] px-4 py-2 rounded-xl text-xs font-bold uppercase tracking-widest text-[var(--muted)] hover:text-[var(--accent)] transition-colors shadow-lg gap-2"
+              >
+                <svg
+                  xmlns="http://www.w3.org/2000/svg"
+                  className="h-4 w-4"
+                  fill="none"
+                  viewBox="0 0 24 24"
+                  stroke="currentColor"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4"
+                  />
+                </svg>
+                {t.fxRatesBtn}
+              </button>
+
+              <button
+                onClick={() =>
+                  setModalConfig({
+                    isOpen: true,
+                    type: "priceEndpoint",
+                    initialValue: priceEndpoint,
+                  })
+                }
+                className={`flex items-center bg-[var(--panel)] border border-[var(--border)] px-4 py-2 rounded-xl text-xs font-bold uppercase tracking-widest transition-colors shadow-lg gap-2 hover:text-[var(--accent)] ${priceFeedStatus.state === "offline" ? "text-[var(--danger)]" : priceFeedStatus.state === "live" ? "text-[var(--success)]" : "text-[var(--muted)]"}`}
+                title={
+                  priceFeedStatus.state === "offline"
+                    ? `${t.priceFeed.offlineHint}\n${priceFeedStatus.error}`
+                    : priceEndpoint || t.priceFeed.endpointTitle
+                }
+              >
+                <span
+                  className={`h-2 w-2 rounded-full ${priceFeedStatus.state === "offline" ? "bg-[var(--danger)]" : priceFeedStatus.state === "live" ? "bg-[var(--success)]" : "bg-[var(--muted-2)]"}`}
+                />
+                {priceFeedStatus.state === "offline"
+                  ? t.priceFeed.offline
+                  : priceFeedStatus.state === "live" && liveQuotes.gold
+                    ? t.priceFeed.live.replace(
+                        "{price}",
+                        formatMoney(
+                          pricePerUnit(
+                            liveQuotes.gold.price *
+                              crossRate(
+                                liveQuotes.gold.currency,
+                                summary.currency,
+                                fxRates,
+                              ),
+                            displayUnit,
+                          ),
+                          summary.currency,
+                          lang,
+                        ),
+                      )
+                    : t.priceFeed.connect}
+              </button>
+
+              <button
+                onClick={() => setIsSpotPricesModalOpen(true)}
+                className="flex items-center bg-[var(--panel)] border border-[var(--border)] px-4 py-2 rounded-xl text-xs font-bold uppercase tracking-widest text-[var(--muted)] hover:text-[var(--accent)] transition-colors shadow-lg gap-2"
+              >
+                <svg
+                  xmlns="http://www.w3.org/2000/svg"
+                  className="h-4 w-4"
+                  fill="none"
+                  viewBox="0 0 24 24"
+                  stroke="currentColor"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M7 12l3-3 3 3 4-4M8 21l4-4 4 4M3 4h18M4 4h16v12a1 1 0 01-1 1H5a1 1 0 01-1-1V4z"
+                  />
+                </svg>
+                {t.spotPricesBtn}
+              </button>
+
+              <select
+                value={displayUnit}
+                onChange={(e) => setDisplayUnit(e.target.value as WeightUnit)}
+                className="bg-[var(--panel)] border border-[var(--border)] px-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest text-[var(--muted)] hover:text-[var(--accent)] transition-colors shadow-lg focus:outline-none focus:ring-2 focus:ring-[var(--accent)]"
+                title={t.displayUnit}
+                aria-label={t.displayUnit}
+              >
+                {WEIGHT_UNITS.map((u) => (
+                  <option key={u} value={u}>
+                    {t.units[u]}
+                  </option>
+                ))}
+              </select>
+
               <button
                 onClick={toggleTheme}
                 className="flex items-center bg-[var(--panel)] border border-[var(--border)] px-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest text-[var(--muted)] hover:text-[var(--accent)] transition-colors shadow-lg"
@@ -1124,14 +2176,24 @@ ${rt.date}: ${generatedAt}
           <StatsCards
             summary={summary}
             lang={lang}
-            onNewTrade={() => {
-              if (!activeLedgerId || activeLedgerId === "master") return;
-              setIsTradeModalOpen(true);
-            }}
+            displayUnit={displayUnit}
+            onNewTrade={() => openTradeModal()}
             newTradeDisabled={!activeLedgerId || activeLedgerId === "master"}
           />
         )}
 
+        {!isHistoryFullscreen &&
+          activeLedgerId !== "master" &&
+          activeLedger &&
+          !!activeLedger.plans?.length && (
+            <SavingsPlansCard
+              ledger={activeLedger}
+              lang={lang}
+              displayUnit={displayUnit}
+              onManage={() => setIsPlansModalOpen(true)}
+            />
+          )}
+
         <div
           className={
             isHistoryFullscreen ? "flex-1 min-h-0 flex flex-col" : "space-y-6"
@@ -1158,6 +2220,103 @@ ${rt.date}: ${generatedAt}
                   </p>
                 </div>
                 <div className="flex items-center gap-2 flex-shrink-0">
+                  {activeLedgerId !== "master" && activeLedger && (
+                    <select
+                      value={historyMetal}
+                      onChange={(e) =>
+                        setHistoryMetal(e.target.value as Metal | "all")
+                      }
+                      className="bg-[var(--panel-2)] border border-[var(--border)] px-3 py-1 rounded-full text-[10px] font-black uppercase tracking-tighter text-[var(--muted)] focus:outline-none focus:ring-2 focus:ring-[var(--accent)]"
+                      aria-label={t.table.allMetals}
+                    >
+                      <option value="all">{t.table.allMetals}</option>
+                      {METALS.map((m) => (
+                        <option key={m} value={m}>
+                          {t.metals[m]}
+                        </option>
+                      ))}
+                    </select>
+                  )}
+                  {activeLedgerId === "master" ? (
+                    <select
+                      value={reportingCurrency}
+                      onChange={(e) =>
+                        setReportingCurrency(e.target.value as Currency)
+                      }
+                      className="bg-[var(--panel-2)] border border-[var(--border)] px-3 py-1 rounded-full text-[10px] font-black uppercase tracking-tighter text-[var(--muted)] focus:outline-none focus:ring-2 focus:ring-[var(--accent)]"
+                      aria-label={t.reportingCurrency}
+                    >
+                      {CURRENCIES.map((c) => (
+                        <option key={c} value={c}>
+                          {t.reportingCurrency}: {c}
+                        </option>
+                      ))}
+                    </select>
+                  ) : (
+                    activeLedger && (
+                      <select
+                        value={activeLedger.baseCurrency ?? DEFAULT_CURRENCY}
+                        onChange={(e) =>
+                          setBaseCurrency(e.target.value as Currency)
+                        }
+                        disabled={activeLedger.records.length > 0}
+                        className="bg-[var(--panel-2)] border border-[var(--border)] px-3 py-1 rounded-full text-[10px] font-black uppercase tracking-tighter text-[var(--muted)] focus:outline-none focus:ring-2 focus:ring-[var(--accent)] disabled:opacity-60 disabled:cursor-not-allowed"
+                        title={
+                          activeLedger.records.length > 0
+                            ? t.baseCurrency.locked
+                            : t.baseCurrency.hint
+                        }
+                        aria-label={t.baseCurrency.label}
+                      >
+                        {CURRENCIES.map((c) => (
+                          <option key={c} value={c}>
+                            {t.baseCurrency.label}: {c}
+                          </option>
+                        ))}
+                      </select>
+                    )
+                  )}
+                  {activeLedgerId !== "master" && activeLedger && (
+                    <select
+                      value={activeLedger.costBasisMethod ?? "fifo"}
+                      onChange={(e) =>
+                        setCostBasisMethod(e.target.value as CostBasisMethod)
+                      }
+                      className="bg-[var(--panel-2)] border border-[var(--border)] px-3 py-1 rounded-full text-[10px] font-black uppercase tracking-tighter text-[var(--muted)] focus:outline-none focus:ring-2 focus:ring-[var(--accent)]"
+                      title={t.costBasis.hint}
+                      aria-label={t.costBasis.label}
+                    >
+                      {COST_BASIS_METHODS.map((m) => (
+                        <option key={m} value={m}>
+                          {t.costBasis.label}: {t.costBasis[m]}
+                        </option>
+                      ))}
+                    </select>
+                  )}
+                  {activeLedgerId !== "master" && activeLedger && (
+                    <button
+                      type="button"
+                      onClick={() => setIsAlertsModalOpen(true)}
+                      className="bg-[var(--panel-2)] border border-[var(--border)] px-3 py-1 rounded-full text-[10px] font-black uppercase tracking-tighter text-[var(--muted)] hover:text-[var(--accent)] transition-colors"
+                    >
+                      {t.alertsBtn}
+                      {activeLedger.alerts?.length
+                        ? ` (${activeLedger.alerts.length})`
+                        : ""}
+                    </button>
+                  )}
+                  {activeLedgerId !== "master" && activeLedger && (
+                    <button
+                      type="button"
+                      onClick={() => setIsPlansModalOpen(true)}
+                      className="bg-[var(--panel-2)] border border-[var(--border)] px-3 py-1 rounded-full text-[10px] font-black uppercase tracking-tighter text-[var(--muted)] hover:text-[var(--accent)] transition-colors"
+                    >
+                      {t.plansBtn}
+                      {activeLedger.pendingEntries?.length
+                        ? ` (${activeLedger.pendingEntries.length})`
+                        : ""}
+                    </button>
+                  )}
                   <button
                     type="button"
                     onClick={() => setIsHistoryFullscreen((v) => !v)}
@@ -1190,6 +2349,19 @@ ${rt.date}: ${generatedAt}
                 </div>
               )}
 
+              {activeLedgerId !== "master" && activeLedger && (
+                <div className="px-6 py-3 border-b border-[var(--border)] bg-[var(--panel)]">
+                  <input
+                    type="search"
+                    value={historySearch}
+                    onChange={(e) => setHistorySearch(e.target.value)}
+                    placeholder={t.table.search}
+                    aria-label={t.table.search}
+                    className="w-full bg-[var(--input-bg)] border border-[var(--border-2)] rounded-xl px-4 py-2 text-sm text-[var(--input-text)] focus:outline-none focus:ring-2 focus:ring-[var(--accent)] placeholder:text-[var(--placeholder)]"
+                  />
+                </div>
+              )}
+
               {activeLedgerId !== "master" && (
                 <div
                   className={`${isHistoryFullscreen ? "flex-1 min-h-0 overflow-auto" : "overflow-x-auto max-h-[70vh] overflow-y-auto"} scroll-smooth`}
@@ -1238,11 +2410,11 @@ ${rt.date}: ${generatedAt}
                       </tr>
                     </thead>
                     <tbody className="divide-y divide-[var(--border)]">
-                      {(activeLedger?.records || []).map((record, index) => {
-                        const feeAmount =
-                          record.sellingPrice *
-                          record.handlingFeeRate *
-                          record.grams;
+                      {visibleRecords.map((record, index) => {
+                        const fee = recordFees(record);
+                        const currency = record.currency ?? ledgerCurrency;
+                        const money = (value: number) =>
+                          formatMoney(value, currency, lang);
                         return (
                           <tr
                             key={record.id}
@@ -1268,66 +2440,190 @@ ${rt.date}: ${generatedAt}
                                   },
                                 )}
                               </div>
+                              {record.note && (
+                                <div
+                                  className="mt-1 text-[10px] text-[var(--muted)] truncate"
+                                  title={record.note}
+                                >
+                                  {record.note}
+                                </div>
+                              )}
+                              {record.tags && (
+                                <div className="mt-1 flex flex-wrap justify-center gap-1">
+                                  {record.tags.map((tag) => (
+                                    <button
+                                      key={tag}
+                                      type="button"
+                                      onClick={() => setHistorySearch(tag)}
+                                      className="bg-[var(--chip-bg)] text-[var(--accent-2)] text-[9px] px-2 py-0.5 rounded-full font-bold hover:text-[var(--accent)] transition-colors"
+                                      title={t.table.filterTag}
+                                    >
+                                      #{tag}
+                                    </button>
+                                  ))}
+                                </div>
+                              )}
                             </td>
                             <td className="px-4 md:px-6 py-4 md:py-5 text-center whitespace-nowrap">
                               <div className="text-sm font-black text-[var(--accent)]">
-                                {record.grams.toFixed(2)}g
+                                {formatWeight(
+                                  record.grams,
+                                  displayUnit,
+                                  unitSuffix,
+                                )}
+                              </div>
+                              <div
+                                className={`text-[10px] font-bold uppercase tracking-tighter ${record.side === "buy" ? "text-[var(--danger)]" : record.side === "sell" ? "text-[var(--success)]" : "text-[var(--muted-2)]"}`}
+                              >
+                                {t.sides[record.side]} ·{" "}
+                                {t.metals[record.metal]}
                               </div>
+                              {record.side === "buy" && (
+                                <div className="text-[10px] text-[var(--muted-2)] font-mono">
+                                  {t.table.remaining.replace(
+                                    "{weight}",
+                                    formatWeight(
+                                      lotRemaining.get(record.id) ?? 0,
+                                      displayUnit,
+                                      unitSuffix,
+                                    ),
+                                  )}
+                                </div>
+                              )}
                             </td>
                             <td className="px-4 md:px-6 py-4 md:py-5 text-center whitespace-nowrap">
                               <div className="text-sm font-black text-[var(--danger)] font-mono">
-                                ￥{record.costPrice.toFixed(2)}
+                                {money(
+                                  pricePerUnit(record.costPrice, displayUnit),
+                                )}
                               </div>
+                              {record.currency && record.fxRate && (
+                                <div className="text-[10px] text-[var(--muted-2)] font-mono">
+                                  {t.table.fx
+                                    .replace("{rate}", record.fxRate.toFixed(4))
+                                    .replace("{base}", ledgerCurrency)}
+                                </div>
+                              )}
                             </td>
                             <td className="px-4 md:px-6 py-4 md:py-5 text-center whitespace-nowrap">
                               <div className="text-sm font-black text-[var(--success)] font-mono">
-                                ￥{record.sellingPrice.toFixed(2)}
+                                {record.side === "buy"
+                                  ? "—"
+                                  : money(
+                                      pricePerUnit(
+                                        record.sellingPrice,
+                                        displayUnit,
+                                      ),
+                                    )}
                               </div>
                             </td>
                             <td className="px-4 md:px-6 py-4 md:py-5 text-center whitespace-nowrap">
                               <div className="flex flex-col items-center gap-0.5">
+                                {record.channel && (
+                                  <span className="text-[10px] text-[var(--accent-2)] font-bold truncate max-w-full">
+                                    {record.channel}
+                                  </span>
+                                )}
                                 <span className="text-sm font-black text-[var(--muted)] font-mono">
-                                  ￥
-                                  {feeAmount.toLocaleString(undefined, {
-                                    minimumFractionDigits: 2,
-                                    maximumFractionDigits: 2,
-                                  })}
-                                </span>
-                                <span className="text-[10px] text-[var(--muted-2)] uppercase font-bold tracking-tighter">
-                                  {(record.handlingFeeRate * 100).toFixed(2)}%
+                                  {money(fee.total)}
                                 </span>
+                                {record.side !== "sell" && (
+                                  <span className="text-[10px] text-[var(--muted-2)] uppercase font-bold tracking-tighter">
+                                    {t.table.feeBuy}{" "}
+                                    {(record.fees.buyRate * 100).toFixed(2)}% ·
+                                    {money(fee.buy)}
+                                  </span>
+                                )}
+                                {record.side !== "buy" && (
+                                  <span className="text-[10px] text-[var(--muted-2)] uppercase font-bold tracking-tighter">
+                                    {t.table.feeSell}{" "}
+                                    {(record.fees.sellRate * 100).toFixed(2)}% ·
+                                    {money(fee.sell)}
+                                  </span>
+                                )}
+                                {(record.fees.fixed > 0 ||
+                                  record.fees.minimum > 0) && (
+                                  <span className="text-[10px] text-[var(--muted-2)] uppercase font-bold tracking-tighter">
+                                    {t.table.feeFixed}{" "}
+                                    {money(record.fees.fixed)} ·{" "}
+                                    {t.table.feeMin}{" "}
+                                    {money(record.fees.minimum)}
+                                  </span>
+                                )}
                               </div>
                             </td>
                             <td className="px-4 md:px-6 py-4 md:py-5 text-center whitespace-nowrap">
-                              <div
-                                className={`text-sm font-black font-mono ${record.actualProfit >= 0 ? "text-[var(--success)]" : "text-[var(--danger)]"}`}
-                              >
-                                ￥
-                                {record.actualProfit.toLocaleString(undefined, {
-                                  minimumFractionDigits: 2,
-                                  maximumFractionDigits: 2,
-                                })}
-                              </div>
+                              {record.side === "buy" ? (
+                                <div className="text-sm font-black font-mono text-[var(--muted-2)]">
+                                  {t.table.open}
+                                </div>
+                              ) : (
+                                <div
+                                  className={`text-sm font-black font-mono ${record.actualProfit >= 0 ? "text-[var(--success)]" : "text-[var(--danger)]"}`}
+                                >
+                                  {money(record.actualProfit)}
+                                </div>
+                              )}
+                              {record.mismatches && (
+                                <div
+                                  className="text-[10px] text-[var(--danger)] font-bold uppercase tracking-tighter"
+                                  title={t.table.mismatchHint.replace(
+                                    "{values}",
+                                    DERIVED_FIELDS.flatMap((field) => {
+                                      const stored = record.mismatches?.[field];
+                                      if (stored === undefined) return [];
+                                      return `${mismatchLabels[field]} ${
+                                        field === "profitMargin"
+                                          ? `${stored}%`
+                                          : money(stored)
+                                      }`;
+                                    }).join(", "),
+                                  )}
+                                >
+                                  {t.table.mismatch}
+                                </div>
+                              )}
                             </td>
                             <td className="px-4 md:px-6 py-4 md:py-5 text-center whitespace-nowrap">
                               <div className="flex flex-col items-center gap-0.5">
                                 <span className="text-[10px] text-[var(--info)] font-bold uppercase tracking-tighter opacity-70">
-                                  {t.table.target}: ￥
-                                  {record.desiredPrice.toFixed(2)}
+                                  {t.table.target}:{" "}
+                                  {money(
+                                    pricePerUnit(
+                                      record.desiredPrice,
+                                      displayUnit,
+                                    ),
+                                  )}
                                 </span>
                                 <span className="text-sm font-black text-[var(--info)] font-mono">
-                                  ￥
-                                  {record.projectedProfit.toLocaleString(
-                                    undefined,
-                                    {
-                                      minimumFractionDigits: 2,
-                                      maximumFractionDigits: 2,
-                                    },
-                                  )}
+                                  {money(record.projectedProfit)}
                                 </span>
                               </div>
                             </td>
                             <td className="px-4 md:px-6 py-4 md:py-5 text-center whitespace-nowrap">
+                              <button
+                                onClick={() => openTradeModal(record)}
+                                className="text-[var(--muted-2)] hover:text-[var(--accent)] p-2 opacity-100 transition-all scale-90 hover:scale-110"
+                                aria-label={
+                                  lang === "zh" ? "编辑记录" : "Edit record"
+                                }
+                                title={t.editRecord}
+                              >
+                                <svg
+                                  xmlns="http://www.w3.org/2000/svg"
+                                  className="h-5 w-5"
+                                  fill="none"
+                                  viewBox="0 0 24 24"
+                                  stroke="currentColor"
+                                >
+                                  <path
+                                    strokeLinecap="round"
+                                    strokeLinejoin="round"
+                                    strokeWidth={2}
+                                    d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z"
+                                  />
+                                </svg>
+                              </button>
                               <button
                                 onClick={() =>
                                   setDeleteModal({
@@ -1335,11 +2631,16 @@ ${rt.date}: ${generatedAt}
                                     targetId: record.id,
                                   })
                                 }
-                                className="text-[var(--muted-2)] hover:text-[var(--danger)] p-2 opacity-100 transition-all scale-90 hover:scale-110"
+                                disabled={closedLots.has(record.id)}
+                                className="text-[var(--muted-2)] hover:text-[var(--danger)] p-2 opacity-100 transition-all scale-90 hover:scale-110 disabled:opacity-30 disabled:cursor-not-allowed disabled:hover:text-[var(--muted-2)] disabled:hover:scale-90"
                                 aria-label={
                                   lang === "zh" ? "删除记录" : "Delete record"
                                 }
-                                title={t.confirmDelete}
+                                title={
+                                  closedLots.has(record.id)
+                                    ? t.closedLotDelete
+                                    : t.confirmDelete
+                                }
                               >
                                 <svg
                                   xmlns="http://www.w3.org/2000/svg"
@@ -1360,7 +2661,7 @@ ${rt.date}: ${generatedAt}
                           </tr>
                         );
                       })}
-                      {(!activeLedger || activeLedger.records.length === 0) && (
+                      {visibleRecords.length === 0 && (
                         <tr>
                           <td colSpan={9} className="px-6 py-24 text-center">
                             <div className="flex flex-col items-center opacity-40">
@@ -1381,7 +2682,9 @@ ${rt.date}: ${generatedAt}
                                 </svg>
                               </div>
                               <p className="text-[var(--muted)] font-bold uppercase tracking-widest text-xs">
-                                {t.noRecords}
+                                {(activeLedger?.records.length || 0) > 0
+                                  ? t.table.noMatches
+                                  : t.noRecords}
                               </p>
                             </div>
                           </td>
@@ -1430,13 +2733,13 @@ ${rt.date}: ${generatedAt}
         <div
           className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm"
           onMouseDown={(e) => {
-            if (e.target === e.currentTarget) setIsTradeModalOpen(false);
+            if (e.target === e.currentTarget) closeTradeModal();
           }}
         >
           <div className="relative w-full max-w-2xl">
             <button
               type="button"
-              onClick={() => setIsTradeModalOpen(false)}
+              onClick={closeTradeModal}
               className="absolute -top-3 -right-3 bg-[var(--panel)] border border-[var(--border)] p-2 rounded-xl text-[var(--muted)] hover:text-[var(--text)] shadow-xl"
               aria-label={lang === "zh" ? "关闭" : "Close"}
             >
@@ -1454,9 +2757,27 @@ ${rt.date}: ${generatedAt}
               </svg>
             </button>
             <TradeForm
+              key={editingRecord?.id ?? "new"}
               onAdd={addRecord}
+              onUpdate={updateRecord}
+              initialRecord={editingRecord ?? undefined}
+              closingSellAt={
+                editingRecord?.side === "buy"
+                  ? firstClosingSellAt(
+                      activeLedger?.records ?? [],
+                      editingRecord.id,
+                    )
+                  : undefined
+              }
+              openLots={openLots}
+              costBasisMethod={activeLedger?.costBasisMethod ?? "fifo"}
+              feePresets={feePresets}
+              displayUnit={displayUnit}
+              baseCurrency={ledgerCurrency}
+              fxRates={fxRates}
+              liveQuotes={liveQuotes}
               lang={lang}
-              onSubmitted={() => setIsTradeModalOpen(false)}
+              onSubmitted={closeTradeModal}
             />
           </div>
         </div>
@@ -1469,20 +2790,143 @@ ${rt.date}: ${generatedAt}
         onTemplateChange={setShareTemplate}
         summary={summary}
         payload={sharePayload}
+        statement={{
+          rows: statementRowsForShare,
+          showLedger: activeLedgerId === "master",
+        }}
         onCopyText={copyShareReport}
         onClose={() => setIsShareModalOpen(false)}
       />
 
+      <FeePresetsModal
+        isOpen={isFeePresetsModalOpen}
+        i18n={t.feePresets}
+        presets={feePresets}
+        onChange={setFeePresets}
+        onClose={() => setIsFeePresetsModalOpen(false)}
+      />
+
+      <FxRatesModal
+        isOpen={isFxRatesModalOpen}
+        i18n={{ ...t.fxRates, currencies: t.currencies }}
+        rates={fxRates}
+        onChange={setFxRates}
+        onClose={() => setIsFxRatesModalOpen(false)}
+      />
+
+      <SpotPricesModal
+        isOpen={isSpotPricesModalOpen}
+        lang={lang}
+        prices={spotPrices}
+        displayUnit={displayUnit}
+        defaultCurrency={summary.currency}
+        onChange={setSpotPrices}
+        onClose={() => setIsSpotPricesModalOpen(false)}
+      />
+
+      {activeLedgerId !== "master" && activeLedger && (
+        <AlertsModal
+          isOpen={isAlertsModalOpen}
+          lang={lang}
+          ledger={activeLedger}
+          openLots={openLots}
+          displayUnit={displayUnit}
+          onChange={setLedgerAlerts}
+          onClearHistory={clearAlertHistory}
+          onClose={() => setIsAlertsModalOpen(false)}
+        />
+      )}
+
+      {activeLedgerId !== "master" && activeLedger && (
+        <SavingsPlansModal
+          isOpen={isPlansModalOpen}
+          lang={lang}
+          ledger={activeLedger}
+          feePresets={feePresets}
+          displayUnit={displayUnit}
+          marketPrices={marketPrices}
+          fxRates={fxRates}
+          onChangePlans={setLedgerPlans}
+          onConfirm={confirmPendingEntry}
+          onSkip={skipPendingEntry}
+          onClose={() => setIsPlansModalOpen(false)}
+        />
+      )}
+
       <DataTransferModal
         isOpen={isTransferModalOpen}
         i18n={dataTransferI18n}
         ledgers={ledgers}
         activeLedgerId={activeLedgerId}
-        onClose={() => setIsTransferModalOpen(false)}
+        onClose={() => {
+          setIsTransferModalOpen(false);
+          setPendingImport(null);
+        }}
+        review={pendingImport}
+        onConfirmReview={(choices: Record<string, ConflictChoice>) => {
+          try {
+            pendingImport?.apply(choices);
+            setPendingImport(null);
+          } catch (e) {
+            showTransferToast(importErrorMessage(e), "danger");
+          }
+        }}
+        onCancelReview={() => setPendingImport(null)}
         onExportAll={exportAllDataJson}
+        onExportEncrypted={exportEncryptedJson}
+        onExportXlsx={exportXlsx}
         onImportAll={importAllDataJson}
         onExportLedger={exportLedgerJson}
         onImportLedger={importLedgerJson}
+        onExportCsv={exportCsv}
+        onImportCsv={() => setIsCsvImportOpen(true)}
+        onImportBankStatement={() => setIsBankImportOpen(true)}
+        onOpenSnapshots={() => {
+          setIsTransferModalOpen(false);
+          setIsSnapshotsModalOpen(true);
+        }}
+      />
+
+      <CsvImportWizard
+        isOpen={isCsvImportOpen}
+        lang={lang}
+        ledgers={ledgers}
+        activeLedgerId={activeLedgerId}
+        fxRates={fxRates}
+        presets={csvPresets}
+        onChangePresets={setCsvPresets}
+        onImport={importCsvRecords}
+        onClose={() => setIsCsvImportOpen(false)}
+      />
+
+      <BankStatementImportModal
+        isOpen={isBankImportOpen}
+        lang={lang}
+        ledgers={ledgers}
+        activeLedgerId={activeLedgerId}
+        fxRates={fxRates}
+        onReview={reviewBankImport}
+        onClose={() => setIsBankImportOpen(false)}
+      />
+
+      <SnapshotsModal
+        isOpen={isSnapshotsModalOpen}
+        lang={lang}
+        canUndo={!!undoSnapshotId}
+        onRestore={restoreSnapshot}
+        onUndo={undoRestore}
+        onClose={() => setIsSnapshotsModalOpen(false)}
+      />
+
+      <PassphraseModal
+        isOpen={!!passphrasePrompt}
+        lang={lang}
+        mode={passphrasePrompt?.mode ?? "decrypt"}
+        fileName={passphrasePrompt?.fileName}
+        busy={!!passphrasePrompt?.busy}
+        error={passphrasePrompt?.error}
+        onSubmit={submitPassphrase}
+        onCancel={() => setPassphrasePrompt(null)}
       />
 
       {/* Toast Notification */}
@@ -1515,13 +2959,19 @@ ${rt.date}: ${generatedAt}
       <InputModal
         isOpen={modalConfig.isOpen}
         title={
-          modalConfig.type === "create" ? t.ledgers.newLedger : t.ledgers.rename
+          modalConfig.type === "priceEndpoint"
+            ? t.priceFeed.endpointTitle
+            : modalConfig.type === "create"
+              ? t.ledgers.newLedger
+              : t.ledgers.rename
         }
         initialValue={modalConfig.initialValue}
         placeholder={
-          modalConfig.type === "create"
-            ? t.ledgers.placeholder
-            : t.ledgers.renamePlaceholder
+          modalConfig.type === "priceEndpoint"
+            ? t.priceFeed.endpointPlaceholder
+            : modalConfig.type === "create"
+              ? t.ledgers.placeholder
+              : t.ledgers.renamePlaceholder
         }
         onConfirm={handleModalConfirm}
         onCancel={() => setModalConfig((prev) => ({ ...prev, isOpen: false }))}
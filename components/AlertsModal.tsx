@@ -0,0 +1,303 @@
+import React, { useEffect, useState } from "react";
+import { AlertKind, Ledger, Metal, PriceAlert, WeightUnit } from "../types";
+import { translations, Language } from "../translations";
+import { METALS, OpenLot } from "../utils/positions";
+import { ALERT_KINDS, requestNotificationPermission } from "../utils/alerts";
+import { DEFAULT_CURRENCY, formatMoney } from "../utils/currency";
+import { formatWeight, pricePerGram, pricePerUnit } from "../utils/units";
+import { generateId } from "../utils/id";
+
+export const AlertsModal: React.FC<{
+  isOpen: boolean;
+  lang: Language;
+  ledger: Ledger;
+  openLots: OpenLot[];
+  displayUnit: WeightUnit;
+  onChange: (alerts: PriceAlert[]) => void;
+  onClearHistory: () => void;
+  onClose: () => void;
+}> = ({
+  isOpen,
+  lang,
+  ledger,
+  openLots,
+  displayUnit,
+  onChange,
+  onClearHistory,
+  onClose,
+}) => {
+  const tr = translations[lang];
+  const i18n = tr.alerts;
+  const unitSuffix = tr.unitSuffix[displayUnit];
+  const currency = ledger.baseCurrency ?? DEFAULT_CURRENCY;
+  const alerts = ledger.alerts ?? [];
+  const history = ledger.alertHistory ?? [];
+  const [scope, setScope] = useState("");
+  const [kind, setKind] = useState<AlertKind>("target");
+  const [metal, setMetal] = useState<Metal>("gold");
+  const [price, setPrice] = useState("");
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setScope("");
+    setKind("target");
+    setPrice("");
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const lot = openLots.find((l) => l.buyId === scope);
+  const alertMetal = lot?.metal ?? metal;
+  const parsedPrice = parseFloat(price);
+  const canAdd = parsedPrice > 0;
+  const money = (perGram: number) =>
+    formatMoney(pricePerUnit(perGram, displayUnit), currency, lang);
+
+  const lotLabel = (l: OpenLot) =>
+    i18n.position
+      .replace("{date}", new Date(l.timestamp).toLocaleDateString())
+      .replace(
+        "{weight}",
+        formatWeight(l.remainingGrams, displayUnit, unitSuffix),
+      );
+
+  const describeScope = (buyId?: string) => {
+    if (!buyId) return i18n.wholeLedger;
+    const l = openLots.find((x) => x.buyId === buyId);
+    return l ? lotLabel(l) : i18n.closedPosition;
+  };
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canAdd) return;
+    requestNotificationPermission();
+    onChange([
+      ...alerts,
+      {
+        id: generateId(),
+        kind,
+        metal: alertMetal,
+        price: pricePerGram(parsedPrice, displayUnit),
+        ...(lot ? { buyId: lot.buyId } : {}),
+        createdAt: Date.now(),
+      },
+    ]);
+    setPrice("");
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm"
+      onMouseDown={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+    >
+      <div className="bg-[var(--panel)] border border-[var(--border)] rounded-2xl w-full max-w-2xl shadow-2xl p-6 max-h-[90vh] overflow-auto">
+        <div className="flex items-start justify-between gap-6">
+          <div className="min-w-0">
+            <h3 className="text-xl font-bold text-[var(--text)]">
+              {i18n.title} · {ledger.name}
+            </h3>
+            <p className="text-sm text-[var(--muted)] mt-1">{i18n.subtitle}</p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-[var(--muted-2)] hover:text-[var(--text)]"
+            aria-label={i18n.close}
+          >
+            <svg
+              xmlns="http://www.w3.org/2000/svg"
+              className="h-5 w-5"
+              viewBox="0 0 20 20"
+              fill="currentColor"
+            >
+              <path
+                fillRule="evenodd"
+                d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z"
+                clipRule="evenodd"
+              />
+            </svg>
+          </button>
+        </div>
+
+        <div className="mt-6 rounded-2xl border border-[var(--border)] bg-[var(--panel-2)] divide-y divide-[var(--border)] max-h-[30vh] overflow-auto">
+          {alerts.length === 0 && (
+            <div className="px-4 py-6 text-xs text-[var(--muted-2)]">
+              {i18n.empty}
+            </div>
+          )}
+          {alerts.map((a) => (
+            <div
+              key={a.id}
+              className="flex items-center justify-between gap-3 px-4 py-2"
+            >
+              <div className="min-w-0">
+                <div className="text-sm font-bold text-[var(--text)]">
+                  <span
+                    className={
+                      a.kind === "target"
+                        ? "text-[var(--success)]"
+                        : "text-[var(--danger)]"
+                    }
+                  >
+                    {i18n.kinds[a.kind]}
+                  </span>{" "}
+                  · {tr.metals[a.metal]} · {money(a.price)}
+                </div>
+                <div className="text-[10px] text-[var(--muted-2)] font-mono truncate">
+                  {describeScope(a.buyId)}
+                </div>
+              </div>
+              <button
+                type="button"
+                onClick={() => onChange(alerts.filter((x) => x.id !== a.id))}
+                className="p-1 text-[var(--muted-2)] hover:text-[var(--danger)] transition-all"
+                title={i18n.remove}
+              >
+                <svg
+                  xmlns="http://www.w3.org/2000/svg"
+                  className="h-4 w-4"
+                  fill="none"
+                  viewBox="0 0 24 24"
+                  stroke="currentColor"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
+                  />
+                </svg>
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <form onSubmit={handleAdd} className="mt-4 grid grid-cols-12 gap-2">
+          <select
+            value={scope}
+            onChange={(e) => setScope(e.target.value)}
+            aria-label={i18n.scope}
+            title={i18n.scope}
+            className="col-span-12 md:col-span-4 bg-[var(--input-bg)] border border-[var(--border-2)] rounded-xl px-3 py-2 text-sm text-[var(--input-text)] focus:outline-none focus:ring-2 focus:ring-[var(--accent)]"
+          >
+            <option value="">{i18n.wholeLedger}</option>
+            {openLots.map((l) => (
+              <option key={l.buyId} value={l.buyId}>
+                {tr.metals[l.metal]} · {lotLabel(l)}
+              </option>
+            ))}
+          </select>
+          <select
+            value={alertMetal}
+            disabled={!!lot}
+            onChange={(e) => setMetal(e.target.value as Metal)}
+            aria-label={tr.form.metal}
+            className="col-span-4 md:col-span-2 bg-[var(--input-bg)] border border-[var(--border-2)] rounded-xl px-3 py-2 text-sm text-[var(--input-text)] focus:outline-none focus:ring-2 focus:ring-[var(--accent)] disabled:opacity-60"
+          >
+            {METALS.map((m) => (
+              <option key={m} value={m}>
+                {tr.metals[m]}
+              </option>
+            ))}
+          </select>
+          <select
+            value={kind}
+            onChange={(e) => setKind(e.target.value as AlertKind)}
+            className="col-span-4 md:col-span-2 bg-[var(--input-bg)] border border-[var(--border-2)] rounded-xl px-3 py-2 text-sm text-[var(--input-text)] focus:outline-none focus:ring-2 focus:ring-[var(--accent)]"
+          >
+            {ALERT_KINDS.map((k) => (
+              <option key={k} value={k}>
+                {i18n.kinds[k]}
+              </option>
+            ))}
+          </select>
+          <input
+            type="number"
+            min="0"
+            step="0.01"
+            value={price}
+            onChange={(e) => setPrice(e.target.value)}
+            placeholder={i18n.price}
+            aria-label={i18n.price}
+            className="col-span-4 md:col-span-2 bg-[var(--input-bg)] border border-[var(--border-2)] rounded-xl px-3 py-2 text-sm text-[var(--input-text)] focus:outline-none focus:ring-2 focus:ring-[var(--accent)] placeholder:text-[var(--placeholder)]"
+          />
+          <button
+            type="submit"
+            disabled={!canAdd}
+            className="col-span-12 md:col-span-2 rounded-xl bg-[var(--accent)] text-slate-900 text-xs font-bold py-2 hover:bg-[var(--success)] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {i18n.add}
+          </button>
+        </form>
+        <div className="mt-2 flex items-center justify-between gap-3 text-[11px] text-[var(--muted-2)]">
+          <span>
+            {tr.form.pricesPerUnit
+              .replace("{currency}", currency)
+              .replace("{unit}", tr.units[displayUnit])}
+          </span>
+          {lot && lot.desiredPrice > 0 && (
+            <button
+              type="button"
+              onClick={() => {
+                setKind("target");
+                setPrice(
+                  String(
+                    Number(
+                      pricePerUnit(lot.desiredPrice, displayUnit).toFixed(2),
+                    ),
+                  ),
+                );
+              }}
+              className="font-bold text-[var(--accent)] hover:text-[var(--success)] transition-colors"
+            >
+              {i18n.fromDesired}
+            </button>
+          )}
+        </div>
+
+        <div className="mt-6 flex items-center justify-between">
+          <p className="text-[var(--muted)] text-[10px] font-bold uppercase tracking-widest">
+            {i18n.history}
+          </p>
+          {history.length > 0 && (
+            <button
+              type="button"
+              onClick={onClearHistory}
+              className="text-[10px] font-bold text-[var(--muted-2)] hover:text-[var(--danger)] transition-colors"
+            >
+              {i18n.clearHistory}
+            </button>
+          )}
+        </div>
+        <div className="mt-2 rounded-2xl border border-[var(--border)] bg-[var(--panel-2)] divide-y divide-[var(--border)] max-h-[25vh] overflow-auto">
+          {history.length === 0 && (
+            <div className="px-4 py-6 text-xs text-[var(--muted-2)]">
+              {i18n.noHistory}
+            </div>
+          )}
+          {history.map((h) => (
+            <div
+              key={h.id}
+              className="flex items-center justify-between gap-3 px-4 py-2 text-xs"
+            >
+              <div className="min-w-0">
+                <div className="font-bold text-[var(--text)]">
+                  {i18n.kinds[h.kind]} · {tr.metals[h.metal]} · {money(h.price)}
+                </div>
+                <div className="text-[10px] text-[var(--muted-2)] font-mono">
+                  {new Date(h.triggeredAt).toLocaleString()} ·{" "}
+                  {h.buyId ? describeScope(h.buyId) : i18n.wholeLedger}
+                </div>
+              </div>
+              <span className="font-mono text-[var(--accent)]">
+                {i18n.market.replace("{price}", money(h.marketPrice))}
+              </span>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
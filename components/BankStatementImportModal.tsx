@@ -0,0 +1,307 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { FxRates, Ledger, TradeRecord } from "../types";
+import { translations, Language } from "../translations";
+import {
+  buildBankRecords,
+  extractBankRows,
+  readStatementTable,
+  StatementFileError,
+} from "../utils/bankStatement";
+import { BANK_STATEMENT_PARSERS, detectBankParser } from "../utils/bankParsers";
+import { DEFAULT_CURRENCY, formatMoney } from "../utils/currency";
+
+// Parses a downloaded statement and hands the records to the same review
+// as a JSON import, which validates them and spots ones already imported.
+export const BankStatementImportModal: React.FC<{
+  isOpen: boolean;
+  lang: Language;
+  ledgers: Ledger[];
+  activeLedgerId: string;
+  fxRates: FxRates;
+  onReview: (
+    ledgerId: string,
+    records: TradeRecord[],
+    fileName: string,
+  ) => void;
+  onClose: () => void;
+}> = ({
+  isOpen,
+  lang,
+  ledgers,
+  activeLedgerId,
+  fxRates,
+  onReview,
+  onClose,
+}) => {
+  const tr = translations[lang];
+  const i18n = tr.bankImport;
+  const [file, setFile] = useState<{
+    name: string;
+    table: string[][];
+    detectedId: string;
+  } | null>(null);
+  const [fileError, setFileError] = useState("");
+  const [parserId, setParserId] = useState("");
+  const [targetId, setTargetId] = useState("");
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setFile(null);
+    setFileError("");
+    setTargetId(
+      ledgers.some((l) => l.id === activeLedgerId)
+        ? activeLedgerId
+        : (ledgers[0]?.id ?? ""),
+    );
+  }, [isOpen]);
+
+  const parser =
+    BANK_STATEMENT_PARSERS.find((p) => p.id === parserId) ??
+    BANK_STATEMENT_PARSERS[0];
+  const target = ledgers.find((l) => l.id === targetId);
+
+  const rows = useMemo(
+    () => (file ? extractBankRows(file.table, parser) : null),
+    [file, parser],
+  );
+  const results = useMemo(
+    () =>
+      rows && target ? buildBankRecords(rows, parser.id, target, fxRates) : [],
+    [rows, parser, target, fxRates],
+  );
+
+  if (!isOpen) return null;
+
+  const records = results.flatMap((r) => (r.record ? [r.record] : []));
+  const skipped = results.length - records.length;
+  const currency = target?.baseCurrency ?? DEFAULT_CURRENCY;
+
+  const handleFile = async (picked: File) => {
+    try {
+      const table = await readStatementTable(picked);
+      const detected = detectBankParser(table);
+      setFile({ name: picked.name, table, detectedId: detected.id });
+      setParserId(detected.id);
+      setFileError("");
+    } catch (e) {
+      setFile(null);
+      setFileError(
+        e instanceof StatementFileError
+          ? i18n.errors[e.reason]
+          : i18n.errors.unreadable,
+      );
+    }
+  };
+
+  const inputClass =
+    "bg-[var(--input-bg)] border border-[var(--border-2)] rounded-xl px-3 py-2 text-sm text-[var(--input-text)] focus:outline-none focus:ring-2 focus:ring-[var(--accent)] placeholder:text-[var(--placeholder)]";
+  const labelClass =
+    "text-[var(--muted)] text-[10px] font-bold uppercase tracking-widest";
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm"
+      onMouseDown={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+    >
+      <div className="bg-[var(--panel)] border border-[var(--border)] rounded-2xl w-full max-w-3xl shadow-2xl p-6 max-h-[90vh] overflow-auto">
+        <div className="flex items-start justify-between gap-6">
+          <div className="min-w-0">
+            <h3 className="text-xl font-bold text-[var(--text)]">
+              {i18n.title}
+            </h3>
+            <p className="text-sm text-[var(--muted)] mt-1">{i18n.subtitle}</p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-[var(--muted-2)] hover:text-[var(--text)]"
+            aria-label={i18n.close}
+          >
+            <svg
+              xmlns="http://www.w3.org/2000/svg"
+              className="h-5 w-5"
+              viewBox="0 0 20 20"
+              fill="currentColor"
+            >
+              <path
+                fillRule="evenodd"
+                d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z"
+                clipRule="evenodd"
+              />
+            </svg>
+          </button>
+        </div>
+
+        <div className="mt-6 flex flex-wrap items-center gap-3">
+          <label className="px-4 py-2 rounded-xl bg-[var(--accent)] text-slate-900 text-xs font-bold hover:bg-[var(--success)] transition-colors cursor-pointer">
+            {i18n.chooseFile}
+            <input
+              type="file"
+              accept=".csv,.txt,.xls,.xlsx,text/csv,text/plain"
+              className="hidden"
+              onChange={(e) => {
+                const picked = e.target.files?.[0];
+                if (picked) void handleFile(picked);
+                e.target.value = "";
+              }}
+            />
+          </label>
+          {file && (
+            <span className="text-xs text-[var(--muted)] truncate">
+              {file.name}
+              {rows &&
+                ` · ${i18n.rows.replace("{count}", String(rows.length))}`}
+            </span>
+          )}
+        </div>
+        {fileError && (
+          <p className="mt-3 text-xs text-[var(--danger)]">{fileError}</p>
+        )}
+
+        {file && (
+          <>
+            <div className="mt-6 grid grid-cols-1 md:grid-cols-2 gap-3">
+              <label className="flex flex-col gap-1">
+                <span className={labelClass}>{i18n.layout}</span>
+                <select
+                  value={parser.id}
+                  onChange={(e) => setParserId(e.target.value)}
+                  className={inputClass}
+                >
+                  {BANK_STATEMENT_PARSERS.map((p) => (
+                    <option key={p.id} value={p.id}>
+                      {p.label[lang]}
+                      {p.id === file.detectedId ? ` · ${i18n.detected}` : ""}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex flex-col gap-1">
+                <span className={labelClass}>{i18n.target}</span>
+                <select
+                  value={targetId}
+                  onChange={(e) => setTargetId(e.target.value)}
+                  className={inputClass}
+                  disabled={ledgers.length === 0}
+                >
+                  {ledgers.length === 0 && (
+                    <option value="">{i18n.noLedgers}</option>
+                  )}
+                  {ledgers.map((l) => (
+                    <option key={l.id} value={l.id}>
+                      {l.name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+
+            {!rows ? (
+              <p className="mt-6 text-xs text-[var(--danger)]">
+                {i18n.notFound}
+              </p>
+            ) : (
+              <>
+                <div className="mt-6 rounded-2xl border border-[var(--border)] bg-[var(--panel-2)] overflow-auto max-h-[40vh]">
+                  <table className="w-full text-xs">
+                    <thead>
+                      <tr className="text-left text-[var(--muted-2)]">
+                        <th className="px-3 py-2">{tr.csvImport.line}</th>
+                        <th className="px-3 py-2">
+                          {tr.csvImport.fields.date}
+                        </th>
+                        <th className="px-3 py-2">
+                          {tr.csvImport.fields.side}
+                        </th>
+                        <th className="px-3 py-2">
+                          {tr.csvImport.fields.grams}
+                        </th>
+                        <th className="px-3 py-2">{i18n.price}</th>
+                        <th className="px-3 py-2">
+                          {tr.csvImport.fields.actualProfit}
+                        </th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-[var(--border)]">
+                      {results.map(({ line, record, error }) => (
+                        <tr key={line} className="text-[var(--text)]">
+                          <td className="px-3 py-2 text-[var(--muted-2)]">
+                            {line}
+                          </td>
+                          {record ? (
+                            <>
+                              <td className="px-3 py-2 whitespace-nowrap">
+                                {new Date(record.timestamp).toLocaleString(
+                                  lang === "zh" ? "zh-CN" : "en-US",
+                                )}
+                              </td>
+                              <td className="px-3 py-2">
+                                {tr.sides[record.side]}
+                              </td>
+                              <td className="px-3 py-2 font-mono">
+                                {record.grams}
+                                {tr.unitSuffix.g}
+                              </td>
+                              <td className="px-3 py-2 font-mono">
+                                {formatMoney(
+                                  record.side === "sell"
+                                    ? record.sellingPrice
+                                    : record.costPrice,
+                                  currency,
+                                  lang,
+                                )}
+                              </td>
+                              <td className="px-3 py-2 font-mono">
+                                {record.side === "buy"
+                                  ? "—"
+                                  : formatMoney(
+                                      record.actualProfit,
+                                      currency,
+                                      lang,
+                                    )}
+                              </td>
+                            </>
+                          ) : (
+                            <td
+                              colSpan={5}
+                              className="px-3 py-2 text-[var(--danger)]"
+                            >
+                              {error ? tr.csvImport.errors[error] : ""}
+                            </td>
+                          )}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+                <p className="mt-2 text-xs text-[var(--muted)]">
+                  {tr.csvImport.summary
+                    .replace("{ok}", String(records.length))
+                    .replace("{skipped}", String(skipped))}
+                </p>
+              </>
+            )}
+
+            <div className="mt-6 flex flex-wrap items-center gap-3">
+              <p className="text-[11px] text-[var(--muted-2)] leading-relaxed">
+                {i18n.hint}
+              </p>
+              <button
+                type="button"
+                disabled={!target || records.length === 0}
+                onClick={() =>
+                  target && onReview(target.id, records, file.name)
+                }
+                className="ml-auto px-4 py-2 rounded-xl bg-[var(--accent)] text-slate-900 text-xs font-bold hover:bg-[var(--success)] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {i18n.review.replace("{count}", String(records.length))}
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
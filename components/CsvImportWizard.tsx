@@ -0,0 +1,585 @@
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  CsvDateFormat,
+  CsvDecimalFormat,
+  CsvImportField,
+  CsvImportPreset,
+  FxRates,
+  Ledger,
+  TradeRecord,
+  WeightUnit,
+} from "../types";
+import { translations, Language } from "../translations";
+import { CsvColumn, decodeCsv, detectDelimiter, parseCsv } from "../utils/csv";
+import {
+  buildCsvRecords,
+  CsvAliases,
+  CSV_DATE_FORMATS,
+  CSV_DECIMAL_FORMATS,
+  CSV_IMPORT_FIELDS,
+  guessColumns,
+  REQUIRED_CSV_FIELDS,
+} from "../utils/csvImport";
+import { DEFAULT_CURRENCY, formatMoney } from "../utils/currency";
+import { formatWeight, WEIGHT_UNITS } from "../utils/units";
+import { generateId } from "../utils/id";
+
+const DELIMITERS = [
+  { value: ",", key: "comma" },
+  { value: ";", key: "semicolon" },
+  { value: "\t", key: "tab" },
+  { value: "|", key: "pipe" },
+] as const;
+
+const PREVIEW_ROWS = 8;
+
+const LANGUAGES = Object.keys(translations) as Language[];
+
+// Our own CSV export, in either language, maps back without a preset.
+const EXPORT_COLUMNS: Partial<Record<CsvImportField, CsvColumn>> = {
+  date: "date",
+  side: "side",
+  metal: "metal",
+  grams: "grams",
+  costPrice: "costPrice",
+  sellingPrice: "sellingPrice",
+  fee: "fee",
+  actualProfit: "actualProfit",
+  projectedProfit: "projectedProfit",
+  profitMargin: "margin",
+  currency: "currency",
+};
+
+const FIELD_NAMES = Object.fromEntries(
+  CSV_IMPORT_FIELDS.map((field) => {
+    const column = EXPORT_COLUMNS[field];
+    return [
+      field,
+      [
+        field,
+        ...LANGUAGES.flatMap((l) => [
+          translations[l].csvImport.fields[field],
+          ...(column ? [translations[l].dataTransfer.csvColumns[column]] : []),
+        ]),
+      ],
+    ];
+  }),
+) as Record<CsvImportField, string[]>;
+
+const ALIASES: CsvAliases = {
+  sides: {
+    roundTrip: LANGUAGES.map((l) => translations[l].sides.roundTrip),
+    buy: [
+      "b",
+      "买",
+      "购入",
+      ...LANGUAGES.map((l) => translations[l].sides.buy),
+    ],
+    sell: ["s", "卖", ...LANGUAGES.map((l) => translations[l].sides.sell)],
+  },
+  metals: {
+    gold: ["xau", "au", ...LANGUAGES.map((l) => translations[l].metals.gold)],
+    silver: [
+      "xag",
+      "ag",
+      ...LANGUAGES.map((l) => translations[l].metals.silver),
+    ],
+    platinum: [
+      "xpt",
+      "pt",
+      ...LANGUAGES.map((l) => translations[l].metals.platinum),
+    ],
+    palladium: [
+      "xpd",
+      "pd",
+      ...LANGUAGES.map((l) => translations[l].metals.palladium),
+    ],
+  },
+};
+
+export type CsvImportDestination = { ledgerId: string } | { name: string };
+
+export const CsvImportWizard: React.FC<{
+  isOpen: boolean;
+  lang: Language;
+  ledgers: Ledger[];
+  activeLedgerId: string;
+  fxRates: FxRates;
+  presets: CsvImportPreset[];
+  onChangePresets: (presets: CsvImportPreset[]) => void;
+  onImport: (records: TradeRecord[], destination: CsvImportDestination) => void;
+  onClose: () => void;
+}> = ({
+  isOpen,
+  lang,
+  ledgers,
+  activeLedgerId,
+  fxRates,
+  presets,
+  onChangePresets,
+  onImport,
+  onClose,
+}) => {
+  const tr = translations[lang];
+  const i18n = tr.csvImport;
+  const [file, setFile] = useState<{
+    name: string;
+    text: string;
+    encoding: string;
+  } | null>(null);
+  const [delimiter, setDelimiter] = useState(",");
+  const [dateFormat, setDateFormat] = useState<CsvDateFormat>("ymd");
+  const [decimal, setDecimal] = useState<CsvDecimalFormat>("dot");
+  const [weightUnit, setWeightUnit] = useState<WeightUnit>("g");
+  const [columns, setColumns] = useState<CsvImportPreset["columns"]>({});
+  const [presetId, setPresetId] = useState("");
+  const [presetName, setPresetName] = useState("");
+  const [targetId, setTargetId] = useState("new");
+  const [newName, setNewName] = useState("");
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setFile(null);
+    setColumns({});
+    setPresetName("");
+    setNewName("");
+    setTargetId(
+      ledgers.some((l) => l.id === activeLedgerId) ? activeLedgerId : "new",
+    );
+  }, [isOpen]);
+
+  const rows = useMemo(
+    () => (file ? parseCsv(file.text, delimiter) : []),
+    [file, delimiter],
+  );
+  const headers = rows[0] ?? [];
+  const target = ledgers.find((l) => l.id === targetId);
+
+  const results = useMemo(
+    () =>
+      buildCsvRecords(
+        rows,
+        {
+          id: "",
+          name: "",
+          dateFormat,
+          decimal,
+          weightUnit,
+          columns,
+        },
+        ALIASES,
+        {
+          records: target?.records ?? [],
+          baseCurrency: target?.baseCurrency ?? DEFAULT_CURRENCY,
+          costBasisMethod: target?.costBasisMethod ?? "fifo",
+          fxRates,
+        },
+        generateId,
+      ),
+    [rows, dateFormat, decimal, weightUnit, columns, target, fxRates],
+  );
+
+  if (!isOpen) return null;
+
+  const records = results.flatMap((r) => (r.record ? [r.record] : []));
+  const skipped = results.length - records.length;
+  const missingRequired = REQUIRED_CSV_FIELDS.some((f) => !columns[f]);
+  const canImport =
+    records.length > 0 &&
+    !missingRequired &&
+    (targetId !== "new" || !!newName.trim());
+  const currency = target?.baseCurrency ?? DEFAULT_CURRENCY;
+
+  const applyPreset = (preset: CsvImportPreset) => {
+    setDateFormat(preset.dateFormat);
+    setDecimal(preset.decimal);
+    setWeightUnit(preset.weightUnit);
+    setColumns(preset.columns);
+    setPresetName(preset.name);
+  };
+
+  const handleFile = async (picked: File) => {
+    const decoded = decodeCsv(await picked.arrayBuffer());
+    const detected = detectDelimiter(decoded.text);
+    setFile({ name: picked.name, ...decoded });
+    setDelimiter(detected);
+    const preset = presets.find((p) => p.id === presetId);
+    if (preset) applyPreset(preset);
+    else
+      setColumns(
+        guessColumns(parseCsv(decoded.text, detected)[0] ?? [], FIELD_NAMES),
+      );
+    if (!newName) setNewName(picked.name.replace(/\.[^.]+$/, ""));
+  };
+
+  const handlePreset = (id: string) => {
+    setPresetId(id);
+    const preset = presets.find((p) => p.id === id);
+    if (preset) applyPreset(preset);
+  };
+
+  // Saving under an existing name updates that preset.
+  const savePreset = () => {
+    const name = presetName.trim();
+    if (!name) return;
+    const existing = presets.find((p) => p.name === name);
+    const preset: CsvImportPreset = {
+      id: existing?.id ?? generateId(),
+      name,
+      dateFormat,
+      decimal,
+      weightUnit,
+      columns,
+    };
+    onChangePresets(
+      existing
+        ? presets.map((p) => (p.id === existing.id ? preset : p))
+        : [...presets, preset],
+    );
+    setPresetId(preset.id);
+  };
+
+  const deletePreset = () => {
+    onChangePresets(presets.filter((p) => p.id !== presetId));
+    setPresetId("");
+  };
+
+  const handleImport = () => {
+    if (!canImport) return;
+    onImport(
+      records,
+      targetId === "new" ? { name: newName.trim() } : { ledgerId: targetId },
+    );
+  };
+
+  const inputClass =
+    "bg-[var(--input-bg)] border border-[var(--border-2)] rounded-xl px-3 py-2 text-sm text-[var(--input-text)] focus:outline-none focus:ring-2 focus:ring-[var(--accent)] placeholder:text-[var(--placeholder)]";
+  const labelClass =
+    "text-[var(--muted)] text-[10px] font-bold uppercase tracking-widest";
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm"
+      onMouseDown={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+    >
+      <div className="bg-[var(--panel)] border border-[var(--border)] rounded-2xl w-full max-w-4xl shadow-2xl p-6 max-h-[90vh] overflow-auto">
+        <div className="flex items-start justify-between gap-6">
+          <div className="min-w-0">
+            <h3 className="text-xl font-bold text-[var(--text)]">
+              {i18n.title}
+            </h3>
+            <p className="text-sm text-[var(--muted)] mt-1">{i18n.subtitle}</p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-[var(--muted-2)] hover:text-[var(--text)]"
+            aria-label={i18n.close}
+          >
+            <svg
+              xmlns="http://www.w3.org/2000/svg"
+              className="h-5 w-5"
+              viewBox="0 0 20 20"
+              fill="currentColor"
+            >
+              <path
+                fillRule="evenodd"
+                d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z"
+                clipRule="evenodd"
+              />
+            </svg>
+          </button>
+        </div>
+
+        <div className="mt-6 flex flex-wrap items-center gap-3">
+          <label className="px-4 py-2 rounded-xl bg-[var(--accent)] text-slate-900 text-xs font-bold hover:bg-[var(--success)] transition-colors cursor-pointer">
+            {i18n.chooseFile}
+            <input
+              type="file"
+              accept=".csv,.txt,text/csv,text/plain"
+              className="hidden"
+              onChange={(e) => {
+                const picked = e.target.files?.[0];
+                if (picked) void handleFile(picked);
+                e.target.value = "";
+              }}
+            />
+          </label>
+          {file && (
+            <span className="text-xs text-[var(--muted)] truncate">
+              {file.name} ·{" "}
+              {i18n.detected
+                .replace("{encoding}", file.encoding)
+                .replace("{rows}", String(Math.max(rows.length - 1, 0)))}
+            </span>
+          )}
+          <div className="flex items-center gap-2 ml-auto">
+            <select
+              value={presetId}
+              onChange={(e) => handlePreset(e.target.value)}
+              aria-label={i18n.presets}
+              className={inputClass}
+            >
+              <option value="">
+                {i18n.presets}: {i18n.presetNone}
+              </option>
+              {presets.map((p) => (
+                <option key={p.id} value={p.id}>
+                  {p.name}
+                </option>
+              ))}
+            </select>
+            {presetId && (
+              <button
+                type="button"
+                onClick={deletePreset}
+                className="text-[10px] font-bold text-[var(--muted)] hover:text-[var(--danger)] transition-colors"
+              >
+                {i18n.deletePreset}
+              </button>
+            )}
+          </div>
+        </div>
+
+        {file && (
+          <>
+            <div className="mt-6 grid grid-cols-2 md:grid-cols-4 gap-3">
+              <label className="flex flex-col gap-1">
+                <span className={labelClass}>{i18n.delimiter}</span>
+                <select
+                  value={delimiter}
+                  onChange={(e) => setDelimiter(e.target.value)}
+                  className={inputClass}
+                >
+                  {DELIMITERS.map((d) => (
+                    <option key={d.key} value={d.value}>
+                      {i18n.delimiters[d.key]}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex flex-col gap-1">
+                <span className={labelClass}>{i18n.dateFormat}</span>
+                <select
+                  value={dateFormat}
+                  onChange={(e) =>
+                    setDateFormat(e.target.value as CsvDateFormat)
+                  }
+                  className={inputClass}
+                >
+                  {CSV_DATE_FORMATS.map((f) => (
+                    <option key={f} value={f}>
+                      {i18n.dateFormats[f]}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex flex-col gap-1">
+                <span className={labelClass}>{i18n.decimal}</span>
+                <select
+                  value={decimal}
+                  onChange={(e) =>
+                    setDecimal(e.target.value as CsvDecimalFormat)
+                  }
+                  className={inputClass}
+                >
+                  {CSV_DECIMAL_FORMATS.map((f) => (
+                    <option key={f} value={f}>
+                      {i18n.decimals[f]}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex flex-col gap-1">
+                <span className={labelClass}>{i18n.weightUnit}</span>
+                <select
+                  value={weightUnit}
+                  onChange={(e) => setWeightUnit(e.target.value as WeightUnit)}
+                  className={inputClass}
+                >
+                  {WEIGHT_UNITS.map((u) => (
+                    <option key={u} value={u}>
+                      {tr.units[u]}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+
+            <p className={`mt-6 ${labelClass}`}>{i18n.mapping}</p>
+            <div className="mt-2 grid grid-cols-2 md:grid-cols-4 gap-3">
+              {CSV_IMPORT_FIELDS.map((field) => (
+                <label key={field} className="flex flex-col gap-1">
+                  <span className="text-xs text-[var(--muted)]">
+                    {i18n.fields[field]}
+                    {REQUIRED_CSV_FIELDS.includes(field) && (
+                      <span className="text-[var(--danger)]">
+                        {" "}
+                        · {i18n.required}
+                      </span>
+                    )}
+                  </span>
+                  <select
+                    value={columns[field] ?? ""}
+                    onChange={(e) => {
+                      const { [field]: _, ...rest } = columns;
+                      setColumns(
+                        e.target.value
+                          ? { ...rest, [field]: e.target.value }
+                          : rest,
+                      );
+                    }}
+                    className={inputClass}
+                  >
+                    <option value="">{i18n.unmapped}</option>
+                    {headers.map((h, i) => (
+                      <option key={`${h}-${i}`} value={h}>
+                        {h}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+            </div>
+            <p className="mt-2 text-[10px] text-[var(--muted-2)]">
+              {i18n.mappingHint}
+            </p>
+
+            <div className="mt-4 flex flex-wrap items-center gap-2">
+              <input
+                type="text"
+                value={presetName}
+                onChange={(e) => setPresetName(e.target.value)}
+                placeholder={i18n.presetName}
+                aria-label={i18n.presetName}
+                className={inputClass}
+              />
+              <button
+                type="button"
+                disabled={!presetName.trim()}
+                onClick={savePreset}
+                className="px-3 py-2 rounded-xl border border-[var(--border-2)] text-xs font-bold text-[var(--muted)] hover:text-[var(--accent)] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {i18n.savePreset}
+              </button>
+            </div>
+
+            <p className={`mt-6 ${labelClass}`}>{i18n.preview}</p>
+            <div className="mt-2 rounded-2xl border border-[var(--border)] bg-[var(--panel-2)] overflow-auto">
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-left text-[var(--muted-2)]">
+                    <th className="px-3 py-2">{i18n.line}</th>
+                    <th className="px-3 py-2">{i18n.fields.date}</th>
+                    <th className="px-3 py-2">{i18n.fields.side}</th>
+                    <th className="px-3 py-2">{i18n.fields.metal}</th>
+                    <th className="px-3 py-2">{i18n.fields.grams}</th>
+                    <th className="px-3 py-2">{i18n.fields.actualProfit}</th>
+                    <th className="px-3 py-2">{i18n.fields.profitMargin}</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-[var(--border)]">
+                  {results
+                    .slice(0, PREVIEW_ROWS)
+                    .map(({ line, record, error }) => (
+                      <tr key={line} className="text-[var(--text)]">
+                        <td className="px-3 py-2 text-[var(--muted-2)]">
+                          {line}
+                        </td>
+                        {record ? (
+                          <>
+                            <td className="px-3 py-2 whitespace-nowrap">
+                              {new Date(record.timestamp).toLocaleString(
+                                lang === "zh" ? "zh-CN" : "en-US",
+                              )}
+                            </td>
+                            <td className="px-3 py-2">
+                              {tr.sides[record.side]}
+                            </td>
+                            <td className="px-3 py-2">
+                              {tr.metals[record.metal]}
+                            </td>
+                            <td className="px-3 py-2 font-mono">
+                              {formatWeight(
+                                record.grams,
+                                weightUnit,
+                                tr.unitSuffix[weightUnit],
+                              )}
+                            </td>
+                            <td className="px-3 py-2 font-mono">
+                              {record.side === "buy"
+                                ? "—"
+                                : formatMoney(
+                                    record.actualProfit,
+                                    record.currency ?? currency,
+                                    lang,
+                                  )}
+                            </td>
+                            <td className="px-3 py-2 font-mono">
+                              {record.side === "buy"
+                                ? "—"
+                                : `${record.profitMargin.toFixed(2)}%`}
+                            </td>
+                          </>
+                        ) : (
+                          <td
+                            colSpan={6}
+                            className="px-3 py-2 text-[var(--danger)]"
+                          >
+                            {error ? i18n.errors[error] : ""}
+                          </td>
+                        )}
+                      </tr>
+                    ))}
+                </tbody>
+              </table>
+            </div>
+            <p className="mt-2 text-xs text-[var(--muted)]">
+              {i18n.summary
+                .replace("{ok}", String(records.length))
+                .replace("{skipped}", String(skipped))}
+            </p>
+
+            <div className="mt-6 flex flex-wrap items-end gap-3">
+              <label className="flex flex-col gap-1">
+                <span className={labelClass}>{i18n.target}</span>
+                <select
+                  value={targetId}
+                  onChange={(e) => setTargetId(e.target.value)}
+                  className={inputClass}
+                >
+                  <option value="new">{i18n.newLedger}</option>
+                  {ledgers.map((l) => (
+                    <option key={l.id} value={l.id}>
+                      {l.name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              {targetId === "new" && (
+                <input
+                  type="text"
+                  value={newName}
+                  onChange={(e) => setNewName(e.target.value)}
+                  placeholder={i18n.newLedgerName}
+                  aria-label={i18n.newLedgerName}
+                  className={inputClass}
+                />
+              )}
+              <button
+                type="button"
+                disabled={!canImport}
+                onClick={handleImport}
+                className="ml-auto px-4 py-2 rounded-xl bg-[var(--accent)] text-slate-900 text-xs font-bold hover:bg-[var(--success)] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {i18n.import.replace("{count}", String(records.length))}
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,5 +1,15 @@
 import React, { useEffect, useMemo, useRef, useState } from "react";
 import { Ledger } from "../types";
+import { ImportIssue, ImportIssueReason, ImportReport } from "../utils/dataTransfer";
+import { CSV_COLUMNS, CsvColumn } from "../utils/csv";
+import {
+  ConflictChoice,
+  canKeepBoth,
+  defaultChoice,
+  ImportDiff,
+  ImportMode,
+  RecordConflict,
+} from "../utils/merge";
 
 export type ImportAllMode = "merge" | "replace";
 export type ImportLedgerMode = "asNew" | "replace";
@@ -10,10 +20,13 @@ export type DataTransferI18n = {
   allTitle: string;
   ledgerTitle: string;
   exportAll: string;
+  exportAllXlsx: string;
+  exportEncrypted: string;
   chooseFile: string;
   importMerge: string;
   importReplace: string;
   exportLedger: string;
+  exportLedgerXlsx: string;
   importLedgerAsNew: string;
   importLedgerReplace: string;
   selectLedger: string;
@@ -21,6 +34,44 @@ export type DataTransferI18n = {
   fileSelected: (name: string) => string;
   tipReplaceAll: string;
   tipReplaceLedger: string;
+  reviewTitle: string;
+  reviewSummary: string;
+  accepted: string;
+  acceptedLedger: string;
+  repaired: string;
+  skipped: string;
+  reasons: Record<ImportIssueReason, string>;
+  importValid: string;
+  back: string;
+  diffTitle: string;
+  diffSummary: string;
+  conflicts: string;
+  conflictLabel: string;
+  keepMine: string;
+  takeTheirs: string;
+  keepBoth: string;
+  allMine: string;
+  allTheirs: string;
+  willRemoveLedgers: string;
+  willRemoveRecords: string;
+  csvTitle: string;
+  csvScope: string;
+  csvAllLedgers: string;
+  csvColumnsLabel: string;
+  exportCsv: string;
+  csvHint: string;
+  importCsv: string;
+  importBankStatement: string;
+  snapshots: string;
+  csvColumns: Record<CsvColumn, string>;
+};
+
+// `diff` is only present for imports that touch existing ledgers.
+export type ImportReview = {
+  fileName: string;
+  report: ImportReport;
+  mode?: ImportMode;
+  diff?: ImportDiff;
 };
 
 const ledgerOptions = (ledgers: Ledger[]) =>
@@ -31,21 +82,41 @@ export const DataTransferModal: React.FC<{
   i18n: DataTransferI18n;
   ledgers: Ledger[];
   activeLedgerId: string;
+  review: ImportReview | null;
+  onConfirmReview: (choices: Record<string, ConflictChoice>) => void;
+  onCancelReview: () => void;
   onClose: () => void;
   onExportAll: () => void;
+  onExportEncrypted: () => void;
+  // `scope` is a ledger id, or "all" for every ledger.
+  onExportXlsx: (scope: string) => void;
   onImportAll: (file: File, mode: ImportAllMode) => void;
   onExportLedger: (ledgerId: string) => void;
   onImportLedger: (file: File, mode: ImportLedgerMode, targetLedgerId: string) => void;
+  // `scope` is a ledger id, or "all" for every ledger combined.
+  onExportCsv: (scope: string, columns: CsvColumn[]) => void;
+  onImportCsv: () => void;
+  onImportBankStatement: () => void;
+  onOpenSnapshots: () => void;
 }> = ({
   isOpen,
   i18n,
   ledgers,
   activeLedgerId,
+  review,
+  onConfirmReview,
+  onCancelReview,
   onClose,
   onExportAll,
+  onExportEncrypted,
+  onExportXlsx,
   onImportAll,
   onExportLedger,
   onImportLedger,
+  onExportCsv,
+  onImportCsv,
+  onImportBankStatement,
+  onOpenSnapshots,
 }) => {
   const allFileRef = useRef<HTMLInputElement | null>(null);
   const ledgerFileRef = useRef<HTMLInputElement | null>(null);
@@ -60,13 +131,16 @@ export const DataTransferModal: React.FC<{
   }, [activeLedgerId, selectableLedgers]);
 
   const [selectedLedgerId, setSelectedLedgerId] = useState(initialLedgerId);
+  const [csvScope, setCsvScope] = useState("all");
+  const [csvColumns, setCsvColumns] = useState<CsvColumn[]>(CSV_COLUMNS);
 
   useEffect(() => {
     if (!isOpen) return;
     setPendingAllFile(null);
     setPendingLedgerFile(null);
     setSelectedLedgerId(initialLedgerId);
-  }, [isOpen, initialLedgerId]);
+    setCsvScope(activeLedgerId === "master" ? "all" : activeLedgerId || "all");
+  }, [isOpen, initialLedgerId, activeLedgerId]);
 
   if (!isOpen) return null;
 
@@ -77,7 +151,7 @@ export const DataTransferModal: React.FC<{
         if (e.target === e.currentTarget) onClose();
       }}
     >
-      <div className="bg-[var(--panel)] border border-[var(--border)] rounded-2xl w-full max-w-2xl shadow-2xl p-6">
+      <div className="bg-[var(--panel)] border border-[var(--border)] rounded-2xl w-full max-w-2xl shadow-2xl p-6 max-h-[90vh] overflow-auto">
         <div className="flex items-start justify-between gap-6">
           <div className="min-w-0">
             <h3 className="text-xl font-bold text-[var(--text)]">{i18n.title}</h3>
@@ -104,154 +178,515 @@ export const DataTransferModal: React.FC<{
           </button>
         </div>
 
-        <div className="mt-6 grid grid-cols-1 md:grid-cols-2 gap-4">
-          <div className="rounded-2xl border border-[var(--border)] bg-[var(--panel-2)] p-5">
-            <div className="text-[10px] font-black uppercase tracking-widest text-[var(--muted-2)]">
-              {i18n.allTitle}
+        {review ? (
+          <ImportReviewPanel
+            i18n={i18n}
+            review={review}
+            onConfirm={onConfirmReview}
+            onCancel={onCancelReview}
+          />
+        ) : (
+          <div className="mt-6 grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="rounded-2xl border border-[var(--border)] bg-[var(--panel-2)] p-5">
+              <div className="text-[10px] font-black uppercase tracking-widest text-[var(--muted-2)]">
+                {i18n.allTitle}
+              </div>
+              <div className="mt-4 flex flex-col gap-3">
+                <button
+                  type="button"
+                  onClick={onExportAll}
+                  className="w-full bg-[var(--panel)] border border-[var(--border)] px-4 py-3 rounded-xl text-xs font-bold uppercase tracking-widest text-[var(--muted)] hover:text-[var(--accent)] transition-colors"
+                >
+                  {i18n.exportAll}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onExportXlsx("all")}
+                  className="w-full bg-[var(--panel)] border border-[var(--border)] px-4 py-3 rounded-xl text-xs font-bold uppercase tracking-widest text-[var(--muted)] hover:text-[var(--accent)] transition-colors"
+                >
+                  {i18n.exportAllXlsx}
+                </button>
+                <button
+                  type="button"
+                  onClick={onExportEncrypted}
+                  className="w-full bg-[var(--panel)] border border-[var(--border)] px-4 py-3 rounded-xl text-xs font-bold uppercase tracking-widest text-[var(--muted)] hover:text-[var(--accent)] transition-colors"
+                >
+                  {i18n.exportEncrypted}
+                </button>
+
+                <input
+                  ref={allFileRef}
+                  type="file"
+                  accept="application/json,.json"
+                  className="hidden"
+                  onChange={(e) => {
+                    const f = e.target.files?.[0] || null;
+                    setPendingAllFile(f);
+                    e.target.value = "";
+                  }}
+                />
+                <button
+                  type="button"
+                  onClick={() => allFileRef.current?.click()}
+                  className="w-full bg-[var(--panel)] border border-[var(--border)] px-4 py-3 rounded-xl text-xs font-bold uppercase tracking-widest text-[var(--muted)] hover:text-[var(--accent)] transition-colors"
+                >
+                  {i18n.chooseFile}
+                </button>
+                {pendingAllFile && (
+                  <div className="text-xs text-[var(--muted)]">
+                    {i18n.fileSelected(pendingAllFile.name)}
+                  </div>
+                )}
+                <div className="flex gap-2">
+                  <button
+                    type="button"
+                    disabled={!pendingAllFile}
+                    onClick={() => pendingAllFile && onImportAll(pendingAllFile, "merge")}
+                    className="flex-1 bg-[var(--panel)] border border-[var(--border)] px-4 py-2 rounded-xl text-xs font-bold uppercase tracking-widest text-[var(--muted)] hover:text-[var(--accent)] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {i18n.importMerge}
+                  </button>
+                  <button
+                    type="button"
+                    disabled={!pendingAllFile}
+                    onClick={() =>
+                      pendingAllFile && onImportAll(pendingAllFile, "replace")
+                    }
+                    className="flex-1 bg-[var(--panel)] border border-[var(--border)] px-4 py-2 rounded-xl text-xs font-bold uppercase tracking-widest text-[var(--muted)] hover:text-[var(--danger)] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {i18n.importReplace}
+                  </button>
+                </div>
+                <div className="text-[11px] text-[var(--muted-2)] leading-relaxed">
+                  {i18n.tipReplaceAll}
+                </div>
+                <button
+                  type="button"
+                  onClick={onOpenSnapshots}
+                  className="w-full bg-[var(--panel)] border border-[var(--border)] px-4 py-3 rounded-xl text-xs font-bold uppercase tracking-widest text-[var(--muted)] hover:text-[var(--accent)] transition-colors"
+                >
+                  {i18n.snapshots}
+                </button>
+              </div>
             </div>
-            <div className="mt-4 flex flex-col gap-3">
-              <button
-                type="button"
-                onClick={onExportAll}
-                className="w-full bg-[var(--panel)] border border-[var(--border)] px-4 py-3 rounded-xl text-xs font-bold uppercase tracking-widest text-[var(--muted)] hover:text-[var(--accent)] transition-colors"
-              >
-                {i18n.exportAll}
-              </button>
 
-              <input
-                ref={allFileRef}
-                type="file"
-                accept="application/json,.json"
-                className="hidden"
-                onChange={(e) => {
-                  const f = e.target.files?.[0] || null;
-                  setPendingAllFile(f);
-                  e.target.value = "";
-                }}
-              />
-              <button
-                type="button"
-                onClick={() => allFileRef.current?.click()}
-                className="w-full bg-[var(--panel)] border border-[var(--border)] px-4 py-3 rounded-xl text-xs font-bold uppercase tracking-widest text-[var(--muted)] hover:text-[var(--accent)] transition-colors"
-              >
-                {i18n.chooseFile}
-              </button>
-              {pendingAllFile && (
-                <div className="text-xs text-[var(--muted)]">
-                  {i18n.fileSelected(pendingAllFile.name)}
+            <div className="rounded-2xl border border-[var(--border)] bg-[var(--panel-2)] p-5">
+              <div className="text-[10px] font-black uppercase tracking-widest text-[var(--muted-2)]">
+                {i18n.ledgerTitle}
+              </div>
+              <div className="mt-4 flex flex-col gap-3">
+                <div className="flex items-center gap-2">
+                  <div className="text-xs font-semibold text-[var(--muted)]">
+                    {i18n.selectLedger}
+                  </div>
+                  <select
+                    value={selectedLedgerId}
+                    onChange={(e) => setSelectedLedgerId(e.target.value)}
+                    className="flex-1 bg-[var(--panel)] border border-[var(--border)] rounded-xl px-3 py-2 text-xs text-[var(--text)] focus:outline-none focus:ring-2 focus:ring-[var(--accent)]"
+                  >
+                    {selectableLedgers.map((l) => (
+                      <option key={l.id} value={l.id}>
+                        {l.name}
+                      </option>
+                    ))}
+                  </select>
                 </div>
-              )}
-              <div className="flex gap-2">
+
                 <button
                   type="button"
-                  disabled={!pendingAllFile}
-                  onClick={() => pendingAllFile && onImportAll(pendingAllFile, "merge")}
-                  className="flex-1 bg-[var(--panel)] border border-[var(--border)] px-4 py-2 rounded-xl text-xs font-bold uppercase tracking-widest text-[var(--muted)] hover:text-[var(--accent)] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  disabled={!selectedLedgerId}
+                  onClick={() => selectedLedgerId && onExportLedger(selectedLedgerId)}
+                  className="w-full bg-[var(--panel)] border border-[var(--border)] px-4 py-3 rounded-xl text-xs font-bold uppercase tracking-widest text-[var(--muted)] hover:text-[var(--accent)] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                 >
-                  {i18n.importMerge}
+                  {i18n.exportLedger}
                 </button>
                 <button
                   type="button"
-                  disabled={!pendingAllFile}
-                  onClick={() =>
-                    pendingAllFile && onImportAll(pendingAllFile, "replace")
-                  }
-                  className="flex-1 bg-[var(--panel)] border border-[var(--border)] px-4 py-2 rounded-xl text-xs font-bold uppercase tracking-widest text-[var(--muted)] hover:text-[var(--danger)] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  disabled={!selectedLedgerId}
+                  onClick={() => selectedLedgerId && onExportXlsx(selectedLedgerId)}
+                  className="w-full bg-[var(--panel)] border border-[var(--border)] px-4 py-3 rounded-xl text-xs font-bold uppercase tracking-widest text-[var(--muted)] hover:text-[var(--accent)] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                 >
-                  {i18n.importReplace}
+                  {i18n.exportLedgerXlsx}
                 </button>
-              </div>
-              <div className="text-[11px] text-[var(--muted-2)] leading-relaxed">
-                {i18n.tipReplaceAll}
+
+                <input
+                  ref={ledgerFileRef}
+                  type="file"
+                  accept="application/json,.json"
+                  className="hidden"
+                  onChange={(e) => {
+                    const f = e.target.files?.[0] || null;
+                    setPendingLedgerFile(f);
+                    e.target.value = "";
+                  }}
+                />
+                <button
+                  type="button"
+                  onClick={() => ledgerFileRef.current?.click()}
+                  className="w-full bg-[var(--panel)] border border-[var(--border)] px-4 py-3 rounded-xl text-xs font-bold uppercase tracking-widest text-[var(--muted)] hover:text-[var(--accent)] transition-colors"
+                >
+                  {i18n.chooseFile}
+                </button>
+                {pendingLedgerFile && (
+                  <div className="text-xs text-[var(--muted)]">
+                    {i18n.fileSelected(pendingLedgerFile.name)}
+                  </div>
+                )}
+                <div className="flex gap-2">
+                  <button
+                    type="button"
+                    disabled={!pendingLedgerFile}
+                    onClick={() =>
+                      pendingLedgerFile &&
+                      onImportLedger(pendingLedgerFile, "asNew", selectedLedgerId)
+                    }
+                    className="flex-1 bg-[var(--panel)] border border-[var(--border)] px-4 py-2 rounded-xl text-xs font-bold uppercase tracking-widest text-[var(--muted)] hover:text-[var(--accent)] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {i18n.importLedgerAsNew}
+                  </button>
+                  <button
+                    type="button"
+                    disabled={!pendingLedgerFile || !selectedLedgerId}
+                    onClick={() =>
+                      pendingLedgerFile &&
+                      selectedLedgerId &&
+                      onImportLedger(pendingLedgerFile, "replace", selectedLedgerId)
+                    }
+                    className="flex-1 bg-[var(--panel)] border border-[var(--border)] px-4 py-2 rounded-xl text-xs font-bold uppercase tracking-widest text-[var(--muted)] hover:text-[var(--danger)] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {i18n.importLedgerReplace}
+                  </button>
+                </div>
+                <div className="text-[11px] text-[var(--muted-2)] leading-relaxed">
+                  {i18n.tipReplaceLedger}
+                </div>
               </div>
             </div>
           </div>
+        )}
 
-          <div className="rounded-2xl border border-[var(--border)] bg-[var(--panel-2)] p-5">
+        {!review && (
+          <div className="mt-4 rounded-2xl border border-[var(--border)] bg-[var(--panel-2)] p-5">
             <div className="text-[10px] font-black uppercase tracking-widest text-[var(--muted-2)]">
-              {i18n.ledgerTitle}
+              {i18n.csvTitle}
             </div>
-            <div className="mt-4 flex flex-col gap-3">
-              <div className="flex items-center gap-2">
-                <div className="text-xs font-semibold text-[var(--muted)]">
-                  {i18n.selectLedger}
-                </div>
-                <select
-                  value={selectedLedgerId}
-                  onChange={(e) => setSelectedLedgerId(e.target.value)}
-                  className="flex-1 bg-[var(--panel)] border border-[var(--border)] rounded-xl px-3 py-2 text-xs text-[var(--text)] focus:outline-none focus:ring-2 focus:ring-[var(--accent)]"
+            <div className="mt-4 flex items-center gap-2">
+              <div className="text-xs font-semibold text-[var(--muted)]">
+                {i18n.csvScope}
+              </div>
+              <select
+                value={csvScope}
+                onChange={(e) => setCsvScope(e.target.value)}
+                className="flex-1 bg-[var(--panel)] border border-[var(--border)] rounded-xl px-3 py-2 text-xs text-[var(--text)] focus:outline-none focus:ring-2 focus:ring-[var(--accent)]"
+              >
+                <option value="all">{i18n.csvAllLedgers}</option>
+                {selectableLedgers.map((l) => (
+                  <option key={l.id} value={l.id}>
+                    {l.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="mt-3 text-xs font-semibold text-[var(--muted)]">
+              {i18n.csvColumnsLabel}
+            </div>
+            <div className="mt-2 flex flex-wrap gap-x-4 gap-y-2">
+              {CSV_COLUMNS.map((c) => (
+                <label
+                  key={c}
+                  className="flex items-center gap-1.5 text-xs text-[var(--text)] cursor-pointer"
                 >
-                  {selectableLedgers.map((l) => (
-                    <option key={l.id} value={l.id}>
-                      {l.name}
-                    </option>
-                  ))}
-                </select>
+                  <input
+                    type="checkbox"
+                    checked={csvColumns.includes(c)}
+                    onChange={(e) =>
+                      setCsvColumns(
+                        CSV_COLUMNS.filter((x) =>
+                          x === c ? e.target.checked : csvColumns.includes(x),
+                        ),
+                      )
+                    }
+                    className="accent-[var(--accent)]"
+                  />
+                  {i18n.csvColumns[c]}
+                </label>
+              ))}
+            </div>
+            <div className="mt-4 flex items-center justify-between gap-3">
+              <div className="text-[11px] text-[var(--muted-2)] leading-relaxed">
+                {i18n.csvHint}
               </div>
-
               <button
                 type="button"
-                disabled={!selectedLedgerId}
-                onClick={() => selectedLedgerId && onExportLedger(selectedLedgerId)}
-                className="w-full bg-[var(--panel)] border border-[var(--border)] px-4 py-3 rounded-xl text-xs font-bold uppercase tracking-widest text-[var(--muted)] hover:text-[var(--accent)] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                onClick={onImportCsv}
+                className="flex-shrink-0 bg-[var(--panel)] border border-[var(--border)] px-4 py-2 rounded-xl text-xs font-bold uppercase tracking-widest text-[var(--muted)] hover:text-[var(--accent)] transition-colors"
               >
-                {i18n.exportLedger}
+                {i18n.importCsv}
               </button>
-
-              <input
-                ref={ledgerFileRef}
-                type="file"
-                accept="application/json,.json"
-                className="hidden"
-                onChange={(e) => {
-                  const f = e.target.files?.[0] || null;
-                  setPendingLedgerFile(f);
-                  e.target.value = "";
-                }}
-              />
               <button
                 type="button"
-                onClick={() => ledgerFileRef.current?.click()}
-                className="w-full bg-[var(--panel)] border border-[var(--border)] px-4 py-3 rounded-xl text-xs font-bold uppercase tracking-widest text-[var(--muted)] hover:text-[var(--accent)] transition-colors"
+                onClick={onImportBankStatement}
+                className="flex-shrink-0 bg-[var(--panel)] border border-[var(--border)] px-4 py-2 rounded-xl text-xs font-bold uppercase tracking-widest text-[var(--muted)] hover:text-[var(--accent)] transition-colors"
               >
-                {i18n.chooseFile}
+                {i18n.importBankStatement}
+              </button>
+              <button
+                type="button"
+                disabled={csvColumns.length === 0}
+                onClick={() => onExportCsv(csvScope, csvColumns)}
+                className="flex-shrink-0 bg-[var(--panel)] border border-[var(--border)] px-4 py-2 rounded-xl text-xs font-bold uppercase tracking-widest text-[var(--muted)] hover:text-[var(--accent)] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {i18n.exportCsv}
               </button>
-              {pendingLedgerFile && (
-                <div className="text-xs text-[var(--muted)]">
-                  {i18n.fileSelected(pendingLedgerFile.name)}
-                </div>
-              )}
-              <div className="flex gap-2">
-                <button
-                  type="button"
-                  disabled={!pendingLedgerFile}
-                  onClick={() =>
-                    pendingLedgerFile &&
-                    onImportLedger(pendingLedgerFile, "asNew", selectedLedgerId)
-                  }
-                  className="flex-1 bg-[var(--panel)] border border-[var(--border)] px-4 py-2 rounded-xl text-xs font-bold uppercase tracking-widest text-[var(--muted)] hover:text-[var(--accent)] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-                >
-                  {i18n.importLedgerAsNew}
-                </button>
-                <button
-                  type="button"
-                  disabled={!pendingLedgerFile || !selectedLedgerId}
-                  onClick={() =>
-                    pendingLedgerFile &&
-                    selectedLedgerId &&
-                    onImportLedger(pendingLedgerFile, "replace", selectedLedgerId)
-                  }
-                  className="flex-1 bg-[var(--panel)] border border-[var(--border)] px-4 py-2 rounded-xl text-xs font-bold uppercase tracking-widest text-[var(--muted)] hover:text-[var(--danger)] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-                >
-                  {i18n.importLedgerReplace}
-                </button>
-              </div>
-              <div className="text-[11px] text-[var(--muted-2)] leading-relaxed">
-                {i18n.tipReplaceLedger}
-              </div>
             </div>
           </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const IssueList: React.FC<{
+  title: string;
+  issues: ImportIssue[];
+  reasons: Record<ImportIssueReason, string>;
+  tone: string;
+}> = ({ title, issues, reasons, tone }) => {
+  if (issues.length === 0) return null;
+  return (
+    <div>
+      <div className={`text-[10px] font-black uppercase tracking-widest ${tone}`}>
+        {title} ({issues.length})
+      </div>
+      <ul className="mt-2 rounded-xl border border-[var(--border)] bg-[var(--panel)] divide-y divide-[var(--border)] max-h-[25vh] overflow-auto">
+        {issues.map((issue, i) => (
+          <li key={`${issue.path}-${i}`} className="px-3 py-2 text-xs">
+            <div className="font-mono text-[var(--muted-2)] break-all">{issue.path}</div>
+            <div className="text-[var(--text)]">
+              {reasons[issue.reason].replace("{detail}", issue.detail ?? "")}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+const formatValue = (value: unknown) => {
+  if (value === undefined) return "—";
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  return text.length > 40 ? `${text.slice(0, 39)}…` : text;
+};
+
+const ConflictRow: React.FC<{
+  i18n: DataTransferI18n;
+  conflict: RecordConflict;
+  choice: ConflictChoice;
+  onChoose: (choice: ConflictChoice) => void;
+}> = ({ i18n, conflict, choice, onChoose }) => {
+  const mine: Record<string, unknown> = { ...conflict.mine };
+  const theirs: Record<string, unknown> = { ...conflict.theirs };
+  const options: [ConflictChoice, string][] = [
+    ["mine", i18n.keepMine],
+    ["theirs", i18n.takeTheirs],
+    ...(canKeepBoth(conflict.mine, conflict.theirs)
+      ? [["both", i18n.keepBoth] as [ConflictChoice, string]]
+      : []),
+  ];
+  return (
+    <li className="px-3 py-2 text-xs space-y-1">
+      <div className="font-bold text-[var(--text)]">
+        {i18n.conflictLabel
+          .replace("{ledger}", conflict.ledgerName)
+          .replace("{date}", new Date(conflict.mine.timestamp).toLocaleString())}
+      </div>
+      {conflict.fields.map((field) => (
+        <div key={field} className="font-mono text-[var(--muted)] break-all">
+          {field}: {formatValue(mine[field])} → {formatValue(theirs[field])}
         </div>
+      ))}
+      <div className="flex gap-1 pt-1">
+        {options.map(([value, label]) => (
+          <button
+            key={value}
+            type="button"
+            onClick={() => onChoose(value)}
+            className={`px-2 py-1 rounded-lg border text-[10px] font-bold transition-colors ${
+              choice === value
+                ? "border-[var(--accent)] bg-[var(--accent)]/10 text-[var(--accent)]"
+                : "border-[var(--border)] text-[var(--muted)] hover:text-[var(--text)]"
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+    </li>
+  );
+};
+
+const DiffSection: React.FC<{
+  i18n: DataTransferI18n;
+  diff: ImportDiff;
+  mode: ImportMode;
+  choices: Record<string, ConflictChoice>;
+  onChoose: (key: string, choice: ConflictChoice) => void;
+  onChooseAll: (choice: ConflictChoice) => void;
+}> = ({ i18n, diff, mode, choices, onChoose, onChooseAll }) => (
+  <div className="space-y-3">
+    <div>
+      <div className="text-[10px] font-black uppercase tracking-widest text-[var(--muted-2)]">
+        {i18n.diffTitle}
+      </div>
+      <div className="mt-1 text-xs text-[var(--text)]">
+        {i18n.diffSummary
+          .replace("{ledgers}", String(diff.newLedgers.length))
+          .replace("{records}", String(diff.newRecords.length))
+          .replace("{unchanged}", String(diff.unchanged))}
+      </div>
+    </div>
+    {mode === "replace" && diff.missingLedgers.length > 0 && (
+      <div className="text-xs text-[var(--danger)]">
+        {i18n.willRemoveLedgers
+          .replace("{count}", String(diff.missingLedgers.length))
+          .replace("{names}", diff.missingLedgers.map((l) => l.name).join(", "))}
+      </div>
+    )}
+    {mode === "replace" && diff.missingRecords.length > 0 && (
+      <div className="text-xs text-[var(--danger)]">
+        {i18n.willRemoveRecords.replace(
+          "{count}",
+          String(diff.missingRecords.length),
+        )}
+      </div>
+    )}
+    {diff.conflicts.length > 0 && (
+      <div>
+        <div className="flex items-center justify-between gap-2">
+          <div className="text-[10px] font-black uppercase tracking-widest text-[var(--accent)]">
+            {i18n.conflicts} ({diff.conflicts.length})
+          </div>
+          <div className="flex gap-2 text-[10px] font-bold">
+            <button
+              type="button"
+              onClick={() => onChooseAll("mine")}
+              className="text-[var(--muted)] hover:text-[var(--accent)] transition-colors"
+            >
+              {i18n.allMine}
+            </button>
+            <button
+              type="button"
+              onClick={() => onChooseAll("theirs")}
+              className="text-[var(--muted)] hover:text-[var(--accent)] transition-colors"
+            >
+              {i18n.allTheirs}
+            </button>
+          </div>
+        </div>
+        <ul className="mt-2 rounded-xl border border-[var(--border)] bg-[var(--panel)] divide-y divide-[var(--border)] max-h-[35vh] overflow-auto">
+          {diff.conflicts.map((c) => (
+            <ConflictRow
+              key={c.key}
+              i18n={i18n}
+              conflict={c}
+              choice={choices[c.key] ?? defaultChoice(mode)}
+              onChoose={(choice) => onChoose(c.key, choice)}
+            />
+          ))}
+        </ul>
+      </div>
+    )}
+  </div>
+);
+
+const ImportReviewPanel: React.FC<{
+  i18n: DataTransferI18n;
+  review: ImportReview;
+  onConfirm: (choices: Record<string, ConflictChoice>) => void;
+  onCancel: () => void;
+}> = ({ i18n, review, onConfirm, onCancel }) => {
+  const { report, diff, mode } = review;
+  const [choices, setChoices] = useState<Record<string, ConflictChoice>>({});
+  useEffect(() => setChoices({}), [review]);
+  const acceptedCount = report.accepted.reduce((acc, l) => acc + l.records, 0);
+  return (
+    <div className="mt-6 rounded-2xl border border-[var(--border)] bg-[var(--panel-2)] p-5 space-y-4">
+      <div>
+        <div className="text-[10px] font-black uppercase tracking-widest text-[var(--muted-2)]">
+          {i18n.reviewTitle}
+        </div>
+        <div className="mt-1 text-xs text-[var(--muted)]">
+          {i18n.fileSelected(review.fileName)}
+        </div>
+        <div className="mt-2 text-sm font-bold text-[var(--text)]">
+          {i18n.reviewSummary
+            .replace("{accepted}", String(acceptedCount))
+            .replace("{repaired}", String(report.repaired.length))
+            .replace("{skipped}", String(report.skipped.length))}
+        </div>
+      </div>
+
+      {report.accepted.length > 0 && (
+        <div>
+          <div className="text-[10px] font-black uppercase tracking-widest text-[var(--success)]">
+            {i18n.accepted}
+          </div>
+          <ul className="mt-2 text-xs text-[var(--text)] space-y-1">
+            {report.accepted.map((l, i) => (
+              <li key={`${l.name}-${i}`}>
+                {i18n.acceptedLedger
+                  .replace("{name}", l.name)
+                  .replace("{count}", String(l.records))}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      <IssueList
+        title={i18n.repaired}
+        issues={report.repaired}
+        reasons={i18n.reasons}
+        tone="text-[var(--accent)]"
+      />
+      <IssueList
+        title={i18n.skipped}
+        issues={report.skipped}
+        reasons={i18n.reasons}
+        tone="text-[var(--danger)]"
+      />
+      {diff && mode && (
+        <DiffSection
+          i18n={i18n}
+          diff={diff}
+          mode={mode}
+          choices={choices}
+          onChoose={(key, choice) =>
+            setChoices((prev) => ({ ...prev, [key]: choice }))
+          }
+          onChooseAll={(choice) =>
+            setChoices(
+              Object.fromEntries(diff.conflicts.map((c) => [c.key, choice])),
+            )
+          }
+        />
+      )}
+
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="flex-1 bg-[var(--panel)] border border-[var(--border)] px-4 py-2 rounded-xl text-xs font-bold uppercase tracking-widest text-[var(--muted)] hover:text-[var(--text)] transition-colors"
+        >
+          {i18n.back}
+        </button>
+        <button
+          type="button"
+          disabled={report.accepted.length === 0}
+          onClick={() => onConfirm(choices)}
+          className="flex-1 bg-[var(--accent)] px-4 py-2 rounded-xl text-xs font-bold uppercase tracking-widest text-slate-900 hover:bg-[var(--success)] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {i18n.importValid}
+        </button>
       </div>
     </div>
   );
@@ -0,0 +1,181 @@
+import React, { useEffect, useState } from "react";
+import { FeePreset } from "../types";
+import { generateId } from "../utils/id";
+
+export type FeePresetsI18n = {
+  title: string;
+  subtitle: string;
+  name: string;
+  feeRate: string;
+  fixedFee: string;
+  add: string;
+  remove: string;
+  empty: string;
+  close: string;
+};
+
+const emptyDraft = { name: "", feeRate: "0.004", fixedFee: "" };
+
+export const FeePresetsModal: React.FC<{
+  isOpen: boolean;
+  i18n: FeePresetsI18n;
+  presets: FeePreset[];
+  onChange: (presets: FeePreset[]) => void;
+  onClose: () => void;
+}> = ({ isOpen, i18n, presets, onChange, onClose }) => {
+  const [draft, setDraft] = useState(emptyDraft);
+
+  useEffect(() => {
+    if (isOpen) setDraft(emptyDraft);
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const feeRate = parseFloat(draft.feeRate);
+  const fixedFee = parseFloat(draft.fixedFee);
+  const canAdd =
+    !!draft.name.trim() &&
+    !isNaN(feeRate) &&
+    feeRate >= 0 &&
+    !presets.some((p) => p.name === draft.name.trim());
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canAdd) return;
+    onChange([
+      ...presets,
+      {
+        id: generateId(),
+        name: draft.name.trim(),
+        feeRate,
+        ...(fixedFee > 0 ? { fixedFee } : {}),
+      },
+    ]);
+    setDraft(emptyDraft);
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm"
+      onMouseDown={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+    >
+      <div className="bg-[var(--panel)] border border-[var(--border)] rounded-2xl w-full max-w-xl shadow-2xl p-6">
+        <div className="flex items-start justify-between gap-6">
+          <div className="min-w-0">
+            <h3 className="text-xl font-bold text-[var(--text)]">
+              {i18n.title}
+            </h3>
+            <p className="text-sm text-[var(--muted)] mt-1">{i18n.subtitle}</p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-[var(--muted-2)] hover:text-[var(--text)]"
+            aria-label={i18n.close}
+          >
+            <svg
+              xmlns="http://www.w3.org/2000/svg"
+              className="h-5 w-5"
+              viewBox="0 0 20 20"
+              fill="currentColor"
+            >
+              <path
+                fillRule="evenodd"
+                d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z"
+                clipRule="evenodd"
+              />
+            </svg>
+          </button>
+        </div>
+
+        <div className="mt-6 rounded-2xl border border-[var(--border)] bg-[var(--panel-2)] divide-y divide-[var(--border)] max-h-[40vh] overflow-auto">
+          {presets.length === 0 && (
+            <div className="px-4 py-6 text-xs text-[var(--muted-2)]">
+              {i18n.empty}
+            </div>
+          )}
+          {presets.map((p) => (
+            <div
+              key={p.id}
+              className="flex items-center justify-between gap-3 px-4 py-3"
+            >
+              <div className="min-w-0">
+                <div className="text-sm font-bold text-[var(--text)] truncate">
+                  {p.name}
+                </div>
+                <div className="text-[10px] text-[var(--muted-2)] font-mono">
+                  {(p.feeRate * 100).toFixed(2)}%
+                  {p.fixedFee ? ` + ${p.fixedFee.toFixed(2)}` : ""}
+                </div>
+              </div>
+              <button
+                type="button"
+                onClick={() => onChange(presets.filter((x) => x.id !== p.id))}
+                className="p-1 text-[var(--muted-2)] hover:text-[var(--danger)] transition-all"
+                title={i18n.remove}
+              >
+                <svg
+                  xmlns="http://www.w3.org/2000/svg"
+                  className="h-4 w-4"
+                  fill="none"
+                  viewBox="0 0 24 24"
+                  stroke="currentColor"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
+                  />
+                </svg>
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <form onSubmit={handleAdd} className="mt-4 grid grid-cols-12 gap-2">
+          <input
+            type="text"
+            value={draft.name}
+            onChange={(e) => setDraft((d) => ({ ...d, name: e.target.value }))}
+            placeholder={i18n.name}
+            className="col-span-5 bg-[var(--input-bg)] border border-[var(--border-2)] rounded-xl px-3 py-2 text-sm text-[var(--input-text)] focus:outline-none focus:ring-2 focus:ring-[var(--accent)] placeholder:text-[var(--placeholder)]"
+          />
+          <input
+            type="number"
+            min="0"
+            step="0.0001"
+            value={draft.feeRate}
+            onChange={(e) =>
+              setDraft((d) => ({ ...d, feeRate: e.target.value }))
+            }
+            placeholder={i18n.feeRate}
+            title={i18n.feeRate}
+            className="col-span-3 bg-[var(--input-bg)] border border-[var(--border-2)] rounded-xl px-3 py-2 text-sm text-[var(--input-text)] focus:outline-none focus:ring-2 focus:ring-[var(--accent)] placeholder:text-[var(--placeholder)]"
+          />
+          <input
+            type="number"
+            min="0"
+            step="0.01"
+            value={draft.fixedFee}
+            onChange={(e) =>
+              setDraft((d) => ({ ...d, fixedFee: e.target.value }))
+            }
+            placeholder={i18n.fixedFee}
+            title={i18n.fixedFee}
+            className="col-span-2 bg-[var(--input-bg)] border border-[var(--border-2)] rounded-xl px-3 py-2 text-sm text-[var(--input-text)] focus:outline-none focus:ring-2 focus:ring-[var(--accent)] placeholder:text-[var(--placeholder)]"
+          />
+          <button
+            type="submit"
+            disabled={!canAdd}
+            className="col-span-2 rounded-xl bg-[var(--accent)] text-slate-900 text-xs font-bold hover:bg-[var(--success)] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {i18n.add}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,103 @@
+import React from "react";
+import { Currency, FxRates } from "../types";
+import { CURRENCIES, DEFAULT_FX_RATES } from "../utils/currency";
+
+export type FxRatesI18n = {
+  title: string;
+  subtitle: string;
+  rate: string;
+  reset: string;
+  close: string;
+  currencies: Record<Currency, string>;
+};
+
+export const FxRatesModal: React.FC<{
+  isOpen: boolean;
+  i18n: FxRatesI18n;
+  rates: FxRates;
+  onChange: (rates: FxRates) => void;
+  onClose: () => void;
+}> = ({ isOpen, i18n, rates, onChange, onClose }) => {
+  if (!isOpen) return null;
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm"
+      onMouseDown={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+    >
+      <div className="bg-[var(--panel)] border border-[var(--border)] rounded-2xl w-full max-w-md shadow-2xl p-6">
+        <div className="flex items-start justify-between gap-6">
+          <div className="min-w-0">
+            <h3 className="text-xl font-bold text-[var(--text)]">
+              {i18n.title}
+            </h3>
+            <p className="text-sm text-[var(--muted)] mt-1">{i18n.subtitle}</p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-[var(--muted-2)] hover:text-[var(--text)]"
+            aria-label={i18n.close}
+          >
+            <svg
+              xmlns="http://www.w3.org/2000/svg"
+              className="h-5 w-5"
+              viewBox="0 0 20 20"
+              fill="currentColor"
+            >
+              <path
+                fillRule="evenodd"
+                d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z"
+                clipRule="evenodd"
+              />
+            </svg>
+          </button>
+        </div>
+
+        <div className="mt-6 rounded-2xl border border-[var(--border)] bg-[var(--panel-2)] divide-y divide-[var(--border)]">
+          {CURRENCIES.filter((c) => c !== "CNY").map((c) => (
+            <label
+              key={c}
+              className="flex items-center justify-between gap-3 px-4 py-3"
+            >
+              <div className="min-w-0">
+                <div className="text-sm font-bold text-[var(--text)] truncate">
+                  {i18n.currencies[c]}
+                </div>
+                <div className="text-[10px] text-[var(--muted-2)] font-mono">
+                  {i18n.rate.replace("{currency}", c)}
+                </div>
+              </div>
+              <input
+                type="number"
+                min="0"
+                step="0.0001"
+                defaultValue={rates[c]}
+                key={rates[c]}
+                onBlur={(e) => {
+                  const rate = parseFloat(e.target.value);
+                  if (rate > 0 && rate !== rates[c]) {
+                    onChange({ ...rates, [c]: rate });
+                  }
+                }}
+                className="w-32 bg-[var(--input-bg)] border border-[var(--border-2)] rounded-xl px-3 py-2 text-sm text-[var(--input-text)] focus:outline-none focus:ring-2 focus:ring-[var(--accent)]"
+              />
+            </label>
+          ))}
+        </div>
+
+        <div className="mt-4 flex justify-end">
+          <button
+            type="button"
+            onClick={() => onChange({ ...DEFAULT_FX_RATES })}
+            className="px-4 py-2 rounded-xl border border-[var(--border-2)] text-xs font-bold text-[var(--muted)] hover:text-[var(--accent)] transition-colors"
+          >
+            {i18n.reset}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
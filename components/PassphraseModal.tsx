@@ -0,0 +1,111 @@
+import React, { useEffect, useState } from "react";
+import { translations, Language } from "../translations";
+import { MIN_PASSPHRASE_LENGTH } from "../utils/backup";
+
+// Asks for a new passphrase (twice) before an encrypted export, or for the
+// existing one when importing an encrypted backup. Key derivation takes a
+// moment, so the parent reports `busy` and any error to show inline.
+export const PassphraseModal: React.FC<{
+  isOpen: boolean;
+  lang: Language;
+  mode: "encrypt" | "decrypt";
+  fileName?: string;
+  busy: boolean;
+  error?: string;
+  onSubmit: (passphrase: string) => void;
+  onCancel: () => void;
+}> = ({ isOpen, lang, mode, fileName, busy, error, onSubmit, onCancel }) => {
+  const i18n = translations[lang].backup;
+  const [passphrase, setPassphrase] = useState("");
+  const [confirm, setConfirm] = useState("");
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setPassphrase("");
+    setConfirm("");
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const isEncrypt = mode === "encrypt";
+  const validation = !isEncrypt
+    ? ""
+    : passphrase.length < MIN_PASSPHRASE_LENGTH
+      ? i18n.tooShort.replace("{count}", String(MIN_PASSPHRASE_LENGTH))
+      : confirm && confirm !== passphrase
+        ? i18n.mismatch
+        : "";
+  const canSubmit =
+    !busy &&
+    !!passphrase &&
+    !validation &&
+    (!isEncrypt || confirm === passphrase);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (canSubmit) onSubmit(passphrase);
+  };
+
+  const inputClass =
+    "w-full bg-[var(--input-bg)] border border-[var(--border-2)] rounded-xl px-4 py-3 text-[var(--input-text)] focus:outline-none focus:ring-2 focus:ring-[var(--accent)] placeholder:text-[var(--placeholder)]";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
+      <div className="bg-[var(--panel)] border border-[var(--border)] rounded-2xl w-full max-w-md shadow-2xl p-6">
+        <h3 className="text-xl font-bold text-[var(--text)]">
+          {isEncrypt ? i18n.encryptTitle : i18n.decryptTitle}
+        </h3>
+        <p className="mt-1 mb-4 text-sm text-[var(--muted)]">
+          {isEncrypt
+            ? i18n.encryptHint
+            : i18n.decryptHint.replace("{name}", fileName ?? "")}
+        </p>
+        <form onSubmit={handleSubmit} className="flex flex-col gap-3">
+          <input
+            type="password"
+            autoComplete={isEncrypt ? "new-password" : "current-password"}
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            placeholder={i18n.passphrase}
+            aria-label={i18n.passphrase}
+            className={inputClass}
+            autoFocus
+          />
+          {isEncrypt && (
+            <input
+              type="password"
+              autoComplete="new-password"
+              value={confirm}
+              onChange={(e) => setConfirm(e.target.value)}
+              placeholder={i18n.confirm}
+              aria-label={i18n.confirm}
+              className={inputClass}
+            />
+          )}
+          {(error || (passphrase && validation)) && (
+            <div className="text-xs text-[var(--danger)]">
+              {error || validation}
+            </div>
+          )}
+          <div className="mt-3 flex justify-end gap-3">
+            <button
+              type="button"
+              onClick={onCancel}
+              disabled={busy}
+              className="px-4 py-2 rounded-xl text-[var(--muted)] hover:text-[var(--text)] hover:bg-[var(--row-hover)] transition-colors font-medium disabled:opacity-50"
+            >
+              {i18n.cancel}
+            </button>
+            <button
+              type="submit"
+              disabled={!canSubmit}
+              className="px-6 py-2 rounded-xl bg-[var(--accent)] text-slate-900 font-bold hover:bg-[var(--success)] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {busy ? i18n.working : isEncrypt ? i18n.encrypt : i18n.decrypt}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
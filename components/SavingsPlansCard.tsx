@@ -0,0 +1,81 @@
+import React from "react";
+import { Ledger, WeightUnit } from "../types";
+import { translations, Language } from "../translations";
+import { DEFAULT_CURRENCY, formatMoney } from "../utils/currency";
+import { formatWeight, pricePerUnit } from "../utils/units";
+import { summarizePlan } from "../utils/plans";
+
+export const SavingsPlansCard: React.FC<{
+  ledger: Ledger;
+  lang: Language;
+  displayUnit: WeightUnit;
+  onManage: () => void;
+}> = ({ ledger, lang, displayUnit, onManage }) => {
+  const tr = translations[lang];
+  const i18n = tr.plans;
+  const unitSuffix = tr.unitSuffix[displayUnit];
+  const currency = ledger.baseCurrency ?? DEFAULT_CURRENCY;
+  const plans = ledger.plans ?? [];
+  const pending = ledger.pendingEntries ?? [];
+
+  return (
+    <div className="bg-[var(--panel)] border border-[var(--border)] p-6 rounded-2xl shadow-xl mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <p className="text-[var(--muted)] text-[10px] font-bold uppercase tracking-widest">
+          {i18n.cardTitle}
+        </p>
+        <button
+          type="button"
+          onClick={onManage}
+          className="text-[10px] font-bold text-[var(--accent)] hover:text-[var(--success)] transition-colors"
+        >
+          {pending.length > 0
+            ? i18n.pendingCount.replace("{count}", String(pending.length))
+            : i18n.manage}
+        </button>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+        {plans.map((plan) => {
+          const totals = summarizePlan(ledger.records, plan.id);
+          const due = pending.filter((e) => e.planId === plan.id).length;
+          return (
+            <div
+              key={plan.id}
+              className="rounded-xl border border-[var(--border)] bg-[var(--panel-2)] px-4 py-3"
+            >
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-sm font-bold text-[var(--text)] truncate">
+                  {plan.name}
+                </span>
+                <span className="text-[10px] text-[var(--muted-2)] flex-shrink-0">
+                  {plan.active ? i18n.frequencies[plan.frequency] : i18n.paused}
+                </span>
+              </div>
+              <div className="mt-1 text-lg font-black text-[var(--accent)] font-mono">
+                {i18n.cumulative
+                  .replace(
+                    "{weight}",
+                    formatWeight(totals.grams, displayUnit, unitSuffix),
+                  )
+                  .replace(
+                    "{price}",
+                    formatMoney(
+                      pricePerUnit(totals.avgCost, displayUnit),
+                      currency,
+                      lang,
+                    ),
+                  )}
+              </div>
+              <div className="text-[10px] text-[var(--muted-2)]">
+                {tr.metals[plan.metal]} ·{" "}
+                {i18n.buys.replace("{count}", String(totals.count))}
+                {due > 0 &&
+                  ` · ${i18n.pendingCount.replace("{count}", String(due))}`}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
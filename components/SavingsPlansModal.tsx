@@ -0,0 +1,393 @@
+import React, { useEffect, useState } from "react";
+import {
+  FeePreset,
+  FxRates,
+  Ledger,
+  Metal,
+  PendingEntry,
+  PlanBasis,
+  PlanFrequency,
+  SavingsPlan,
+  WeightUnit,
+} from "../types";
+import { translations, Language } from "../translations";
+import { METALS } from "../utils/positions";
+import { crossRate, DEFAULT_CURRENCY, formatMoney } from "../utils/currency";
+import { MarketPrices } from "../utils/alerts";
+import {
+  formatWeight,
+  pricePerGram,
+  pricePerUnit,
+  toGrams,
+} from "../utils/units";
+import { localDateKey, PLAN_FREQUENCIES } from "../utils/plans";
+import { generateId } from "../utils/id";
+
+export const SavingsPlansModal: React.FC<{
+  isOpen: boolean;
+  lang: Language;
+  ledger: Ledger;
+  feePresets: FeePreset[];
+  displayUnit: WeightUnit;
+  marketPrices: MarketPrices;
+  fxRates: FxRates;
+  onChangePlans: (plans: SavingsPlan[]) => void;
+  onConfirm: (entry: PendingEntry, price: number) => void;
+  onSkip: (entry: PendingEntry) => void;
+  onClose: () => void;
+}> = ({
+  isOpen,
+  lang,
+  ledger,
+  feePresets,
+  displayUnit,
+  marketPrices,
+  fxRates,
+  onChangePlans,
+  onConfirm,
+  onSkip,
+  onClose,
+}) => {
+  const tr = translations[lang];
+  const i18n = tr.plans;
+  const unitSuffix = tr.unitSuffix[displayUnit];
+  const currency = ledger.baseCurrency ?? DEFAULT_CURRENCY;
+  const plans = ledger.plans ?? [];
+  const pending = ledger.pendingEntries ?? [];
+  const [name, setName] = useState("");
+  const [metal, setMetal] = useState<Metal>("gold");
+  const [basis, setBasis] = useState<PlanBasis>("amount");
+  const [quantity, setQuantity] = useState("");
+  const [frequency, setFrequency] = useState<PlanFrequency>("monthly");
+  const [startDate, setStartDate] = useState(() => localDateKey(Date.now()));
+  const [channel, setChannel] = useState("");
+  const [prices, setPrices] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setName("");
+    setQuantity("");
+    setStartDate(localDateKey(Date.now()));
+    setPrices({});
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const parsedQuantity = parseFloat(quantity);
+  const canAdd = !!name.trim() && parsedQuantity > 0 && !!startDate;
+  const money = (value: number) => formatMoney(value, currency, lang);
+
+  const describePlan = (plan: SavingsPlan) =>
+    [
+      tr.metals[plan.metal],
+      plan.basis === "amount"
+        ? money(plan.quantity)
+        : formatWeight(plan.quantity, displayUnit, unitSuffix),
+      i18n.frequencies[plan.frequency],
+      plan.channel,
+    ]
+      .filter(Boolean)
+      .join(" · ");
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canAdd) return;
+    onChangePlans([
+      ...plans,
+      {
+        id: generateId(),
+        name: name.trim(),
+        metal,
+        basis,
+        quantity:
+          basis === "grams"
+            ? toGrams(parsedQuantity, displayUnit)
+            : parsedQuantity,
+        frequency,
+        startDate,
+        ...(channel ? { channel } : {}),
+        active: true,
+        createdAt: Date.now(),
+      },
+    ]);
+    setName("");
+    setQuantity("");
+  };
+
+  // Dates missed while paused are not back-filled on resume.
+  const toggle = (id: string) => (p: SavingsPlan) => {
+    if (p.id !== id) return p;
+    if (!p.active) {
+      return {
+        ...p,
+        active: true,
+        scheduledThrough: localDateKey(Date.now() - 24 * 60 * 60 * 1000),
+      };
+    }
+    return { ...p, active: false };
+  };
+
+  // Entries start from the market price so confirming is one edit away.
+  const priceInput = (entry: PendingEntry, plan: SavingsPlan) => {
+    if (entry.id in prices) return prices[entry.id];
+    const quote = marketPrices[plan.metal];
+    if (!quote) return "";
+    const market = quote.price * crossRate(quote.currency, currency, fxRates);
+    return String(Number(pricePerUnit(market, displayUnit).toFixed(2)));
+  };
+
+  const inputClass =
+    "bg-[var(--input-bg)] border border-[var(--border-2)] rounded-xl px-3 py-2 text-sm text-[var(--input-text)] focus:outline-none focus:ring-2 focus:ring-[var(--accent)] placeholder:text-[var(--placeholder)]";
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm"
+      onMouseDown={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+    >
+      <div className="bg-[var(--panel)] border border-[var(--border)] rounded-2xl w-full max-w-2xl shadow-2xl p-6 max-h-[90vh] overflow-auto">
+        <div className="flex items-start justify-between gap-6">
+          <div className="min-w-0">
+            <h3 className="text-xl font-bold text-[var(--text)]">
+              {i18n.title} · {ledger.name}
+            </h3>
+            <p className="text-sm text-[var(--muted)] mt-1">{i18n.subtitle}</p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-[var(--muted-2)] hover:text-[var(--text)]"
+            aria-label={i18n.close}
+          >
+            <svg
+              xmlns="http://www.w3.org/2000/svg"
+              className="h-5 w-5"
+              viewBox="0 0 20 20"
+              fill="currentColor"
+            >
+              <path
+                fillRule="evenodd"
+                d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z"
+                clipRule="evenodd"
+              />
+            </svg>
+          </button>
+        </div>
+
+        <p className="mt-6 text-[var(--muted)] text-[10px] font-bold uppercase tracking-widest">
+          {i18n.pending}
+        </p>
+        <div className="mt-2 rounded-2xl border border-[var(--border)] bg-[var(--panel-2)] divide-y divide-[var(--border)] max-h-[30vh] overflow-auto">
+          {pending.length === 0 && (
+            <div className="px-4 py-6 text-xs text-[var(--muted-2)]">
+              {i18n.pendingEmpty}
+            </div>
+          )}
+          {pending.map((entry) => {
+            const plan = plans.find((p) => p.id === entry.planId);
+            if (!plan) return null;
+            const value = priceInput(entry, plan);
+            const parsed = parseFloat(value);
+            return (
+              <div
+                key={entry.id}
+                className="flex items-center justify-between gap-3 px-4 py-2"
+              >
+                <div className="min-w-0">
+                  <div className="text-sm font-bold text-[var(--text)] truncate">
+                    {plan.name}
+                  </div>
+                  <div className="text-[10px] text-[var(--muted-2)] font-mono truncate">
+                    {i18n.due.replace("{date}", entry.dueDate)} ·{" "}
+                    {describePlan(plan)}
+                  </div>
+                </div>
+                <div className="flex items-center gap-2 flex-shrink-0">
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={value}
+                    onChange={(e) =>
+                      setPrices((prev) => ({
+                        ...prev,
+                        [entry.id]: e.target.value,
+                      }))
+                    }
+                    placeholder={i18n.price}
+                    aria-label={i18n.price}
+                    className={`w-28 ${inputClass}`}
+                  />
+                  <button
+                    type="button"
+                    disabled={!(parsed > 0)}
+                    onClick={() =>
+                      onConfirm(entry, pricePerGram(parsed, displayUnit))
+                    }
+                    className="px-3 py-2 rounded-xl bg-[var(--accent)] text-slate-900 text-xs font-bold hover:bg-[var(--success)] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {i18n.confirm}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => onSkip(entry)}
+                    className="px-3 py-2 rounded-xl border border-[var(--border-2)] text-xs font-bold text-[var(--muted)] hover:text-[var(--danger)] transition-colors"
+                  >
+                    {i18n.skip}
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+        <div className="mt-2 text-[11px] text-[var(--muted-2)]">
+          {tr.form.pricesPerUnit
+            .replace("{currency}", currency)
+            .replace("{unit}", tr.units[displayUnit])}
+        </div>
+
+        <div className="mt-6 rounded-2xl border border-[var(--border)] bg-[var(--panel-2)] divide-y divide-[var(--border)] max-h-[30vh] overflow-auto">
+          {plans.length === 0 && (
+            <div className="px-4 py-6 text-xs text-[var(--muted-2)]">
+              {i18n.empty}
+            </div>
+          )}
+          {plans.map((plan) => (
+            <div
+              key={plan.id}
+              className="flex items-center justify-between gap-3 px-4 py-2"
+            >
+              <div className="min-w-0">
+                <div className="text-sm font-bold text-[var(--text)] truncate">
+                  {plan.name}
+                  {!plan.active && (
+                    <span className="ml-2 text-[10px] text-[var(--muted-2)]">
+                      {i18n.paused}
+                    </span>
+                  )}
+                </div>
+                <div className="text-[10px] text-[var(--muted-2)] font-mono truncate">
+                  {plan.startDate} · {describePlan(plan)}
+                </div>
+              </div>
+              <div className="flex items-center gap-2 flex-shrink-0">
+                <button
+                  type="button"
+                  onClick={() => onChangePlans(plans.map(toggle(plan.id)))}
+                  className="text-[10px] font-bold text-[var(--muted)] hover:text-[var(--accent)] transition-colors"
+                >
+                  {plan.active ? i18n.pause : i18n.resume}
+                </button>
+                <button
+                  type="button"
+                  onClick={() =>
+                    onChangePlans(plans.filter((p) => p.id !== plan.id))
+                  }
+                  className="p-1 text-[var(--muted-2)] hover:text-[var(--danger)] transition-all"
+                  title={i18n.remove}
+                >
+                  <svg
+                    xmlns="http://www.w3.org/2000/svg"
+                    className="h-4 w-4"
+                    fill="none"
+                    viewBox="0 0 24 24"
+                    stroke="currentColor"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
+                    />
+                  </svg>
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <form onSubmit={handleAdd} className="mt-4 grid grid-cols-12 gap-2">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder={i18n.name}
+            aria-label={i18n.name}
+            className={`col-span-12 md:col-span-4 ${inputClass}`}
+          />
+          <select
+            value={metal}
+            onChange={(e) => setMetal(e.target.value as Metal)}
+            aria-label={tr.form.metal}
+            className={`col-span-4 md:col-span-2 ${inputClass}`}
+          >
+            {METALS.map((m) => (
+              <option key={m} value={m}>
+                {tr.metals[m]}
+              </option>
+            ))}
+          </select>
+          <select
+            value={basis}
+            onChange={(e) => setBasis(e.target.value as PlanBasis)}
+            className={`col-span-4 md:col-span-3 ${inputClass}`}
+          >
+            <option value="amount">{i18n.basis.amount}</option>
+            <option value="grams">{i18n.basis.grams}</option>
+          </select>
+          <input
+            type="number"
+            min="0"
+            step="0.01"
+            value={quantity}
+            onChange={(e) => setQuantity(e.target.value)}
+            placeholder={basis === "amount" ? currency : unitSuffix}
+            aria-label={i18n.quantity}
+            title={i18n.quantity}
+            className={`col-span-4 md:col-span-3 ${inputClass}`}
+          />
+          <select
+            value={frequency}
+            onChange={(e) => setFrequency(e.target.value as PlanFrequency)}
+            className={`col-span-4 md:col-span-3 ${inputClass}`}
+          >
+            {PLAN_FREQUENCIES.map((f) => (
+              <option key={f} value={f}>
+                {i18n.frequencies[f]}
+              </option>
+            ))}
+          </select>
+          <input
+            type="date"
+            value={startDate}
+            onChange={(e) => setStartDate(e.target.value)}
+            aria-label={i18n.startDate}
+            title={i18n.startDate}
+            className={`col-span-8 md:col-span-3 ${inputClass}`}
+          />
+          <select
+            value={channel}
+            onChange={(e) => setChannel(e.target.value)}
+            aria-label={tr.form.channel}
+            className={`col-span-6 md:col-span-4 ${inputClass}`}
+          >
+            <option value="">{i18n.noChannel}</option>
+            {feePresets.map((p) => (
+              <option key={p.id} value={p.name}>
+                {p.name}
+              </option>
+            ))}
+          </select>
+          <button
+            type="submit"
+            disabled={!canAdd}
+            className="col-span-6 md:col-span-2 rounded-xl bg-[var(--accent)] text-slate-900 text-xs font-bold py-2 hover:bg-[var(--success)] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {i18n.add}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
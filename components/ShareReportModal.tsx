@@ -1,6 +1,12 @@
 import React, { useEffect, useMemo, useRef, useState } from "react";
 import html2canvas from "html2canvas";
-import { TradeSummary } from "../types";
+import { Currency, TradeSummary, WeightUnit } from "../types";
+import { Language } from "../translations";
+import { formatWeight } from "../utils/units";
+import { formatMoney } from "../utils/currency";
+import { imagesToPdf, jpegFromDataUrl, PdfPageImage } from "../utils/pdf";
+import { StatementRow } from "../utils/statement";
+import { StatementPages } from "./StatementPages";
 
 export type ShareReportTemplate = "glass" | "paper" | "neon";
 
@@ -10,6 +16,7 @@ export type ShareModalI18n = {
   templatesLabel: string;
   templates: Record<ShareReportTemplate, string>;
   downloadPng: string;
+  downloadPdf: string;
   downloading: string;
   copyText: string;
   close: string;
@@ -29,14 +36,15 @@ type ShareReportPayload = {
   ledgerName: string;
   txCount: number;
   generatedAt: string;
+  currency: Currency;
+  lang: Language;
+  weightUnit: WeightUnit;
+  unitSuffix: string;
   labels: ReportLabels;
 };
 
 const TEMPLATE_SIZE = { width: 1200, height: 630 };
 
-const formatMoney = (value: number) => `￥${value.toFixed(2)}`;
-const formatGrams = (value: number) => `${value.toFixed(2)}g`;
-
 const toPngBlob = (canvas: HTMLCanvasElement) =>
   new Promise<Blob>((resolve, reject) => {
     canvas.toBlob((blob) => {
@@ -74,6 +82,8 @@ const ReportTemplate: React.FC<{
   height: number;
   withShadow?: boolean;
 }> = ({ template, summary, payload, width, height, withShadow = true }) => {
+  const money = (value: number) =>
+    formatMoney(value, payload.currency, payload.lang);
   const profitColor =
     summary.totalProfit >= 0 ? "text-emerald-300" : "text-rose-300";
   const diffColor =
@@ -122,7 +132,7 @@ const ReportTemplate: React.FC<{
               <div
                 className={`mt-2 text-5xl font-black tabular-nums ${profitColor}`}
               >
-                {formatMoney(summary.totalProfit)}
+                {money(summary.totalProfit)}
               </div>
             </div>
 
@@ -131,7 +141,7 @@ const ReportTemplate: React.FC<{
                 {payload.labels.projected}
               </div>
               <div className="mt-2 text-3xl font-black tabular-nums text-slate-900">
-                {formatMoney(summary.totalProjectedProfit)}
+                {money(summary.totalProjectedProfit)}
               </div>
             </div>
 
@@ -142,7 +152,7 @@ const ReportTemplate: React.FC<{
               <div
                 className={`mt-2 text-3xl font-black tabular-nums ${diffColor}`}
               >
-                {formatMoney(summary.profitDifference)}
+                {money(summary.profitDifference)}
               </div>
             </div>
 
@@ -152,7 +162,11 @@ const ReportTemplate: React.FC<{
                   {payload.labels.volume}
                 </div>
                 <div className="mt-2 text-3xl font-black tabular-nums">
-                  {formatGrams(summary.totalGrams)}
+                  {formatWeight(
+                    summary.totalGrams,
+                    payload.weightUnit,
+                    payload.unitSuffix,
+                  )}
                 </div>
               </div>
               <div className="text-right">
@@ -226,7 +240,7 @@ const ReportTemplate: React.FC<{
               <div
                 className={`mt-2 text-6xl font-black tabular-nums ${profitColor}`}
               >
-                {formatMoney(summary.totalProfit)}
+                {money(summary.totalProfit)}
               </div>
             </div>
 
@@ -235,7 +249,7 @@ const ReportTemplate: React.FC<{
                 {payload.labels.projected}
               </div>
               <div className="mt-2 text-3xl font-black tabular-nums text-white">
-                {formatMoney(summary.totalProjectedProfit)}
+                {money(summary.totalProjectedProfit)}
               </div>
             </div>
 
@@ -246,7 +260,7 @@ const ReportTemplate: React.FC<{
               <div
                 className={`mt-2 text-3xl font-black tabular-nums ${diffColor}`}
               >
-                {formatMoney(summary.profitDifference)}
+                {money(summary.profitDifference)}
               </div>
             </div>
 
@@ -256,7 +270,11 @@ const ReportTemplate: React.FC<{
                   {payload.labels.volume}
                 </div>
                 <div className="mt-2 text-3xl font-black tabular-nums text-white">
-                  {formatGrams(summary.totalGrams)}
+                  {formatWeight(
+                    summary.totalGrams,
+                    payload.weightUnit,
+                    payload.unitSuffix,
+                  )}
                 </div>
               </div>
               <div className="text-right">
@@ -334,7 +352,7 @@ const ReportTemplate: React.FC<{
             <div
               className={`mt-2 text-6xl font-black tabular-nums ${profitColor}`}
             >
-              {formatMoney(summary.totalProfit)}
+              {money(summary.totalProfit)}
             </div>
           </div>
 
@@ -343,7 +361,7 @@ const ReportTemplate: React.FC<{
               {payload.labels.projected}
             </div>
             <div className="mt-2 text-3xl font-black tabular-nums text-white">
-              {formatMoney(summary.totalProjectedProfit)}
+              {money(summary.totalProjectedProfit)}
             </div>
           </div>
 
@@ -354,7 +372,7 @@ const ReportTemplate: React.FC<{
             <div
               className={`mt-2 text-3xl font-black tabular-nums ${diffColor}`}
             >
-              {formatMoney(summary.profitDifference)}
+              {money(summary.profitDifference)}
             </div>
           </div>
 
@@ -364,7 +382,11 @@ const ReportTemplate: React.FC<{
                 {payload.labels.volume}
               </div>
               <div className="mt-2 text-3xl font-black tabular-nums text-white">
-                {formatGrams(summary.totalGrams)}
+                {formatWeight(
+                  summary.totalGrams,
+                  payload.weightUnit,
+                  payload.unitSuffix,
+                )}
               </div>
             </div>
             <div className="text-right">
@@ -485,6 +507,8 @@ export const ShareReportModal: React.FC<{
   onTemplateChange: (t: ShareReportTemplate) => void;
   summary: TradeSummary;
   payload: ShareReportPayload;
+  // Statement rows are in the summary's currency.
+  statement: { rows: StatementRow[]; showLedger: boolean };
   onCopyText: () => void;
   onClose: () => void;
 }> = ({
@@ -494,11 +518,14 @@ export const ShareReportModal: React.FC<{
   onTemplateChange,
   summary,
   payload,
+  statement,
   onCopyText,
   onClose,
 }) => {
   const exportRef = useRef<HTMLDivElement | null>(null);
+  const statementRef = useRef<HTMLDivElement | null>(null);
   const [isDownloading, setIsDownloading] = useState(false);
+  const [isRenderingPdf, setIsRenderingPdf] = useState(false);
   const [exportTemplate, setExportTemplate] =
     useState<ShareReportTemplate>(template);
 
@@ -541,6 +568,38 @@ export const ShareReportModal: React.FC<{
     }
   };
 
+  // Pages are only mounted while rendering; each becomes one JPEG page.
+  const handleDownloadPdf = async () => {
+    setIsRenderingPdf(true);
+    try {
+      await nextFrame();
+      await nextFrame();
+      const root = statementRef.current;
+      if (!root) return;
+      const pages: PdfPageImage[] = [];
+      for (const el of Array.from<HTMLElement>(
+        root.querySelectorAll<HTMLElement>("[data-statement-page]"),
+      )) {
+        const canvas = await html2canvas(el, {
+          backgroundColor: "#ffffff",
+          scale: 2,
+          useCORS: true,
+        });
+        pages.push({
+          jpeg: jpegFromDataUrl(canvas.toDataURL("image/jpeg", 0.92)),
+          width: canvas.width,
+          height: canvas.height,
+        });
+      }
+      const blob = new Blob([imagesToPdf(pages)], { type: "application/pdf" });
+      downloadBlob(blob, `${safeFilename(payload.ledgerName)}-statement.pdf`);
+    } finally {
+      setIsRenderingPdf(false);
+    }
+  };
+
+  const isBusy = isDownloading || isRenderingPdf;
+
   return (
     <div
       className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm"
@@ -631,6 +690,14 @@ export const ShareReportModal: React.FC<{
             </button>
           </div>
           <div className="flex items-center gap-3">
+            <button
+              type="button"
+              onClick={handleDownloadPdf}
+              disabled={isBusy}
+              className="px-4 py-2 rounded-xl border border-[var(--border)] text-[var(--muted)] hover:text-[var(--accent)] transition-colors font-semibold disabled:opacity-60 disabled:cursor-not-allowed"
+            >
+              {isRenderingPdf ? i18n.downloading : i18n.downloadPdf}
+            </button>
             <button
               type="button"
               onClick={onClose}
@@ -641,7 +708,7 @@ export const ShareReportModal: React.FC<{
             <button
               type="button"
               onClick={handleDownload}
-              disabled={isDownloading}
+              disabled={isBusy}
               className="flex items-center gap-2 bg-[var(--accent)] text-slate-900 px-5 py-3 rounded-2xl font-black tracking-widest uppercase text-xs hover:bg-[var(--success)] transition-colors disabled:opacity-60 disabled:cursor-not-allowed shadow-xl"
             >
               {isDownloading ? (
@@ -701,6 +768,20 @@ export const ShareReportModal: React.FC<{
             height={TEMPLATE_SIZE.height}
           />
         </div>
+        {isRenderingPdf && (
+          <div ref={statementRef}>
+            <StatementPages
+              lang={payload.lang}
+              ledgerName={payload.ledgerName}
+              generatedAt={payload.generatedAt}
+              currency={payload.currency}
+              summary={summary}
+              rows={statement.rows}
+              weightUnit={payload.weightUnit}
+              showLedger={statement.showLedger}
+            />
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,195 @@
+import React, { useEffect, useState } from "react";
+import { translations, Language } from "../translations";
+import {
+  deleteSnapshot,
+  listSnapshots,
+  SnapshotInfo,
+} from "../utils/snapshots";
+import { ConfirmModal } from "./ConfirmModal";
+
+export const SnapshotsModal: React.FC<{
+  isOpen: boolean;
+  lang: Language;
+  // Set while the last restore can still be rolled back.
+  canUndo: boolean;
+  onRestore: (id: string) => Promise<void>;
+  onUndo: () => Promise<void>;
+  onClose: () => void;
+}> = ({ isOpen, lang, canUndo, onRestore, onUndo, onClose }) => {
+  const i18n = translations[lang].snapshots;
+  const locale = lang === "zh" ? "zh-CN" : "en-US";
+  const [snapshots, setSnapshots] = useState<SnapshotInfo[] | null>(null);
+  const [error, setError] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [confirming, setConfirming] = useState<SnapshotInfo | null>(null);
+
+  const reload = () =>
+    listSnapshots()
+      .then((list) => {
+        setSnapshots(list);
+        setError("");
+      })
+      .catch((e) => {
+        console.error("Failed to list snapshots", e);
+        setSnapshots([]);
+        setError(i18n.failed);
+      });
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setSnapshots(null);
+    setConfirming(null);
+    reload();
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const formatDate = (timestamp: number) =>
+    new Date(timestamp).toLocaleString(locale);
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await action();
+    } finally {
+      setBusy(false);
+      reload();
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm"
+      onMouseDown={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+    >
+      <div className="bg-[var(--panel)] border border-[var(--border)] rounded-2xl w-full max-w-2xl shadow-2xl p-6">
+        <div className="flex items-start justify-between gap-6">
+          <div className="min-w-0">
+            <h3 className="text-xl font-bold text-[var(--text)]">
+              {i18n.title}
+            </h3>
+            <p className="text-sm text-[var(--muted)] mt-1">{i18n.subtitle}</p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-[var(--muted-2)] hover:text-[var(--text)]"
+            aria-label={i18n.close}
+          >
+            <svg
+              xmlns="http://www.w3.org/2000/svg"
+              className="h-5 w-5"
+              viewBox="0 0 20 20"
+              fill="currentColor"
+            >
+              <path
+                fillRule="evenodd"
+                d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z"
+                clipRule="evenodd"
+              />
+            </svg>
+          </button>
+        </div>
+
+        {canUndo && (
+          <button
+            type="button"
+            disabled={busy}
+            onClick={() => run(onUndo)}
+            className="mt-4 w-full bg-[var(--panel-2)] border border-[var(--accent)] px-4 py-3 rounded-xl text-xs font-bold uppercase tracking-widest text-[var(--accent)] hover:bg-[var(--row-hover)] transition-colors disabled:opacity-50"
+          >
+            {i18n.undo}
+          </button>
+        )}
+
+        <div className="mt-4 rounded-2xl border border-[var(--border)] bg-[var(--panel-2)] divide-y divide-[var(--border)] max-h-[50vh] overflow-auto">
+          {error && (
+            <div className="px-4 py-6 text-xs text-[var(--danger)]">
+              {error}
+            </div>
+          )}
+          {!error && !snapshots && (
+            <div className="px-4 py-6 text-xs text-[var(--muted-2)]">
+              {i18n.loading}
+            </div>
+          )}
+          {!error && snapshots?.length === 0 && (
+            <div className="px-4 py-6 text-xs text-[var(--muted-2)]">
+              {i18n.empty}
+            </div>
+          )}
+          {snapshots?.map((s) => (
+            <div
+              key={s.id}
+              className="flex items-center justify-between gap-3 px-4 py-3"
+            >
+              <div className="min-w-0">
+                <div className="text-sm font-bold text-[var(--text)] truncate">
+                  {i18n.reasons[s.reason].replace("{label}", s.label ?? "")}
+                </div>
+                <div className="mt-0.5 text-xs text-[var(--muted)]">
+                  <span className="font-mono">{formatDate(s.createdAt)}</span>
+                  {" · "}
+                  {i18n.counts
+                    .replace("{ledgers}", String(s.ledgerCount))
+                    .replace("{records}", String(s.recordCount))}
+                </div>
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                <button
+                  type="button"
+                  disabled={busy}
+                  onClick={() => setConfirming(s)}
+                  className="bg-[var(--panel)] border border-[var(--border)] px-3 py-1.5 rounded-lg text-[10px] font-black uppercase tracking-widest text-[var(--muted)] hover:text-[var(--accent)] transition-colors disabled:opacity-50"
+                >
+                  {i18n.restore}
+                </button>
+                <button
+                  type="button"
+                  disabled={busy}
+                  onClick={() => run(() => deleteSnapshot(s.id))}
+                  className="p-1 text-[var(--muted-2)] hover:text-[var(--danger)] transition-all disabled:opacity-50"
+                  title={i18n.remove}
+                >
+                  <svg
+                    xmlns="http://www.w3.org/2000/svg"
+                    className="h-4 w-4"
+                    fill="none"
+                    viewBox="0 0 24 24"
+                    stroke="currentColor"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
+                    />
+                  </svg>
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <ConfirmModal
+        isOpen={!!confirming}
+        title={i18n.confirmTitle}
+        message={i18n.confirmMessage.replace(
+          "{date}",
+          confirming ? formatDate(confirming.createdAt) : "",
+        )}
+        confirmText={i18n.restore}
+        cancelText={translations[lang].ledgers.cancel}
+        onCancel={() => setConfirming(null)}
+        onConfirm={() => {
+          const target = confirming;
+          setConfirming(null);
+          if (target) run(() => onRestore(target.id));
+        }}
+      />
+    </div>
+  );
+};
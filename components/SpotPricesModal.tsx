@@ -0,0 +1,260 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Currency, Metal, SpotPrice, WeightUnit } from "../types";
+import { translations, Language } from "../translations";
+import { METALS } from "../utils/positions";
+import { CURRENCIES, formatMoney } from "../utils/currency";
+import { pricePerGram, pricePerUnit } from "../utils/units";
+import { parseSpotPriceCsv, upsertSpotPrices } from "../utils/prices";
+
+const today = () => {
+  const d = new Date();
+  d.setMinutes(d.getMinutes() - d.getTimezoneOffset());
+  return d.toISOString().slice(0, 10);
+};
+
+export const SpotPricesModal: React.FC<{
+  isOpen: boolean;
+  lang: Language;
+  prices: SpotPrice[];
+  displayUnit: WeightUnit;
+  defaultCurrency: Currency;
+  onChange: (prices: SpotPrice[]) => void;
+  onClose: () => void;
+}> = ({
+  isOpen,
+  lang,
+  prices,
+  displayUnit,
+  defaultCurrency,
+  onChange,
+  onClose,
+}) => {
+  const i18n = translations[lang].spotPrices;
+  const tr = translations[lang];
+  const fileRef = useRef<HTMLInputElement | null>(null);
+  const [metal, setMetal] = useState<Metal>("gold");
+  const [date, setDate] = useState(today);
+  const [price, setPrice] = useState("");
+  const [currency, setCurrency] = useState<Currency>(defaultCurrency);
+  const [message, setMessage] = useState("");
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setDate(today());
+    setPrice("");
+    setCurrency(defaultCurrency);
+    setMessage("");
+  }, [isOpen, defaultCurrency]);
+
+  if (!isOpen) return null;
+
+  const parsedPrice = parseFloat(price);
+  const canAdd = !!date && parsedPrice > 0;
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canAdd) return;
+    onChange(
+      upsertSpotPrices(prices, [
+        {
+          metal,
+          date,
+          price: pricePerGram(parsedPrice, displayUnit),
+          currency,
+        },
+      ]),
+    );
+    setPrice("");
+  };
+
+  const handleImport = async (file: File) => {
+    const { prices: imported, skipped } = parseSpotPriceCsv(
+      await file.text(),
+      currency,
+      (p) => pricePerGram(p, displayUnit),
+    );
+    if (imported.length > 0) onChange(upsertSpotPrices(prices, imported));
+    setMessage(
+      i18n.imported
+        .replace("{count}", String(imported.length))
+        .replace("{skipped}", String(skipped)),
+    );
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm"
+      onMouseDown={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+    >
+      <div className="bg-[var(--panel)] border border-[var(--border)] rounded-2xl w-full max-w-2xl shadow-2xl p-6">
+        <div className="flex items-start justify-between gap-6">
+          <div className="min-w-0">
+            <h3 className="text-xl font-bold text-[var(--text)]">
+              {i18n.title}
+            </h3>
+            <p className="text-sm text-[var(--muted)] mt-1">{i18n.subtitle}</p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-[var(--muted-2)] hover:text-[var(--text)]"
+            aria-label={i18n.close}
+          >
+            <svg
+              xmlns="http://www.w3.org/2000/svg"
+              className="h-5 w-5"
+              viewBox="0 0 20 20"
+              fill="currentColor"
+            >
+              <path
+                fillRule="evenodd"
+                d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z"
+                clipRule="evenodd"
+              />
+            </svg>
+          </button>
+        </div>
+
+        <div className="mt-6 rounded-2xl border border-[var(--border)] bg-[var(--panel-2)] divide-y divide-[var(--border)] max-h-[40vh] overflow-auto">
+          {prices.length === 0 && (
+            <div className="px-4 py-6 text-xs text-[var(--muted-2)]">
+              {i18n.empty}
+            </div>
+          )}
+          {prices.map((p) => (
+            <div
+              key={`${p.metal}|${p.date}`}
+              className="flex items-center justify-between gap-3 px-4 py-2"
+            >
+              <div className="min-w-0 flex items-center gap-3 text-sm">
+                <span className="font-mono text-[var(--muted)]">{p.date}</span>
+                <span className="font-bold text-[var(--text)]">
+                  {tr.metals[p.metal]}
+                </span>
+              </div>
+              <div className="flex items-center gap-3">
+                <span className="font-mono text-sm text-[var(--accent)]">
+                  {formatMoney(
+                    pricePerUnit(p.price, displayUnit),
+                    p.currency,
+                    lang,
+                  )}
+                </span>
+                <button
+                  type="button"
+                  onClick={() =>
+                    onChange(
+                      prices.filter(
+                        (x) => x.metal !== p.metal || x.date !== p.date,
+                      ),
+                    )
+                  }
+                  className="p-1 text-[var(--muted-2)] hover:text-[var(--danger)] transition-all"
+                  title={i18n.remove}
+                >
+                  <svg
+                    xmlns="http://www.w3.org/2000/svg"
+                    className="h-4 w-4"
+                    fill="none"
+                    viewBox="0 0 24 24"
+                    stroke="currentColor"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
+                    />
+                  </svg>
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <form onSubmit={handleAdd} className="mt-4 grid grid-cols-12 gap-2">
+          <input
+            type="date"
+            value={date}
+            max={today()}
+            onChange={(e) => setDate(e.target.value)}
+            aria-label={i18n.date}
+            className="col-span-3 bg-[var(--input-bg)] border border-[var(--border-2)] rounded-xl px-3 py-2 text-sm text-[var(--input-text)] focus:outline-none focus:ring-2 focus:ring-[var(--accent)]"
+          />
+          <select
+            value={metal}
+            onChange={(e) => setMetal(e.target.value as Metal)}
+            aria-label={tr.form.metal}
+            className="col-span-2 bg-[var(--input-bg)] border border-[var(--border-2)] rounded-xl px-3 py-2 text-sm text-[var(--input-text)] focus:outline-none focus:ring-2 focus:ring-[var(--accent)]"
+          >
+            {METALS.map((m) => (
+              <option key={m} value={m}>
+                {tr.metals[m]}
+              </option>
+            ))}
+          </select>
+          <input
+            type="number"
+            min="0"
+            step="0.01"
+            value={price}
+            onChange={(e) => setPrice(e.target.value)}
+            placeholder={i18n.price}
+            aria-label={i18n.price}
+            className="col-span-3 bg-[var(--input-bg)] border border-[var(--border-2)] rounded-xl px-3 py-2 text-sm text-[var(--input-text)] focus:outline-none focus:ring-2 focus:ring-[var(--accent)] placeholder:text-[var(--placeholder)]"
+          />
+          <select
+            value={currency}
+            onChange={(e) => setCurrency(e.target.value as Currency)}
+            aria-label={tr.form.currency}
+            className="col-span-2 bg-[var(--input-bg)] border border-[var(--border-2)] rounded-xl px-3 py-2 text-sm text-[var(--input-text)] focus:outline-none focus:ring-2 focus:ring-[var(--accent)]"
+          >
+            {CURRENCIES.map((c) => (
+              <option key={c} value={c}>
+                {c}
+              </option>
+            ))}
+          </select>
+          <button
+            type="submit"
+            disabled={!canAdd}
+            className="col-span-2 rounded-xl bg-[var(--accent)] text-slate-900 text-xs font-bold hover:bg-[var(--success)] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {i18n.add}
+          </button>
+        </form>
+
+        <div className="mt-4 flex items-center justify-between gap-3">
+          <div className="min-w-0 text-[11px] text-[var(--muted-2)]">
+            <div>
+              {tr.form.pricesPerUnit
+                .replace("{currency}", currency)
+                .replace("{unit}", tr.units[displayUnit])}
+            </div>
+            <div>{message || i18n.importHint}</div>
+          </div>
+          <input
+            ref={fileRef}
+            type="file"
+            accept=".csv,text/csv"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = "";
+              if (file) void handleImport(file);
+            }}
+          />
+          <button
+            type="button"
+            onClick={() => fileRef.current?.click()}
+            className="flex-shrink-0 px-4 py-2 rounded-xl border border-[var(--border-2)] text-xs font-bold text-[var(--muted)] hover:text-[var(--accent)] transition-colors"
+          >
+            {i18n.importCsv}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
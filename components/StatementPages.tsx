@@ -0,0 +1,233 @@
+import React from "react";
+import { Currency, TradeSummary, WeightUnit } from "../types";
+import { translations, Language } from "../translations";
+import { formatMoney } from "../utils/currency";
+import { formatWeight, pricePerUnit } from "../utils/units";
+import { paginate, StatementRow } from "../utils/statement";
+import { heldMetals } from "../utils/summary";
+
+// A4 at 96 dpi; rows have a fixed height so pages can be cut by count.
+export const STATEMENT_PAGE = { width: 794, height: 1123 };
+const FIRST_PAGE_ROWS = 30;
+const PAGE_ROWS = 42;
+const ROW_HEIGHT = 22;
+
+const FONT_FAMILY =
+  'Inter, ui-sans-serif, system-ui, -apple-system, "Segoe UI", Roboto, Arial, "PingFang SC", "Microsoft YaHei", sans-serif';
+
+// Rendered off-screen and captured page by page into the PDF statement.
+export const StatementPages: React.FC<{
+  lang: Language;
+  ledgerName: string;
+  generatedAt: string;
+  currency: Currency;
+  summary: TradeSummary;
+  rows: StatementRow[];
+  weightUnit: WeightUnit;
+  showLedger: boolean;
+}> = ({
+  lang,
+  ledgerName,
+  generatedAt,
+  currency,
+  summary,
+  rows,
+  weightUnit,
+  showLedger,
+}) => {
+  const tr = translations[lang];
+  const i18n = tr.statement;
+  const unitSuffix = tr.unitSuffix[weightUnit];
+  const locale = lang === "zh" ? "zh-CN" : "en-US";
+  const money = (value: number) => formatMoney(value, currency, lang);
+  const weight = (grams: number) => formatWeight(grams, weightUnit, unitSuffix);
+  const price = (perGram: number) => money(pricePerUnit(perGram, weightUnit));
+  const pages = paginate<StatementRow>(rows, FIRST_PAGE_ROWS, PAGE_ROWS);
+
+  const entries = rows.flatMap((r) => (r.kind === "entry" ? [r.entry] : []));
+  const day = (timestamp: number) =>
+    new Date(timestamp).toLocaleDateString(locale);
+  const period =
+    entries.length > 0
+      ? `${day(entries[0].record.timestamp)} – ${day(entries[entries.length - 1].record.timestamp)}`
+      : "—";
+
+  const held = heldMetals(summary);
+  const holdings: [string, string][] =
+    held.length > 1
+      ? held.map((metal) => {
+          const m = summary.byMetal[metal]!;
+          return [
+            `${tr.report.holdings} · ${tr.metals[metal]}`,
+            `${weight(m.holdingGrams)} · ${price(m.holdingAvgCost)}`,
+          ];
+        })
+      : [
+          [tr.report.holdings, weight(summary.holdingGrams)],
+          [tr.stats.holdingAvgCost, price(summary.holdingAvgCost)],
+        ];
+  const figures: [string, string][] = [
+    [tr.report.actual, money(summary.totalProfit)],
+    [tr.report.projected, money(summary.totalProjectedProfit)],
+    [tr.report.diff, money(summary.profitDifference)],
+    [tr.report.volume, weight(summary.totalGrams)],
+    ...holdings,
+    [tr.stats.marketValue, money(summary.marketValue)],
+    [tr.stats.unrealized, money(summary.unrealizedProfit)],
+    [tr.report.count, String(entries.length)],
+  ];
+
+  const columns = [
+    i18n.columns.date,
+    ...(showLedger ? [i18n.columns.ledger] : []),
+    i18n.columns.side,
+    i18n.columns.metal,
+    i18n.columns.weight,
+    i18n.columns.cost,
+    i18n.columns.sell,
+    i18n.columns.fee,
+    i18n.columns.actual,
+    i18n.columns.projected,
+    i18n.columns.margin,
+  ];
+  const textColumns = showLedger ? 4 : 3;
+  const cell = "px-1.5 whitespace-nowrap overflow-hidden text-ellipsis";
+  const num = `${cell} text-right tabular-nums`;
+
+  return (
+    <>
+      {pages.map((pageRows, index) => (
+        <div
+          key={index}
+          data-statement-page
+          className="bg-white text-slate-900 flex flex-col"
+          style={{
+            width: STATEMENT_PAGE.width,
+            height: STATEMENT_PAGE.height,
+            padding: 48,
+            fontFamily: FONT_FAMILY,
+          }}
+        >
+          {index === 0 && (
+            <div className="mb-6">
+              <div className="text-[11px] font-black tracking-[0.28em] uppercase text-slate-500">
+                AuraGold
+              </div>
+              <div className="mt-1 text-2xl font-black">
+                [{ledgerName}] {i18n.title}
+              </div>
+              <div className="mt-2 text-xs text-slate-600">
+                {i18n.period}: {period} · {tr.report.date}: {generatedAt}
+              </div>
+              <div className="mt-5 grid grid-cols-3 gap-2">
+                {figures.map(([label, value]) => (
+                  <div
+                    key={label}
+                    className="rounded-lg border border-slate-200 px-3 py-2"
+                  >
+                    <div className="text-[9px] font-bold uppercase tracking-widest text-slate-500">
+                      {label}
+                    </div>
+                    <div className="mt-0.5 text-sm font-black tabular-nums">
+                      {value}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <table className="w-full table-fixed text-[10px] border-collapse">
+            <thead>
+              <tr
+                className="border-b-2 border-slate-800 text-left font-bold"
+                style={{ height: ROW_HEIGHT }}
+              >
+                {columns.map((label, i) => (
+                  <th key={label} className={i < textColumns ? cell : num}>
+                    {label}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {pageRows.map((row, i) =>
+                row.kind === "entry" ? (
+                  <tr
+                    key={row.entry.record.id + i}
+                    className="border-b border-slate-200"
+                    style={{ height: ROW_HEIGHT }}
+                  >
+                    <td className={cell}>{day(row.entry.record.timestamp)}</td>
+                    {showLedger && (
+                      <td className={cell}>{row.entry.ledgerName}</td>
+                    )}
+                    <td className={cell}>{tr.sides[row.entry.record.side]}</td>
+                    <td className={cell}>
+                      {tr.metals[row.entry.record.metal]}
+                    </td>
+                    <td className={num}>{weight(row.entry.record.grams)}</td>
+                    <td className={num}>{price(row.entry.record.costPrice)}</td>
+                    <td className={num}>
+                      {row.entry.record.side === "buy"
+                        ? "—"
+                        : price(row.entry.record.sellingPrice)}
+                    </td>
+                    <td className={num}>{money(row.entry.fee)}</td>
+                    <td className={num}>
+                      {row.entry.record.side === "buy"
+                        ? "—"
+                        : money(row.entry.record.actualProfit)}
+                    </td>
+                    <td className={num}>
+                      {money(row.entry.record.projectedProfit)}
+                    </td>
+                    <td className={num}>
+                      {row.entry.record.side === "buy"
+                        ? "—"
+                        : `${row.entry.record.profitMargin.toFixed(2)}%`}
+                    </td>
+                  </tr>
+                ) : (
+                  <tr
+                    key={`subtotal-${row.subtotal.month}`}
+                    className="border-b border-slate-400 bg-slate-100 font-bold"
+                    style={{ height: ROW_HEIGHT }}
+                  >
+                    <td className={cell} colSpan={textColumns}>
+                      {i18n.subtotal
+                        .replace("{month}", row.subtotal.month)
+                        .replace("{count}", String(row.subtotal.count))}
+                    </td>
+                    <td className={num}>{weight(row.subtotal.grams)}</td>
+                    <td className={cell} colSpan={2} />
+                    <td className={num}>{money(row.subtotal.fees)}</td>
+                    <td className={num}>{money(row.subtotal.actualProfit)}</td>
+                    <td className={num}>
+                      {money(row.subtotal.projectedProfit)}
+                    </td>
+                    <td className={cell} />
+                  </tr>
+                ),
+              )}
+            </tbody>
+          </table>
+          {rows.length === 0 && (
+            <div className="mt-4 text-xs text-slate-500">{i18n.empty}</div>
+          )}
+
+          <div className="mt-auto pt-4 flex justify-between text-[9px] text-slate-500">
+            <span>
+              {tr.report.date}: {generatedAt}
+            </span>
+            <span>
+              {i18n.page
+                .replace("{page}", String(index + 1))
+                .replace("{pages}", String(pages.length))}
+            </span>
+          </div>
+        </div>
+      ))}
+    </>
+  );
+};
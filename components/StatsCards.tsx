@@ -1,10 +1,14 @@
 import React from "react";
-import { TradeSummary } from "../types";
+import { Metal, TradeSummary, WeightUnit } from "../types";
 import { translations, Language } from "../translations";
+import { formatWeight, fromGrams, pricePerUnit } from "../utils/units";
+import { formatMoney } from "../utils/currency";
+import { heldMetals } from "../utils/summary";
 
 interface StatsCardsProps {
   summary: TradeSummary;
   lang: Language;
+  displayUnit: WeightUnit;
   onNewTrade?: () => void;
   newTradeDisabled?: boolean;
 }
@@ -12,13 +16,21 @@ interface StatsCardsProps {
 export const StatsCards: React.FC<StatsCardsProps> = ({
   summary,
   lang,
+  displayUnit,
   onNewTrade,
   newTradeDisabled,
 }) => {
   const t = translations[lang].stats;
   const tf = translations[lang].form;
+  const metalNames = translations[lang].metals;
+  const unitSuffix = translations[lang].unitSuffix[displayUnit];
+  const money = (value: number) => formatMoney(value, summary.currency, lang);
+  const metals = Object.keys(summary.byMetal) as Metal[];
+  const showByMetal =
+    metals.length > 1 || (metals.length === 1 && metals[0] !== "gold");
+  const held = heldMetals(summary);
   return (
-    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4 mb-8">
+    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-6 gap-4 mb-8">
       <button
         type="button"
         onClick={onNewTrade}
@@ -74,11 +86,7 @@ export const StatsCards: React.FC<StatsCardsProps> = ({
           </div>
         </div>
         <h3 className="text-3xl font-bold text-[var(--accent)] font-mono tracking-tight">
-          ￥
-          {summary.totalProfit.toLocaleString(undefined, {
-            minimumFractionDigits: 2,
-            maximumFractionDigits: 2,
-          })}
+          {money(summary.totalProfit)}
         </h3>
       </div>
 
@@ -105,11 +113,7 @@ export const StatsCards: React.FC<StatsCardsProps> = ({
           </div>
         </div>
         <h3 className="text-3xl font-bold text-[var(--info)] font-mono tracking-tight">
-          ￥
-          {summary.totalProjectedProfit.toLocaleString(undefined, {
-            minimumFractionDigits: 2,
-            maximumFractionDigits: 2,
-          })}
+          {money(summary.totalProjectedProfit)}
         </h3>
       </div>
 
@@ -140,11 +144,8 @@ export const StatsCards: React.FC<StatsCardsProps> = ({
         <h3
           className={`text-3xl font-bold font-mono tracking-tight ${summary.profitDifference >= 0 ? "text-[var(--success)]" : "text-[var(--danger)]"}`}
         >
-          {summary.profitDifference >= 0 ? "+" : ""}￥
-          {summary.profitDifference.toLocaleString(undefined, {
-            minimumFractionDigits: 2,
-            maximumFractionDigits: 2,
-          })}
+          {summary.profitDifference >= 0 ? "+" : ""}
+          {money(summary.profitDifference)}
         </h3>
       </div>
 
@@ -171,13 +172,133 @@ export const StatsCards: React.FC<StatsCardsProps> = ({
           </div>
         </div>
         <h3 className="text-3xl font-bold text-[var(--text)] font-mono tracking-tight">
-          ￥
-          {summary.avgCostPrice.toLocaleString(undefined, {
-            minimumFractionDigits: 2,
-            maximumFractionDigits: 2,
-          })}
+          {money(pricePerUnit(summary.avgCostPrice, displayUnit))}
         </h3>
       </div>
+
+      <div className="bg-[var(--panel)] border border-[var(--border)] p-6 rounded-2xl shadow-xl hover:border-[var(--accent-2)]/50 transition-colors">
+        <div className="flex items-center justify-between mb-2">
+          <p className="text-[var(--muted)] text-[10px] font-bold uppercase tracking-widest">
+            {t.holdings}
+          </p>
+          <div className="p-2 bg-[var(--accent-2)]/10 rounded-lg">
+            <svg
+              xmlns="http://www.w3.org/2000/svg"
+              className="h-4 w-4 text-[var(--accent-2)]"
+              fill="none"
+              viewBox="0 0 24 24"
+              stroke="currentColor"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M20 7l-8-4-8 4m16 0l-8 4m8-4v10l-8 4m0-10L4 7m8 4v10M4 7v10l8 4"
+              />
+            </svg>
+          </div>
+        </div>
+        {held.length > 1 ? (
+          <div className="space-y-1">
+            {held.map((metal) => {
+              const m = summary.byMetal[metal]!;
+              return (
+                <div
+                  key={metal}
+                  className="flex items-baseline justify-between gap-3"
+                >
+                  <span className="text-xs font-black text-[var(--text)]">
+                    {metalNames[metal]}
+                  </span>
+                  <span className="text-right font-mono">
+                    <span className="text-lg font-bold text-[var(--accent-2)]">
+                      {formatWeight(m.holdingGrams, displayUnit, unitSuffix)}
+                    </span>
+                    <span className="block text-[10px] text-[var(--muted-2)]">
+                      {t.holdingAvgCost}:{" "}
+                      {money(pricePerUnit(m.holdingAvgCost, displayUnit))}
+                    </span>
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        ) : (
+          <>
+            <h3 className="text-3xl font-bold text-[var(--accent-2)] font-mono tracking-tight">
+              {fromGrams(summary.holdingGrams, displayUnit).toLocaleString(
+                undefined,
+                {
+                  minimumFractionDigits: 2,
+                  maximumFractionDigits: displayUnit === "g" ? 2 : 4,
+                },
+              )}
+              {unitSuffix}
+            </h3>
+            <p className="mt-1 text-[10px] text-[var(--muted-2)] font-mono">
+              {t.holdingAvgCost}:{" "}
+              {money(pricePerUnit(summary.holdingAvgCost, displayUnit))}
+            </p>
+          </>
+        )}
+        {summary.holdingGrams - summary.unpricedGrams > 0 && (
+          <p className="text-[10px] text-[var(--muted-2)] font-mono">
+            {t.marketValue}: {money(summary.marketValue)} · {t.unrealized}:{" "}
+            <span
+              className={
+                summary.unrealizedProfit >= 0
+                  ? "text-[var(--success)]"
+                  : "text-[var(--danger)]"
+              }
+            >
+              {summary.unrealizedProfit >= 0 ? "+" : ""}
+              {money(summary.unrealizedProfit)}
+            </span>
+          </p>
+        )}
+        {summary.unpricedGrams > 0 && (
+          <p className="text-[10px] text-[var(--muted-2)] font-mono">
+            {t.unpriced.replace(
+              "{weight}",
+              formatWeight(summary.unpricedGrams, displayUnit, unitSuffix),
+            )}
+          </p>
+        )}
+      </div>
+
+      {showByMetal && (
+        <div className="col-span-full bg-[var(--panel)] border border-[var(--border)] p-4 rounded-2xl shadow-xl">
+          <p className="text-[var(--muted)] text-[10px] font-bold uppercase tracking-widest mb-3">
+            {t.byMetal}
+          </p>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            {metals.map((metal) => {
+              const m = summary.byMetal[metal]!;
+              return (
+                <div
+                  key={metal}
+                  className="bg-[var(--panel-2)] border border-[var(--border)] rounded-xl px-4 py-3"
+                >
+                  <div className="text-xs font-black text-[var(--text)]">
+                    {metalNames[metal]}
+                  </div>
+                  <div
+                    className={`mt-1 text-lg font-bold font-mono ${m.totalProfit >= 0 ? "text-[var(--success)]" : "text-[var(--danger)]"}`}
+                  >
+                    {money(m.totalProfit)}
+                  </div>
+                  <div className="text-[10px] text-[var(--muted-2)] font-mono">
+                    {t.traded}{" "}
+                    {formatWeight(m.totalGrams, displayUnit, unitSuffix)} ·{" "}
+                    {t.holdings}{" "}
+                    {formatWeight(m.holdingGrams, displayUnit, unitSuffix)}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
     </div>
   );
 };
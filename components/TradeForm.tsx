@@ -1,69 +1,387 @@
 import React, { useState } from "react";
-import { TradeRecord } from "../types";
+import {
+  CostBasisMethod,
+  Currency,
+  FeePreset,
+  FeeSchedule,
+  FxRates,
+  Metal,
+  PriceQuote,
+  TradeRecord,
+  TradeSide,
+  WeightUnit,
+} from "../types";
 import { translations, Language } from "../translations";
+import {
+  METALS,
+  OpenLot,
+  matchSell,
+  matchSpecificLots,
+  matchedCostPrice,
+} from "../utils/positions";
+import { applyFeePreset, DEFAULT_FEE_SCHEDULE } from "../utils/fees";
+import { deriveTradeFields } from "../utils/calc";
+import {
+  WEIGHT_UNITS,
+  formatWeight,
+  fromGrams,
+  pricePerGram,
+  pricePerUnit,
+  toGrams,
+} from "../utils/units";
+import { CURRENCIES, crossRate, formatMoney } from "../utils/currency";
+import { generateId } from "../utils/id";
 
-// Robust ID fallback
-const generateId = () => {
-  if (typeof crypto !== "undefined" && crypto.randomUUID) {
-    return crypto.randomUUID();
-  }
-  return `rec-${Date.now()}-${Math.floor(Math.random() * 1000000)}`;
+const SIDES: TradeSide[] = ["roundTrip", "buy", "sell"];
+
+// Drops float noise picked up when converting between units.
+const toField = (value: number) => String(Number(value.toFixed(6)));
+
+const convertField = (
+  value: string,
+  convert: (n: number) => number,
+): string => {
+  const n = parseFloat(value);
+  return isNaN(n) ? value : toField(convert(n));
 };
 
+// Value for a datetime-local input, which expects local wall-clock time.
+const toDateTimeInput = (timestamp: number) => {
+  const d = new Date(timestamp);
+  d.setMinutes(d.getMinutes() - d.getTimezoneOffset());
+  return d.toISOString().slice(0, 16);
+};
+
+// A live quote as a price field in the given currency and entry unit.
+const quoteField = (
+  quote: PriceQuote,
+  currency: Currency,
+  unit: WeightUnit,
+  fxRates: FxRates,
+) =>
+  toField(
+    pricePerUnit(
+      quote.price * crossRate(quote.currency, currency, fxRates),
+      unit,
+    ),
+  );
+
+const parseTags = (value: string) => [
+  ...new Set(
+    value
+      .split(/[,，]/)
+      .map((tag) => tag.trim())
+      .filter(Boolean),
+  ),
+];
+
+// Record fields the form sets or recalculates. Editing keeps every other
+// field, such as the plan a buy came from or ones written by a newer
+// version, and recorded mismatches go since the profits are recomputed.
+const FORM_FIELDS = new Set<string>([
+  "side",
+  "metal",
+  "grams",
+  "costPrice",
+  "sellingPrice",
+  "desiredPrice",
+  "fees",
+  "actualProfit",
+  "projectedProfit",
+  "profitMargin",
+  "timestamp",
+  "lotMatches",
+  "channel",
+  "currency",
+  "fxRate",
+  "note",
+  "tags",
+  "mismatches",
+]);
+
+const keptFields = (record: TradeRecord) =>
+  Object.fromEntries(
+    Object.entries(record).filter(([k]) => !FORM_FIELDS.has(k)),
+  );
+
+const feeFields = (fees: FeeSchedule) => ({
+  buyRate: String(fees.buyRate),
+  sellRate: String(fees.sellRate),
+  fixedFee: String(fees.fixed),
+  minimumFee: String(fees.minimum),
+});
+
 interface TradeFormProps {
   onAdd: (record: TradeRecord) => void;
+  openLots: OpenLot[];
+  costBasisMethod: CostBasisMethod;
+  feePresets: FeePreset[];
+  displayUnit: WeightUnit;
+  baseCurrency: Currency;
+  fxRates: FxRates;
+  liveQuotes: Partial<Record<Metal, PriceQuote>>;
   lang: Language;
   onSubmitted?: () => void;
+  // When set, the form edits this record in place instead of adding a new one.
+  initialRecord?: TradeRecord;
+  // For an edited buy leg, when the first sell closed against it.
+  closingSellAt?: number;
+  onUpdate?: (record: TradeRecord) => void;
 }
 
 export const TradeForm: React.FC<TradeFormProps> = ({
   onAdd,
+  openLots,
+  costBasisMethod,
+  feePresets,
+  displayUnit,
+  baseCurrency,
+  fxRates,
+  liveQuotes,
   lang,
   onSubmitted,
+  initialRecord,
+  closingSellAt,
+  onUpdate,
 }) => {
   const t = translations[lang].form;
-  const [formData, setFormData] = useState({
-    grams: "0",
-    costPrice: "0",
-    sellingPrice: "0",
-    handlingFeeRate: "0.004",
-    desiredPrice: "",
-  });
+  const sideLabels = translations[lang].sides;
+  const isEditing = !!initialRecord;
+  const [side, setSide] = useState<TradeSide>(
+    initialRecord?.side ?? "roundTrip",
+  );
+  const [error, setError] = useState("");
+  // Inputs are in the entry unit; records are always stored per gram.
+  const [unit, setUnit] = useState<WeightUnit>(displayUnit);
+  const unitSuffix = translations[lang].unitSuffix[unit];
+  const [formData, setFormData] = useState(() =>
+    initialRecord
+      ? {
+          grams: toField(fromGrams(initialRecord.grams, unit)),
+          costPrice: toField(pricePerUnit(initialRecord.costPrice, unit)),
+          sellingPrice: toField(pricePerUnit(initialRecord.sellingPrice, unit)),
+          desiredPrice: toField(pricePerUnit(initialRecord.desiredPrice, unit)),
+          ...feeFields(initialRecord.fees),
+        }
+      : {
+          grams: "0",
+          costPrice: "0",
+          sellingPrice: liveQuotes.gold
+            ? quoteField(liveQuotes.gold, baseCurrency, unit, fxRates)
+            : "0",
+          desiredPrice: "",
+          ...feeFields(DEFAULT_FEE_SCHEDULE),
+        },
+  );
+
+  const [defaultTradedAt] = useState(() =>
+    toDateTimeInput(initialRecord?.timestamp ?? Date.now()),
+  );
+  const [tradedAt, setTradedAt] = useState(defaultTradedAt);
+  // Untouched pickers keep the exact original (or current) instant.
+  const timestamp =
+    tradedAt === defaultTradedAt
+      ? (initialRecord?.timestamp ?? Date.now())
+      : new Date(tradedAt).getTime();
+
+  const [metal, setMetal] = useState<Metal>(initialRecord?.metal ?? "gold");
+  // Sells can only close lots of the metal being sold that were already
+  // bought by the time of the sale.
+  const metalLots = openLots.filter(
+    (l) => l.metal === metal && !(l.timestamp > timestamp),
+  );
+  const [channel, setChannel] = useState(initialRecord?.channel ?? "");
+  // Prices are entered in the trade currency; the FX rate converts them to
+  // the ledger's base currency.
+  const [currency, setCurrency] = useState<Currency>(
+    initialRecord?.currency ?? baseCurrency,
+  );
+  const [fxRate, setFxRate] = useState(() =>
+    toField(
+      initialRecord?.fxRate ?? crossRate(currency, baseCurrency, fxRates),
+    ),
+  );
+  const isForeign = currency !== baseCurrency;
+  const liveQuote = liveQuotes[metal];
+  const [note, setNote] = useState(initialRecord?.note ?? "");
+  const [tags, setTags] = useState(initialRecord?.tags?.join(", ") ?? "");
+
+  const changeCurrency = (next: Currency) => {
+    setCurrency(next);
+    setFxRate(toField(crossRate(next, baseCurrency, fxRates)));
+    setError("");
+  };
+  const channelNames = feePresets.map((p) => p.name);
+  if (channel && !channelNames.includes(channel)) channelNames.push(channel);
+
+  const applyPreset = (name: string, forSide: TradeSide = side) => {
+    setChannel(name);
+    const preset = feePresets.find((p) => p.name === name);
+    if (!preset) return;
+    setFormData((prev) => ({
+      ...prev,
+      ...feeFields(
+        applyFeePreset(
+          {
+            buyRate: parseFloat(prev.buyRate) || 0,
+            sellRate: parseFloat(prev.sellRate) || 0,
+            fixed: parseFloat(prev.fixedFee) || 0,
+            minimum: parseFloat(prev.minimumFee) || 0,
+          },
+          preset,
+          forSide,
+        ),
+      ),
+    }));
+  };
+
+  const [lotPicks, setLotPicks] = useState<Record<string, string>>(() =>
+    Object.fromEntries(
+      (initialRecord?.lotMatches ?? []).map((m) => [
+        m.buyId,
+        toField(fromGrams(m.grams, unit)),
+      ]),
+    ),
+  );
+  const picksLots = side === "sell" && costBasisMethod === "specific";
+  const parsedPicks: Record<string, number> = {};
+  for (const lot of metalLots) {
+    parsedPicks[lot.buyId] = toGrams(
+      parseFloat(lotPicks[lot.buyId]) || 0,
+      unit,
+    );
+  }
+  const pickedGrams = metalLots.reduce(
+    (acc, l) => acc + parsedPicks[l.buyId],
+    0,
+  );
+
+  const openGrams = metalLots.reduce((acc, l) => acc + l.remainingGrams, 0);
+  // Grams of an edited buy leg that later sells have already closed.
+  const closedGrams =
+    initialRecord?.side === "buy"
+      ? initialRecord.grams -
+        (openLots.find((l) => l.buyId === initialRecord.id)?.remainingGrams ??
+          0)
+      : 0;
+
+  const changeUnit = (next: WeightUnit) => {
+    const grams = (n: number) => fromGrams(toGrams(n, unit), next);
+    const price = (n: number) => pricePerUnit(pricePerGram(n, unit), next);
+    setFormData((prev) => ({
+      ...prev,
+      grams: convertField(prev.grams, grams),
+      costPrice: convertField(prev.costPrice, price),
+      sellingPrice: convertField(prev.sellingPrice, price),
+      desiredPrice: convertField(prev.desiredPrice, price),
+    }));
+    setLotPicks((prev) =>
+      Object.fromEntries(
+        Object.keys(prev).map((id) => [id, convertField(prev[id], grams)]),
+      ),
+    );
+    setUnit(next);
+  };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    const g = parseFloat(formData.grams);
-    const cp = parseFloat(formData.costPrice);
-    const sp = parseFloat(formData.sellingPrice);
-    const hfr = parseFloat(formData.handlingFeeRate);
-    const dp = parseFloat(formData.desiredPrice) || sp;
+    const g = picksLots
+      ? pickedGrams
+      : toGrams(parseFloat(formData.grams), unit);
+    const fees: FeeSchedule = {
+      buyRate: side === "sell" ? 0 : parseFloat(formData.buyRate) || 0,
+      sellRate: parseFloat(formData.sellRate) || 0,
+      fixed: parseFloat(formData.fixedFee) || 0,
+      minimum: parseFloat(formData.minimumFee) || 0,
+    };
+    let cp =
+      side === "sell" ? 0 : pricePerGram(parseFloat(formData.costPrice), unit);
+    const sp =
+      side === "buy"
+        ? 0
+        : pricePerGram(parseFloat(formData.sellingPrice), unit);
+    const dp =
+      pricePerGram(parseFloat(formData.desiredPrice), unit) ||
+      (side === "buy" ? cp : sp);
+
+    const rate = isForeign ? parseFloat(fxRate) : 1;
 
     if (isNaN(g) || isNaN(cp) || isNaN(sp) || g < 0 || cp < 0 || sp < 0) return;
+    if (!(rate > 0)) return;
+    if (isNaN(timestamp)) {
+      setError(t.invalidDate);
+      return;
+    }
+    if (timestamp > Date.now()) {
+      setError(t.futureDate);
+      return;
+    }
 
-    const actualProfit = g * (sp - cp) - sp * hfr * g;
-    const projectedProfit = g * (dp - cp) - dp * hfr * g;
-    const margin = (actualProfit / (g * cp)) * 100;
+    let lotMatches: TradeRecord["lotMatches"];
+    if (side === "sell") {
+      const matches = picksLots
+        ? matchSpecificLots(metalLots, parsedPicks)
+        : matchSell(metalLots, g, costBasisMethod);
+      if (!matches) {
+        setError(openGrams > 0 ? t.exceedsHoldings : t.noHoldings);
+        return;
+      }
+      lotMatches = matches;
+      // Lots are costed in the base currency.
+      cp = matchedCostPrice(matches) / rate;
+    }
+    if (side === "buy" && g < closedGrams) {
+      setError(t.belowClosed);
+      return;
+    }
+    if (
+      side === "buy" &&
+      closingSellAt !== undefined &&
+      timestamp > closingSellAt
+    ) {
+      setError(t.afterClosingSell);
+      return;
+    }
 
-    const newRecord: TradeRecord = {
-      id: generateId(),
+    const trade = {
+      side,
       grams: g,
       costPrice: cp,
       sellingPrice: sp,
-      handlingFeeRate: hfr,
-      actualProfit,
       desiredPrice: dp,
-      projectedProfit,
-      profitMargin: margin,
-      timestamp: Date.now(),
+      fees,
+    };
+    const tagList = parseTags(tags);
+    const newRecord: TradeRecord = {
+      ...(initialRecord ? keptFields(initialRecord) : {}),
+      id: initialRecord?.id ?? generateId(),
+      metal,
+      ...trade,
+      ...deriveTradeFields(trade),
+      timestamp,
+      ...(lotMatches ? { lotMatches } : {}),
+      ...(channel ? { channel } : {}),
+      ...(isForeign ? { currency, fxRate: rate } : {}),
+      ...(note.trim() ? { note: note.trim() } : {}),
+      ...(tagList.length > 0 ? { tags: tagList } : {}),
     };
 
-    onAdd(newRecord);
+    if (initialRecord) {
+      onUpdate?.(newRecord);
+    } else {
+      onAdd(newRecord);
+    }
+    setError("");
+    setLotPicks({});
+    setChannel("");
+    setNote("");
+    setTags("");
     setFormData({
       grams: "",
       costPrice: "",
       sellingPrice: "",
-      handlingFeeRate: "0.004",
       desiredPrice: "",
+      ...feeFields(DEFAULT_FEE_SCHEDULE),
     });
     onSubmitted?.();
   };
@@ -71,6 +389,7 @@ export const TradeForm: React.FC<TradeFormProps> = ({
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const val = parseFloat(e.target.value);
     if (val < 0) return;
+    setError("");
     setFormData((prev) => ({ ...prev, [e.target.name]: e.target.value }));
   };
 
@@ -92,26 +411,239 @@ export const TradeForm: React.FC<TradeFormProps> = ({
             d="M12 9v3m0 0v3m0-3h3m-3 0H9m12 0a9 9 0 11-18 0 9 9 0 0118 0z"
           />
         </svg>
-        {t.newTrade}
+        {isEditing ? t.editTrade : t.newTrade}
       </h2>
       <form onSubmit={handleSubmit} className="space-y-4">
+        <div>
+          <label className="block text-[var(--muted)] text-[10px] font-bold uppercase tracking-wider mb-1.5">
+            {t.side}
+          </label>
+          <div className="grid grid-cols-3 gap-2">
+            {SIDES.map((s) => (
+              <button
+                key={s}
+                type="button"
+                disabled={isEditing && side !== s}
+                onClick={() => {
+                  setSide(s);
+                  // The channel's rate moves to the legs the new side trades.
+                  if (channel) applyPreset(channel, s);
+                  setError("");
+                }}
+                className={`px-4 py-2 rounded-xl text-xs font-bold uppercase tracking-widest border transition-colors ${
+                  side === s
+                    ? "border-[var(--accent)] bg-[var(--accent)]/10 text-[var(--accent)]"
+                    : "border-[var(--border-2)] text-[var(--muted)] hover:text-[var(--text)] disabled:opacity-40 disabled:hover:text-[var(--muted)]"
+                }`}
+              >
+                {sideLabels[s]}
+              </button>
+            ))}
+          </div>
+          {side === "sell" && (
+            <p className="mt-2 text-[11px] text-[var(--muted-2)]">
+              {t.available.replace(
+                "{weight}",
+                formatWeight(openGrams, unit, unitSuffix),
+              )}{" "}
+              · {t.costBasis}: {translations[lang].costBasis[costBasisMethod]}
+            </p>
+          )}
+        </div>
+
+        <div>
+          <label className="block text-[var(--muted)] text-[10px] font-bold uppercase tracking-wider mb-1.5">
+            {t.tradedAt}
+          </label>
+          <input
+            required
+            type="datetime-local"
+            value={tradedAt}
+            max={toDateTimeInput(Date.now())}
+            onChange={(e) => {
+              setError("");
+              setLotPicks({});
+              setTradedAt(e.target.value);
+            }}
+            className="w-full bg-[var(--input-bg)] border border-[var(--border-2)] rounded-xl px-4 py-3 text-[var(--input-text)] focus:ring-2 focus:ring-[var(--accent)] outline-none transition-all"
+          />
+        </div>
+
         <div className="grid grid-cols-2 gap-4">
-          <div className="col-span-1">
+          <div>
             <label className="block text-[var(--muted)] text-[10px] font-bold uppercase tracking-wider mb-1.5">
-              {t.grams}
+              {t.metal}
+            </label>
+            <select
+              value={metal}
+              disabled={isEditing}
+              onChange={(e) => {
+                setMetal(e.target.value as Metal);
+                setLotPicks({});
+                setError("");
+              }}
+              className="w-full bg-[var(--input-bg)] border border-[var(--border-2)] rounded-xl px-4 py-3 text-[var(--input-text)] focus:ring-2 focus:ring-[var(--accent)] outline-none transition-all disabled:opacity-60"
+            >
+              {METALS.map((m) => (
+                <option key={m} value={m}>
+                  {translations[lang].metals[m]}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-[var(--muted)] text-[10px] font-bold uppercase tracking-wider mb-1.5">
+              {t.channel}
+            </label>
+            <select
+              value={channel}
+              onChange={(e) => applyPreset(e.target.value)}
+              className="w-full bg-[var(--input-bg)] border border-[var(--border-2)] rounded-xl px-4 py-3 text-[var(--input-text)] focus:ring-2 focus:ring-[var(--accent)] outline-none transition-all"
+            >
+              <option value="">{t.customChannel}</option>
+              {channelNames.map((name) => (
+                <option key={name} value={name}>
+                  {name}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-[var(--muted)] text-[10px] font-bold uppercase tracking-wider mb-1.5">
+              {t.currency}
+            </label>
+            <select
+              value={currency}
+              onChange={(e) => changeCurrency(e.target.value as Currency)}
+              className="w-full bg-[var(--input-bg)] border border-[var(--border-2)] rounded-xl px-4 py-3 text-[var(--input-text)] focus:ring-2 focus:ring-[var(--accent)] outline-none transition-all"
+            >
+              {CURRENCIES.map((c) => (
+                <option key={c} value={c}>
+                  {translations[lang].currencies[c]}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-[var(--muted)] text-[10px] font-bold uppercase tracking-wider mb-1.5">
+              {t.fxRate
+                .replace("{currency}", currency)
+                .replace("{base}", baseCurrency)}
             </label>
             <input
-              required
+              required={isForeign}
               type="number"
               min="0"
               step="0.0001"
-              name="grams"
-              value={formData.grams}
-              onChange={handleChange}
-              placeholder="0"
-              className="w-full bg-[var(--input-bg)] border border-[var(--border-2)] rounded-xl px-4 py-3 text-[var(--input-text)] focus:ring-2 focus:ring-[var(--accent)] outline-none transition-all placeholder:text-[var(--placeholder)]"
+              value={isForeign ? fxRate : "1"}
+              disabled={!isForeign}
+              onChange={(e) => {
+                const val = parseFloat(e.target.value);
+                if (val < 0) return;
+                setError("");
+                setFxRate(e.target.value);
+              }}
+              className="w-full bg-[var(--input-bg)] border border-[var(--border-2)] rounded-xl px-4 py-3 text-[var(--input-text)] focus:ring-2 focus:ring-[var(--accent)] outline-none transition-all disabled:opacity-60"
             />
           </div>
+        </div>
+
+        {picksLots && (
+          <div>
+            <label className="block text-[var(--muted)] text-[10px] font-bold uppercase tracking-wider mb-1.5">
+              {t.pickLots}
+            </label>
+            <div className="max-h-48 overflow-auto rounded-xl border border-[var(--border-2)] divide-y divide-[var(--border)]">
+              {metalLots.map((lot) => (
+                <div
+                  key={lot.buyId}
+                  className="flex items-center justify-between gap-3 px-4 py-2"
+                >
+                  <div className="min-w-0 text-xs">
+                    <div className="font-semibold text-[var(--text)]">
+                      {new Date(lot.timestamp).toLocaleDateString()} ·{" "}
+                      {formatMoney(
+                        pricePerUnit(lot.costPrice, unit),
+                        baseCurrency,
+                        lang,
+                      )}
+                    </div>
+                    <div className="text-[10px] text-[var(--muted-2)] font-mono">
+                      {t.lotRemaining.replace(
+                        "{weight}",
+                        formatWeight(lot.remainingGrams, unit, unitSuffix),
+                      )}
+                    </div>
+                  </div>
+                  <input
+                    type="number"
+                    min="0"
+                    max={fromGrams(lot.remainingGrams, unit)}
+                    step="0.0001"
+                    value={lotPicks[lot.buyId] ?? ""}
+                    onChange={(e) => {
+                      const val = parseFloat(e.target.value);
+                      if (val < 0) return;
+                      setError("");
+                      setLotPicks((prev) => ({
+                        ...prev,
+                        [lot.buyId]: e.target.value,
+                      }));
+                    }}
+                    placeholder="0"
+                    className="w-28 bg-[var(--input-bg)] border border-[var(--border-2)] rounded-xl px-3 py-2 text-sm text-[var(--input-text)] focus:ring-2 focus:ring-[var(--accent)] outline-none transition-all placeholder:text-[var(--placeholder)]"
+                  />
+                </div>
+              ))}
+              {metalLots.length === 0 && (
+                <div className="px-4 py-3 text-xs text-[var(--muted-2)]">
+                  {t.noHoldings}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="col-span-1">
+            <label className="block text-[var(--muted)] text-[10px] font-bold uppercase tracking-wider mb-1.5">
+              {t.grams}
+            </label>
+            <div className="flex gap-2">
+              <input
+                required
+                type="number"
+                min="0"
+                step="0.0001"
+                name="grams"
+                value={
+                  picksLots
+                    ? toField(fromGrams(pickedGrams, unit))
+                    : formData.grams
+                }
+                readOnly={picksLots}
+                onChange={handleChange}
+                placeholder="0"
+                className="min-w-0 flex-1 bg-[var(--input-bg)] border border-[var(--border-2)] rounded-xl px-4 py-3 text-[var(--input-text)] focus:ring-2 focus:ring-[var(--accent)] outline-none transition-all placeholder:text-[var(--placeholder)]"
+              />
+              <select
+                value={unit}
+                onChange={(e) => changeUnit(e.target.value as WeightUnit)}
+                aria-label={t.unit}
+                title={t.unit}
+                className="bg-[var(--input-bg)] border border-[var(--border-2)] rounded-xl px-2 py-3 text-sm text-[var(--input-text)] focus:ring-2 focus:ring-[var(--accent)] outline-none transition-all"
+              >
+                {WEIGHT_UNITS.map((u) => (
+                  <option key={u} value={u}>
+                    {translations[lang].units[u]}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
           <div className="col-span-1">
             <label className="block text-[var(--muted)] text-[10px] font-bold uppercase tracking-wider mb-1.5">
               {t.feeRate}
@@ -121,8 +653,8 @@ export const TradeForm: React.FC<TradeFormProps> = ({
               type="number"
               min="0"
               step="0.0001"
-              name="handlingFeeRate"
-              value={formData.handlingFeeRate}
+              name="sellRate"
+              value={formData.sellRate}
               onChange={handleChange}
               placeholder="0.004"
               className="w-full bg-[var(--input-bg)] border border-[var(--border-2)] rounded-xl px-4 py-3 text-[var(--input-text)] focus:ring-2 focus:ring-[var(--accent)] outline-none transition-all placeholder:text-[var(--placeholder)]"
@@ -130,18 +662,36 @@ export const TradeForm: React.FC<TradeFormProps> = ({
           </div>
         </div>
 
-        <div className="grid grid-cols-2 gap-4">
+        <div
+          className={`grid gap-4 ${side === "sell" ? "grid-cols-2" : "grid-cols-3"}`}
+        >
+          {side !== "sell" && (
+            <div>
+              <label className="block text-[var(--muted)] text-[10px] font-bold uppercase tracking-wider mb-1.5">
+                {t.buyFeeRate}
+              </label>
+              <input
+                type="number"
+                min="0"
+                step="0.0001"
+                name="buyRate"
+                value={formData.buyRate}
+                onChange={handleChange}
+                placeholder="0"
+                className="w-full bg-[var(--input-bg)] border border-[var(--border-2)] rounded-xl px-4 py-3 text-[var(--input-text)] focus:ring-2 focus:ring-[var(--accent)] outline-none transition-all placeholder:text-[var(--placeholder)]"
+              />
+            </div>
+          )}
           <div>
             <label className="block text-[var(--muted)] text-[10px] font-bold uppercase tracking-wider mb-1.5">
-              {t.costPrice}
+              {t.fixedFee}
             </label>
             <input
-              required
               type="number"
               min="0"
               step="0.01"
-              name="costPrice"
-              value={formData.costPrice}
+              name="fixedFee"
+              value={formData.fixedFee}
               onChange={handleChange}
               placeholder="0"
               className="w-full bg-[var(--input-bg)] border border-[var(--border-2)] rounded-xl px-4 py-3 text-[var(--input-text)] focus:ring-2 focus:ring-[var(--accent)] outline-none transition-all placeholder:text-[var(--placeholder)]"
@@ -149,22 +699,96 @@ export const TradeForm: React.FC<TradeFormProps> = ({
           </div>
           <div>
             <label className="block text-[var(--muted)] text-[10px] font-bold uppercase tracking-wider mb-1.5">
-              {t.sellingPrice}
+              {t.minimumFee}
             </label>
             <input
-              required
               type="number"
               min="0"
               step="0.01"
-              name="sellingPrice"
-              value={formData.sellingPrice}
+              name="minimumFee"
+              value={formData.minimumFee}
               onChange={handleChange}
               placeholder="0"
-              className="w-full bg-[var(--input-bg)] border border-[var(--border-2)] rounded-xl px-4 py-3 text-[var(--input-text)] focus:ring-2 focus:ring-[var(--success)] outline-none transition-all placeholder:text-[var(--placeholder)]"
+              className="w-full bg-[var(--input-bg)] border border-[var(--border-2)] rounded-xl px-4 py-3 text-[var(--input-text)] focus:ring-2 focus:ring-[var(--accent)] outline-none transition-all placeholder:text-[var(--placeholder)]"
             />
           </div>
         </div>
 
+        <div
+          className={`grid gap-4 ${side === "roundTrip" ? "grid-cols-2" : "grid-cols-1"}`}
+        >
+          {side !== "sell" && (
+            <div>
+              <label className="block text-[var(--muted)] text-[10px] font-bold uppercase tracking-wider mb-1.5">
+                {t.costPrice}
+              </label>
+              <input
+                required
+                type="number"
+                min="0"
+                step="0.01"
+                name="costPrice"
+                value={formData.costPrice}
+                onChange={handleChange}
+                placeholder="0"
+                className="w-full bg-[var(--input-bg)] border border-[var(--border-2)] rounded-xl px-4 py-3 text-[var(--input-text)] focus:ring-2 focus:ring-[var(--accent)] outline-none transition-all placeholder:text-[var(--placeholder)]"
+              />
+            </div>
+          )}
+          {side !== "buy" && (
+            <div>
+              <div className="flex items-center justify-between gap-2 mb-1.5">
+                <label className="text-[var(--muted)] text-[10px] font-bold uppercase tracking-wider">
+                  {t.sellingPrice}
+                </label>
+                {liveQuote && (
+                  <button
+                    type="button"
+                    onClick={() =>
+                      setFormData((prev) => ({
+                        ...prev,
+                        sellingPrice: quoteField(
+                          liveQuote,
+                          currency,
+                          unit,
+                          fxRates,
+                        ),
+                      }))
+                    }
+                    className="text-[10px] font-bold text-[var(--accent)] hover:text-[var(--success)] transition-colors"
+                  >
+                    {t.useLivePrice.replace(
+                      "{price}",
+                      formatMoney(
+                        Number(quoteField(liveQuote, currency, unit, fxRates)),
+                        currency,
+                        lang,
+                      ),
+                    )}
+                  </button>
+                )}
+              </div>
+              <input
+                required
+                type="number"
+                min="0"
+                step="0.01"
+                name="sellingPrice"
+                value={formData.sellingPrice}
+                onChange={handleChange}
+                placeholder="0"
+                className="w-full bg-[var(--input-bg)] border border-[var(--border-2)] rounded-xl px-4 py-3 text-[var(--input-text)] focus:ring-2 focus:ring-[var(--success)] outline-none transition-all placeholder:text-[var(--placeholder)]"
+              />
+            </div>
+          )}
+        </div>
+
+        <p className="-mt-2 text-[11px] text-[var(--muted-2)]">
+          {t.pricesPerUnit
+            .replace("{currency}", currency)
+            .replace("{unit}", translations[lang].units[unit])}
+        </p>
+
         <div>
           <label className="block text-[var(--info)] text-[10px] font-bold uppercase tracking-wider mb-1.5">
             {t.targetPrice}
@@ -180,6 +804,37 @@ export const TradeForm: React.FC<TradeFormProps> = ({
           />
         </div>
 
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-[var(--muted)] text-[10px] font-bold uppercase tracking-wider mb-1.5">
+              {t.note}
+            </label>
+            <input
+              type="text"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder={t.notePlaceholder}
+              className="w-full bg-[var(--input-bg)] border border-[var(--border-2)] rounded-xl px-4 py-3 text-[var(--input-text)] focus:ring-2 focus:ring-[var(--accent)] outline-none transition-all placeholder:text-[var(--placeholder)]"
+            />
+          </div>
+          <div>
+            <label className="block text-[var(--muted)] text-[10px] font-bold uppercase tracking-wider mb-1.5">
+              {t.tags}
+            </label>
+            <input
+              type="text"
+              value={tags}
+              onChange={(e) => setTags(e.target.value)}
+              placeholder={t.tagsPlaceholder}
+              className="w-full bg-[var(--input-bg)] border border-[var(--border-2)] rounded-xl px-4 py-3 text-[var(--input-text)] focus:ring-2 focus:ring-[var(--accent)] outline-none transition-all placeholder:text-[var(--placeholder)]"
+            />
+          </div>
+        </div>
+
+        {error && (
+          <p className="text-xs font-bold text-[var(--danger)]">{error}</p>
+        )}
+
         <button
           type="submit"
           className="w-full bg-gradient-to-r from-[var(--brand-from)] to-[var(--brand-to)] hover:from-[var(--accent)] hover:to-[var(--success)] text-slate-900 font-bold py-4 rounded-xl transition-all shadow-lg active:scale-[0.98] mt-2 flex items-center justify-center gap-2"
@@ -197,7 +852,7 @@ export const TradeForm: React.FC<TradeFormProps> = ({
               clipRule="evenodd"
             />
           </svg>
-          {t.recordBtn}
+          {isEditing ? t.saveBtn : t.recordBtn}
         </button>
       </form>
     </div>
@@ -0,0 +1,97 @@
+// Runs every bank statement parser on its sample file in
+// fixtures/bank-statements and checks the rows it produces:
+// `npm run check:bank-fixtures`. Add a case here with each new parser.
+import assert from "node:assert/strict";
+import { readFile } from "node:fs/promises";
+import { root, withModules } from "./load-modules.mjs";
+
+// `rows` lists what each statement line becomes: [line, side, grams,
+// price per gram] for a record, or [line, error] for a skipped line.
+const CASES = [
+  {
+    file: "icbc-ruyi.csv",
+    parser: "icbc",
+    channel: "工商银行",
+    rows: [
+      [5, "buy", 2, 478.5],
+      [6, "buy", 1, 480.2],
+      [7, "sell", 1.5, 495.3],
+      [8, "buy", 0.5, 1012.4],
+    ],
+  },
+  {
+    // The failed order on line 6 is left out.
+    file: "ccb-yicunjin.xls",
+    parser: "ccb",
+    channel: "建设银行",
+    rows: [
+      [4, "buy", 1, 477.8],
+      [5, "buy", 0.5, 479.1],
+      [7, "sell", 1, 501],
+    ],
+  },
+  {
+    file: "generic-statement.csv",
+    parser: "generic",
+    rows: [
+      [2, "buy", 3, 550],
+      [3, "sell", 1, 560],
+      [4, "side"],
+    ],
+  },
+];
+
+let failed = 0;
+await withModules(async (load) => {
+  const { readStatementTable, extractBankRows, buildBankRecords } = await load(
+    "/utils/bankStatement.ts",
+  );
+  const { detectBankParser } = await load("/utils/bankParsers.ts");
+  const { DEFAULT_FX_RATES } = await load("/utils/currency.ts");
+  const ledger = { id: "fixture", name: "Fixture", createdAt: 0, records: [] };
+
+  for (const c of CASES) {
+    try {
+      const bytes = await readFile(`${root}fixtures/bank-statements/${c.file}`);
+      const table = await readStatementTable(new File([bytes], c.file));
+      const parser = detectBankParser(table);
+      assert.equal(parser.id, c.parser, "detected layout");
+      const rows = extractBankRows(table, parser);
+      assert.ok(rows, "header row found");
+      const results = buildBankRecords(
+        rows,
+        parser.id,
+        ledger,
+        DEFAULT_FX_RATES,
+      );
+      assert.deepEqual(
+        results.map(({ line, record, error }) =>
+          record
+            ? [
+                line,
+                record.side,
+                record.grams,
+                record.side === "sell" ? record.sellingPrice : record.costPrice,
+              ]
+            : [line, error],
+        ),
+        c.rows,
+      );
+      const records = results.flatMap((r) => (r.record ? [r.record] : []));
+      for (const r of records) assert.equal(r.channel, c.channel, "channel");
+      // Ids come from the row contents, so a second import matches the first.
+      const again = buildBankRecords(rows, parser.id, ledger, DEFAULT_FX_RATES);
+      assert.deepEqual(
+        again.flatMap((r) => (r.record ? [r.record.id] : [])),
+        records.map((r) => r.id),
+        "stable ids",
+      );
+      assert.equal(new Set(records.map((r) => r.id)).size, records.length);
+      console.log(`ok   ${c.file} (${parser.id}, ${records.length} records)`);
+    } catch (e) {
+      failed += 1;
+      console.error(`FAIL ${c.file}\n${e instanceof Error ? e.message : e}`);
+    }
+  }
+});
+process.exitCode = failed > 0 ? 1 : 0;
@@ -0,0 +1,47 @@
+// Checks that fee preset rates land on the legs each side trades and are
+// charged there: `npm run check:fees`.
+import assert from "node:assert/strict";
+import { withModules } from "./load-modules.mjs";
+
+const preset = { id: "p", name: "Bank", feeRate: 0.005, fixedFee: 1 };
+const form = { buyRate: 0, sellRate: 0.004, fixed: 0, minimum: 0 };
+
+await withModules(async (load) => {
+  const { applyFeePreset } = await load("/utils/fees.ts");
+  const { computeFees } = await load("/utils/calc.ts");
+  const { planFeeSchedule } = await load("/utils/plans.ts");
+
+  // Buys pay the rate on the purchase; the sell rate for projections stays.
+  const buy = applyFeePreset(form, preset, "buy");
+  assert.deepEqual(buy, {
+    buyRate: 0.005,
+    sellRate: 0.004,
+    fixed: 1,
+    minimum: 0,
+  });
+  assert.equal(computeFees("buy", 2, 500, 0, buy).buy, 6);
+
+  const sell = applyFeePreset(form, preset, "sell");
+  assert.deepEqual(sell, { buyRate: 0, sellRate: 0.005, fixed: 1, minimum: 0 });
+  assert.equal(computeFees("sell", 2, 0, 500, sell).sell, 6);
+
+  // Round trips place two orders through the channel and pay on both.
+  const roundTrip = applyFeePreset(form, preset, "roundTrip");
+  assert.deepEqual(roundTrip, {
+    buyRate: 0.005,
+    sellRate: 0.005,
+    fixed: 1,
+    minimum: 0,
+  });
+  assert.deepEqual(computeFees("roundTrip", 2, 500, 600, roundTrip), {
+    buy: 6,
+    sell: 7,
+    total: 13,
+  });
+
+  // Savings plans buy through the same rule.
+  const plan = { channel: "Bank" };
+  assert.equal(planFeeSchedule(plan, [preset]).buyRate, 0.005);
+  assert.equal(planFeeSchedule(plan, [preset]).fixed, 1);
+});
+console.log("ok   fee presets");
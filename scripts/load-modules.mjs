@@ -0,0 +1,24 @@
+// Loads the app's TypeScript modules into the check scripts through Vite,
+// so they run the real code without a build step.
+import { fileURLToPath } from "node:url";
+import { createServer } from "vite";
+
+export const root = fileURLToPath(new URL("..", import.meta.url));
+
+// `run` gets a loader for paths relative to the repo root, e.g.
+// `/utils/fees.ts`. The dev server is closed once it settles.
+export const withModules = async (run) => {
+  const server = await createServer({
+    root,
+    configFile: false,
+    appType: "custom",
+    logLevel: "error",
+    server: { middlewareMode: true, hmr: false },
+    optimizeDeps: { noDiscovery: true, include: [] },
+  });
+  try {
+    return await run((path) => server.ssrLoadModule(path));
+  } finally {
+    await server.close();
+  }
+};
@@ -0,0 +1,43 @@
+// Local stand-in for a price endpoint: `npm run mock:prices`, then point the
+// app's price feed at http://localhost:5175/quotes.
+import http from "node:http";
+
+const port = Number(process.env.PORT) || 5175;
+
+// CNY per gram, drifting a little on every request.
+const prices = { gold: 560, silver: 7.2, platinum: 225, palladium: 230 };
+
+const drift = () => {
+  for (const metal of Object.keys(prices)) {
+    const step = 1 + (Math.random() - 0.5) * 0.004;
+    prices[metal] = Math.round(prices[metal] * step * 100) / 100;
+  }
+};
+
+const server = http.createServer((req, res) => {
+  res.setHeader("Access-Control-Allow-Origin", "*");
+  if (req.method === "OPTIONS") {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+  if (req.method !== "GET" || req.url?.split("?")[0] !== "/quotes") {
+    res.writeHead(404, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ error: "Not found" }));
+    return;
+  }
+  drift();
+  res.writeHead(200, { "Content-Type": "application/json" });
+  res.end(
+    JSON.stringify({
+      currency: "CNY",
+      unit: "g",
+      timestamp: new Date().toISOString(),
+      prices,
+    }),
+  );
+});
+
+server.listen(port, () => {
+  console.log(`Mock price server on http://localhost:${port}/quotes`);
+});
@@ -10,16 +10,22 @@ export async function analyzeTrades(records: TradeRecord[], lang: 'en' | 'zh' =
   if (records.length === 0) return t.noData;
 
   const prompt = `
-    Analyze the following gold trading history and provide a professional, concise summary in ${lang === 'zh' ? 'Chinese' : 'English'}. 
+    Analyze the following precious metals trading history and provide a professional, concise summary in ${lang === 'zh' ? 'Chinese' : 'English'}. 
     Focus on trends in profit margins, the impact of handling fees, and suggestions for future trades.
     
     Data:
     ${JSON.stringify(records.map(r => ({
+      side: r.side,
+      metal: r.metal,
+      currency: r.currency,
+      fxRate: r.fxRate,
       grams: r.grams,
       cost: r.costPrice,
       sold: r.sellingPrice,
       profit: r.actualProfit,
-      margin: r.profitMargin + "%"
+      margin: r.profitMargin + "%",
+      note: r.note,
+      tags: r.tags
     })))}
   `;
 
@@ -0,0 +1,43 @@
+import { Metal, PriceQuote } from "../types";
+import { isCurrency } from "../utils/currency";
+import { METALS } from "../utils/positions";
+import { isWeightUnit, pricePerGram } from "../utils/units";
+
+export interface PriceProvider {
+  fetchQuotes(signal?: AbortSignal): Promise<PriceQuote[]>;
+}
+
+export const PRICE_POLL_INTERVAL_MS = 60_000;
+
+export const DEFAULT_PRICE_ENDPOINT = process.env.PRICE_ENDPOINT || "";
+
+// Endpoints answer with
+//   { "currency": "CNY", "unit": "g", "prices": { "gold": 560.12, ... } }
+// where `unit` is optional and defaults to grams.
+export const parseQuotes = (body: unknown, fetchedAt: number): PriceQuote[] => {
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    throw new Error("Unsupported price response");
+  }
+  const obj = body as Record<string, unknown>;
+  const unit = obj.unit ?? "g";
+  const prices = obj.prices as Record<string, unknown> | undefined;
+  if (!isCurrency(obj.currency) || !isWeightUnit(unit) || !prices) {
+    throw new Error("Unsupported price response");
+  }
+  const currency = obj.currency;
+  return METALS.flatMap((metal: Metal) => {
+    const price = prices[metal];
+    if (typeof price !== "number" || !Number.isFinite(price) || price <= 0) {
+      return [];
+    }
+    return [{ metal, price: pricePerGram(price, unit), currency, fetchedAt }];
+  });
+};
+
+export const createJsonPriceProvider = (url: string): PriceProvider => ({
+  async fetchQuotes(signal) {
+    const res = await fetch(url, { signal, cache: "no-store" });
+    if (!res.ok) throw new Error(`Price endpoint returned ${res.status}`);
+    return parseQuotes(await res.json(), Date.now());
+  },
+});
@@ -12,6 +12,8 @@ export const translations = {
     noRecords: "No transaction history found",
     localStore: "Data is stored locally on this device",
     confirmDelete: "Delete this trade record?",
+    closedLotDelete: "Sells have closed against this lot; delete those sells first",
+    editRecord: "Edit this trade record",
     confirmClear: "Clear all records in this ledger?",
     confirmClearLedger: "DANGER: This will permanently clear all records in the ledger '{name}'. Continue?",
     confirmDeleteMaster:
@@ -20,6 +22,78 @@ export const translations = {
       "DANGER: This will permanently delete the ledger '{name}' and all its records. Continue?",
     shareBtn: "Share Report",
     transferBtn: "Import/Export",
+    feePresetsBtn: "Channels",
+    fxRatesBtn: "FX Rates",
+    spotPricesBtn: "Spot Prices",
+    alertsBtn: "Alerts",
+    alerts: {
+      title: "Price Alerts",
+      subtitle: "Target and stop-loss prices for this ledger or one open position",
+      scope: "Applies to",
+      wholeLedger: "Whole ledger",
+      position: "Lot {date} · {weight}",
+      kinds: {
+        target: "Target",
+        stopLoss: "Stop-loss",
+      },
+      price: "Price",
+      fromDesired: "Use desired price",
+      add: "Add Alert",
+      remove: "Remove alert",
+      empty: "No active alerts.",
+      history: "Triggered",
+      clearHistory: "Clear history",
+      noHistory: "Nothing has triggered yet.",
+      closedPosition: "Position closed",
+      market: "Market {price}",
+      triggered: "{ledger}: {metal} {kind} {price} reached (market {market})",
+      notificationTitle: "AuraGold price alert",
+      close: "Close",
+    },
+    plansBtn: "Savings Plans",
+    plans: {
+      title: "Savings Plans",
+      subtitle: "Recurring buys that queue an entry on each due date for you to confirm",
+      cardTitle: "Savings Plans",
+      name: "Plan name",
+      basis: {
+        amount: "Fixed amount (incl. fees)",
+        grams: "Fixed weight",
+      },
+      quantity: "Amount or weight",
+      frequencies: {
+        weekly: "Weekly",
+        biweekly: "Every 2 weeks",
+        monthly: "Monthly",
+      },
+      startDate: "Start date",
+      noChannel: "No channel fees",
+      add: "Add Plan",
+      remove: "Delete plan",
+      pause: "Pause",
+      resume: "Resume",
+      paused: "Paused",
+      empty: "No savings plans yet.",
+      pending: "Pending entries",
+      pendingEmpty: "Nothing is due.",
+      price: "Actual price",
+      confirm: "Confirm",
+      skip: "Skip",
+      due: "Due {date}",
+      cumulative: "{weight} · avg {price}",
+      buys: "{count} buys",
+      pendingCount: "{count} pending",
+      manage: "Manage",
+      close: "Close",
+    },
+    priceFeed: {
+      connect: "Price Feed",
+      live: "Gold {price}",
+      offline: "Feed Offline",
+      offlineHint: "The price feed is unreachable; saved spot prices are used instead.",
+      endpointTitle: "Price Feed Endpoint",
+      endpointPlaceholder: "JSON endpoint URL, empty to disable",
+    },
     copied: "Report copied to clipboard!",
     dataTransfer: {
       title: "Import/Export",
@@ -27,10 +101,13 @@ export const translations = {
       allTitle: "All Data",
       ledgerTitle: "Single Ledger",
       exportAll: "Export All (JSON)",
+      exportAllXlsx: "Export All (Excel)",
+      exportEncrypted: "Export All (Encrypted)",
       chooseFile: "Choose JSON File",
       importMerge: "Import (Merge)",
       importReplace: "Import (Replace)",
       exportLedger: "Export Ledger (JSON)",
+      exportLedgerXlsx: "Export Ledger (Excel)",
       importLedgerAsNew: "Import as New",
       importLedgerReplace: "Replace Ledger",
       selectLedger: "Target Ledger",
@@ -38,6 +115,228 @@ export const translations = {
       fileSelected: "Selected: {name}",
       tipReplaceAll: "Replace will overwrite all current ledgers and settings.",
       tipReplaceLedger: "Replace will overwrite records in the selected ledger.",
+      reviewTitle: "Review Import",
+      reviewSummary:
+        "{accepted} records accepted · {repaired} repaired · {skipped} skipped",
+      accepted: "Accepted",
+      acceptedLedger: "{name}: {count} records",
+      repaired: "Repaired",
+      skipped: "Skipped",
+      reasons: {
+        notObject: "Not an object",
+        invalidField: "Missing or invalid “{detail}”",
+        duplicateId: "Duplicate id {detail}",
+        recalculated: "Recalculated {detail}",
+      },
+      importValid: "Import Valid Records",
+      back: "Back",
+      diffTitle: "Changes",
+      diffSummary:
+        "{ledgers} new ledgers · {records} new records · {unchanged} unchanged",
+      conflicts: "Changed records",
+      conflictLabel: "{ledger} · {date}",
+      keepMine: "Keep mine",
+      takeTheirs: "Take theirs",
+      keepBoth: "Keep both",
+      allMine: "All mine",
+      allTheirs: "All theirs",
+      willRemoveLedgers: "{count} ledgers not in the file will be removed: {names}",
+      willRemoveRecords: "{count} records not in the file will be removed",
+      csvTitle: "Spreadsheet (CSV)",
+      csvScope: "Records from",
+      csvAllLedgers: "All ledgers",
+      csvColumnsLabel: "Columns",
+      exportCsv: "Export CSV",
+      csvHint: "Prices are per gram; amounts are in each record's currency.",
+      importCsv: "Import CSV…",
+      importBankStatement: "Import Bank Statement…",
+      newerVersion:
+        "This file was created by a newer version of AuraGold (format v{version}). Update the app to import it.",
+      overClosed:
+        "These choices would sell more of the {date} buy in {ledger} than it holds. Keep your copy of that buy or of the sells that close it.",
+      snapshots: "Snapshots & Restore…",
+      xlsxSummarySheet: "Summary",
+      xlsxSummary: {
+        ledger: "Ledger",
+        currency: "Currency",
+        totalProfit: "Realized Profit",
+        totalProjectedProfit: "Projected Profit",
+        profitDifference: "Profit Variance",
+        totalGrams: "Grams Traded",
+        avgCostPrice: "Avg. Cost / g",
+        holdingGrams: "Grams Held",
+        holdingAvgCost: "Holding Cost / g",
+        marketValue: "Market Value",
+        unrealizedProfit: "Unrealized Profit",
+        unpricedGrams: "Unpriced Grams",
+      },
+      xlsxColumns: {
+        channel: "Channel",
+        note: "Note",
+      },
+      csvColumns: {
+        date: "Date",
+        ledger: "Ledger",
+        side: "Side",
+        metal: "Metal",
+        grams: "Grams",
+        costPrice: "Cost / g",
+        sellingPrice: "Sell / g",
+        fee: "Fee",
+        actualProfit: "Actual Profit",
+        projectedProfit: "Projected Profit",
+        margin: "Margin %",
+        currency: "Currency",
+      },
+    },
+    csvImport: {
+      title: "Import CSV",
+      subtitle: "Map a bank or broker spreadsheet onto trade records",
+      chooseFile: "Choose file",
+      detected: "{encoding} · {rows} rows",
+      delimiter: "Delimiter",
+      delimiters: {
+        comma: "Comma",
+        semicolon: "Semicolon",
+        tab: "Tab",
+        pipe: "Pipe",
+      },
+      dateFormat: "Dates",
+      dateFormats: {
+        ymd: "Year-Month-Day",
+        dmy: "Day/Month/Year",
+        mdy: "Month/Day/Year",
+      },
+      decimal: "Numbers",
+      decimals: {
+        dot: "1,234.56",
+        comma: "1.234,56",
+      },
+      weightUnit: "Weight and prices in",
+      mapping: "Columns",
+      unmapped: "Not in file",
+      required: "required",
+      fields: {
+        date: "Date",
+        side: "Side",
+        metal: "Metal",
+        grams: "Weight",
+        costPrice: "Cost price",
+        sellingPrice: "Selling price",
+        desiredPrice: "Target price",
+        fee: "Fee amount",
+        actualProfit: "Actual profit",
+        projectedProfit: "Projected profit",
+        profitMargin: "Margin %",
+        currency: "Currency",
+        fxRate: "FX rate",
+        channel: "Channel",
+        note: "Note",
+        tags: "Tags",
+      },
+      mappingHint: "Missing profits and margins are calculated; sells are matched to open lots by the ledger's cost basis.",
+      preview: "Preview",
+      line: "Line",
+      ok: "OK",
+      errors: {
+        date: "Unreadable date",
+        side: "Unknown side",
+        metal: "Unknown metal",
+        grams: "Missing weight",
+        costPrice: "Missing cost price",
+        sellingPrice: "Missing selling price",
+        currency: "Unknown currency or rate",
+        holdings: "Sells more than is held",
+      },
+      target: "Import into",
+      newLedger: "New ledger",
+      newLedgerName: "Ledger name",
+      presets: "Mapping preset",
+      presetNone: "None",
+      presetName: "Preset name",
+      savePreset: "Save preset",
+      deletePreset: "Delete preset",
+      summary: "{ok} rows ready, {skipped} will be skipped",
+      import: "Import {count} records",
+      imported: "Imported {count} records from CSV",
+      close: "Close",
+    },
+    bankImport: {
+      title: "Import Bank Statement",
+      subtitle: "Read a gold accumulation statement downloaded from your bank (CSV, XLS or XLSX)",
+      chooseFile: "Choose file",
+      layout: "Statement layout",
+      detected: "detected",
+      target: "Import into",
+      noLedgers: "Create a ledger first",
+      rows: "{count} transactions",
+      notFound: "No transaction table found for this layout. Try another layout, or the CSV import to map columns by hand.",
+      errors: {
+        legacyXls: "Old binary .xls files cannot be read. Open it in Excel or WPS and save as CSV or XLSX.",
+        empty: "The file is empty",
+        unreadable: "The file could not be read",
+      },
+      price: "Price",
+      review: "Review {count} records",
+      hint: "Re-importing a statement is safe: transactions already in the ledger show as unchanged.",
+      close: "Close",
+    },
+    backup: {
+      encryptTitle: "Encrypted Backup",
+      encryptHint: "The backup can only be opened with this passphrase. It cannot be recovered if you lose it.",
+      decryptTitle: "Unlock Backup",
+      decryptHint: "{name} is encrypted. Enter the passphrase it was exported with.",
+      passphrase: "Passphrase",
+      confirm: "Repeat passphrase",
+      tooShort: "Use at least {count} characters",
+      mismatch: "Passphrases do not match",
+      encrypt: "Encrypt & Export",
+      decrypt: "Unlock",
+      working: "Working...",
+      cancel: "Cancel",
+      exported: "Exported encrypted backup",
+      errors: {
+        locked: "This backup is encrypted; unlock it with its passphrase",
+        passphrase: "Wrong passphrase",
+        tampered: "The backup is damaged or was modified after export",
+        unsupported: "This backup uses an encryption format this version cannot read",
+        unavailable: "Encryption needs a secure (https) connection",
+      },
+    },
+    snapshots: {
+      title: "Snapshots",
+      subtitle: "Copies of all ledgers taken daily and before every destructive action",
+      empty: "No snapshots yet",
+      loading: "Loading...",
+      counts: "{ledgers} ledgers · {records} records",
+      restore: "Restore",
+      remove: "Delete snapshot",
+      close: "Close",
+      confirmTitle: "Restore Snapshot",
+      confirmMessage: "Replace all current ledgers with the snapshot from {date}? The current data is snapshotted first, so this can be undone.",
+      restored: "Restored the snapshot from {date}",
+      undo: "Undo restore",
+      undone: "Restore undone",
+      failed: "Snapshot storage is unavailable",
+      reasons: {
+        daily: "Daily",
+        clearLedger: "Before clearing {label}",
+        deleteLedger: "Before deleting {label}",
+        deleteRecord: "Before deleting a record in {label}",
+        import: "Before import",
+        restore: "Before restore",
+      },
+    },
+    feePresets: {
+      title: "Channel Fee Presets",
+      subtitle: "Name each bank or gold shop with its fee rate and fixed fee",
+      name: "Channel name",
+      feeRate: "Fee rate",
+      fixedFee: "Fixed fee",
+      add: "Add",
+      remove: "Remove preset",
+      empty: "No channels yet. Add one below.",
+      close: "Close",
     },
     shareModal: {
       title: "Share Report",
@@ -49,6 +348,7 @@ export const translations = {
         neon: "Neon Night",
       },
       downloadPng: "Download PNG",
+      downloadPdf: "PDF Statement",
       downloading: "Rendering...",
       copyText: "Copy Text",
       close: "Close",
@@ -77,17 +377,118 @@ export const translations = {
       totalProfit: "Current Total Profit",
       projectedTotal: "Projected Total",
       profitVariance: "Profit Variance",
-      avgCost: "Avg. Gram Cost",
+      avgCost: "Avg. Unit Cost",
+      holdings: "Current Holdings",
+      holdingAvgCost: "Avg. cost",
+      marketValue: "Market value",
+      unrealized: "Unrealized",
+      unpriced: "{weight} without a spot price",
+      byMetal: "By Metal",
+      traded: "Traded",
     },
     form: {
       newTrade: "New Transaction",
-      grams: "Quantity (Grams)",
-      feeRate: "Fee Rate (Dec)",
-      costPrice: "Cost Price (￥)",
-      sellingPrice: "Selling Price (￥)",
-      targetPrice: "Desired Target Price (￥)",
+      grams: "Quantity",
+      unit: "Entry Unit",
+      pricesPerUnit: "Prices are in {currency} per {unit}",
+      feeRate: "Sell Fee Rate (Dec)",
+      buyFeeRate: "Buy Fee Rate (Dec)",
+      fixedFee: "Fixed Fee / Order",
+      minimumFee: "Minimum Fee",
+      costPrice: "Cost Price",
+      sellingPrice: "Selling Price",
+      targetPrice: "Desired Target Price",
+      currency: "Trade Currency",
+      tradedAt: "Trade Date & Time",
+      note: "Note",
+      notePlaceholder: "e.g. wedding gift resale",
+      tags: "Tags",
+      tagsPlaceholder: "Comma separated, e.g. bank promo, gift",
+      futureDate: "Trade time cannot be in the future",
+      invalidDate: "Enter a valid trade date and time",
+      useLivePrice: "Live {price}",
+      fxRate: "FX Rate (1 {currency} = ? {base})",
       targetPlaceholder: "Target Price for Projection",
       recordBtn: "Record Transaction",
+      editTrade: "Edit Transaction",
+      saveBtn: "Save Changes",
+      belowClosed: "Quantity is below the grams already sold from this lot",
+      afterClosingSell:
+        "Trade time is after a sell that closed against this lot",
+      costBasis: "Cost basis",
+      pickLots: "Sell From Lots",
+      lotRemaining: "Remaining {weight}",
+      channel: "Channel",
+      metal: "Metal",
+      customChannel: "Custom (no channel)",
+      side: "Trade Type",
+      available: "Open holdings: {weight}",
+      exceedsHoldings: "Sell quantity exceeds open holdings",
+      noHoldings: "No open lots to sell from",
+    },
+    sides: {
+      roundTrip: "Round Trip",
+      buy: "Buy",
+      sell: "Sell",
+    },
+    units: {
+      g: "Grams",
+      ozt: "Troy Ounces",
+      kg: "Kilograms",
+      tael: "Tael (两)",
+    },
+    unitSuffix: {
+      g: "g",
+      ozt: " ozt",
+      kg: " kg",
+      tael: " tael",
+    },
+    displayUnit: "Display Unit",
+    currencies: {
+      CNY: "CNY · Chinese Yuan",
+      USD: "USD · US Dollar",
+      HKD: "HKD · Hong Kong Dollar",
+    },
+    baseCurrency: {
+      label: "Base Currency",
+      hint: "Set this before recording trades. It relabels amounts without converting them.",
+      locked:
+        "Locked once the ledger has records: foreign-currency trades store FX rates against this currency.",
+    },
+    reportingCurrency: "Reporting Currency",
+    spotPrices: {
+      title: "Spot Price History",
+      subtitle: "Daily spot prices per metal, used to value open holdings",
+      date: "Date",
+      price: "Price",
+      add: "Save",
+      remove: "Remove price",
+      empty: "No spot prices yet. Add one below or import a CSV.",
+      importCsv: "Import CSV",
+      importHint: "CSV columns: date, metal, price[, currency]",
+      imported: "Imported {count} prices, skipped {skipped} rows",
+      close: "Close",
+    },
+    fxRates: {
+      title: "FX Rates",
+      subtitle: "Local rate table used to convert ledgers in the master view",
+      rate: "1 {currency} = ? CNY",
+      reset: "Reset Defaults",
+      close: "Close",
+    },
+    metals: {
+      gold: "Gold",
+      silver: "Silver",
+      platinum: "Platinum",
+      palladium: "Palladium",
+    },
+    costBasis: {
+      label: "Cost Basis",
+      hint: "Applies to future sells; recorded sells keep their matched lots.",
+      fifo: "FIFO",
+      lifo: "LIFO",
+      specific: "Specific Lot",
+      average: "Weighted Avg.",
     },
     table: {
       timeline: "Timeline",
@@ -100,6 +501,19 @@ export const translations = {
       sell: "Sell",
       target: "Target",
       fee: "Fee",
+      open: "Open",
+      remaining: "Left {weight}",
+      fx: "@ {rate} {base}",
+      search: "Search notes, tags or channels",
+      filterTag: "Filter by this tag",
+      mismatch: "Recalculated",
+      mismatchHint: "Stored values disagreed and were recalculated: {values}",
+      feeBuy: "Buy",
+      feeSell: "Sell",
+      feeFixed: "Fixed",
+      feeMin: "Min",
+      allMetals: "All Metals",
+      noMatches: "No records for this metal",
     },
     report: {
       title: "AuraGold Trading Report",
@@ -108,8 +522,29 @@ export const translations = {
       diff: "Profit Difference",
       volume: "Total Volume",
       count: "Transaction Count",
+      holdings: "Current Holdings",
       date: "Generated at",
     },
+    statement: {
+      title: "Trading Statement",
+      period: "Period",
+      page: "Page {page} of {pages}",
+      empty: "No transactions.",
+      subtotal: "{month} subtotal · {count} trades",
+      columns: {
+        date: "Date",
+        ledger: "Ledger",
+        side: "Side",
+        metal: "Metal",
+        weight: "Weight",
+        cost: "Cost",
+        sell: "Sell",
+        fee: "Fee",
+        actual: "Actual",
+        projected: "Projected",
+        margin: "Margin",
+      },
+    },
     ai: {
       noData: "No data to analyze yet.",
       error: "Unable to generate analysis at this time.",
@@ -129,6 +564,8 @@ export const translations = {
     noRecords: "未发现交易历史",
     localStore: "数据储存在此设备的本地浏览器中",
     confirmDelete: "确定删除此交易记录吗？",
+    closedLotDelete: "已有卖出记录与该批次配对，请先删除这些卖出记录",
+    editRecord: "编辑此交易记录",
     confirmClear: "确定清除此账本中的所有记录吗？",
     confirmClearLedger: "危险：这将永久清空账本 '{name}' 的全部记录。是否继续？",
     confirmDeleteMaster: "隐藏“总账本”入口？可在账本下拉菜单中恢复。",
@@ -136,6 +573,78 @@ export const translations = {
       "危险：这将永久删除账本 '{name}' 及其所有记录。是否继续？",
     shareBtn: "分享报告",
     transferBtn: "导入/导出",
+    feePresetsBtn: "渠道费率",
+    fxRatesBtn: "汇率",
+    spotPricesBtn: "现货价格",
+    alertsBtn: "价格提醒",
+    alerts: {
+      title: "价格提醒",
+      subtitle: "为整个账本或单个持仓设置目标价与止损价",
+      scope: "适用范围",
+      wholeLedger: "整个账本",
+      position: "持仓 {date} · {weight}",
+      kinds: {
+        target: "目标价",
+        stopLoss: "止损价",
+      },
+      price: "价格",
+      fromDesired: "使用预期目标价",
+      add: "添加提醒",
+      remove: "删除提醒",
+      empty: "暂无生效中的提醒。",
+      history: "已触发",
+      clearHistory: "清空记录",
+      noHistory: "尚无触发记录。",
+      closedPosition: "持仓已平",
+      market: "市价 {price}",
+      triggered: "{ledger}：{metal}{kind} {price} 已触发（市价 {market}）",
+      notificationTitle: "AuraGold 价格提醒",
+      close: "关闭",
+    },
+    plansBtn: "定投计划",
+    plans: {
+      title: "定投计划",
+      subtitle: "按周期自动生成待确认的买入，确认时填写实际成交价",
+      cardTitle: "定投计划",
+      name: "计划名称",
+      basis: {
+        amount: "定额（含手续费）",
+        grams: "定量",
+      },
+      quantity: "金额或重量",
+      frequencies: {
+        weekly: "每周",
+        biweekly: "每两周",
+        monthly: "每月",
+      },
+      startDate: "开始日期",
+      noChannel: "无渠道费用",
+      add: "添加计划",
+      remove: "删除计划",
+      pause: "暂停",
+      resume: "恢复",
+      paused: "已暂停",
+      empty: "暂无定投计划。",
+      pending: "待确认",
+      pendingEmpty: "暂无到期的定投。",
+      price: "实际价格",
+      confirm: "确认",
+      skip: "跳过",
+      due: "{date} 到期",
+      cumulative: "{weight} · 均价 {price}",
+      buys: "{count} 笔",
+      pendingCount: "{count} 笔待确认",
+      manage: "管理",
+      close: "关闭",
+    },
+    priceFeed: {
+      connect: "实时行情",
+      live: "黄金 {price}",
+      offline: "行情离线",
+      offlineHint: "无法连接行情接口，已改用保存的现货价格。",
+      endpointTitle: "行情接口地址",
+      endpointPlaceholder: "JSON 接口 URL，留空则停用",
+    },
     copied: "报告已复制到剪贴板！",
     dataTransfer: {
       title: "导入/导出",
@@ -143,10 +652,13 @@ export const translations = {
       allTitle: "全部数据",
       ledgerTitle: "单个账本",
       exportAll: "导出全部（JSON）",
+      exportAllXlsx: "导出全部（Excel）",
+      exportEncrypted: "导出全部（加密）",
       chooseFile: "选择 JSON 文件",
       importMerge: "合并导入",
       importReplace: "覆盖导入",
       exportLedger: "导出账本（JSON）",
+      exportLedgerXlsx: "导出账本（Excel）",
       importLedgerAsNew: "导入为新账本",
       importLedgerReplace: "覆盖所选账本",
       selectLedger: "目标账本",
@@ -154,6 +666,224 @@ export const translations = {
       fileSelected: "已选择：{name}",
       tipReplaceAll: "“覆盖导入”会用文件内容替换当前所有账本与设置。",
       tipReplaceLedger: "“覆盖所选账本”会用文件记录替换该账本的交易记录。",
+      reviewTitle: "导入检查",
+      reviewSummary: "可导入 {accepted} 条 · 已修正 {repaired} 条 · 已跳过 {skipped} 条",
+      accepted: "可导入",
+      acceptedLedger: "{name}：{count} 条记录",
+      repaired: "已修正",
+      skipped: "已跳过",
+      reasons: {
+        notObject: "不是有效对象",
+        invalidField: "缺少或无效的字段“{detail}”",
+        duplicateId: "重复的 ID {detail}",
+        recalculated: "已重新计算 {detail}",
+      },
+      importValid: "导入有效记录",
+      back: "返回",
+      diffTitle: "变更",
+      diffSummary: "新账本 {ledgers} 个 · 新记录 {records} 条 · 未变化 {unchanged} 条",
+      conflicts: "有差异的记录",
+      conflictLabel: "{ledger} · {date}",
+      keepMine: "保留本地",
+      takeTheirs: "使用文件",
+      keepBoth: "两者都保留",
+      allMine: "全部保留本地",
+      allTheirs: "全部使用文件",
+      willRemoveLedgers: "文件中没有的 {count} 个账本将被删除：{names}",
+      willRemoveRecords: "文件中没有的 {count} 条记录将被删除",
+      csvTitle: "表格（CSV）",
+      csvScope: "导出范围",
+      csvAllLedgers: "全部账本",
+      csvColumnsLabel: "列",
+      exportCsv: "导出 CSV",
+      csvHint: "价格均为每克单价，金额使用各记录自身的币种。",
+      importCsv: "导入 CSV…",
+      importBankStatement: "导入银行对账单…",
+      newerVersion: "此文件由更新版本的 AuraGold 创建（格式 v{version}），请更新应用后再导入。",
+      overClosed: "按当前选择，{ledger} 中 {date} 的买入将被卖出超过其持有克数。请保留该买入或平仓卖出的本地版本。",
+      snapshots: "快照与恢复…",
+      xlsxSummarySheet: "汇总",
+      xlsxSummary: {
+        ledger: "账本",
+        currency: "币种",
+        totalProfit: "已实现盈亏",
+        totalProjectedProfit: "预期盈亏",
+        profitDifference: "盈亏差额",
+        totalGrams: "成交克数",
+        avgCostPrice: "平均成本/克",
+        holdingGrams: "持仓克数",
+        holdingAvgCost: "持仓成本/克",
+        marketValue: "市值",
+        unrealizedProfit: "浮动盈亏",
+        unpricedGrams: "无报价克数",
+      },
+      xlsxColumns: {
+        channel: "渠道",
+        note: "备注",
+      },
+      csvColumns: {
+        date: "日期",
+        ledger: "账本",
+        side: "方向",
+        metal: "品种",
+        grams: "克数",
+        costPrice: "成本价/克",
+        sellingPrice: "卖出价/克",
+        fee: "手续费",
+        actualProfit: "实际盈亏",
+        projectedProfit: "预期盈亏",
+        margin: "收益率 %",
+        currency: "币种",
+      },
+    },
+    csvImport: {
+      title: "导入 CSV",
+      subtitle: "将银行或券商导出的表格映射为交易记录",
+      chooseFile: "选择文件",
+      detected: "{encoding} · {rows} 行",
+      delimiter: "分隔符",
+      delimiters: {
+        comma: "逗号",
+        semicolon: "分号",
+        tab: "制表符",
+        pipe: "竖线",
+      },
+      dateFormat: "日期格式",
+      dateFormats: {
+        ymd: "年-月-日",
+        dmy: "日/月/年",
+        mdy: "月/日/年",
+      },
+      decimal: "数字格式",
+      decimals: {
+        dot: "1,234.56",
+        comma: "1.234,56",
+      },
+      weightUnit: "重量及单价单位",
+      mapping: "列映射",
+      unmapped: "文件中没有",
+      required: "必填",
+      fields: {
+        date: "日期",
+        side: "方向",
+        metal: "品种",
+        grams: "重量",
+        costPrice: "成本价",
+        sellingPrice: "卖出价",
+        desiredPrice: "目标价",
+        fee: "手续费金额",
+        actualProfit: "实际盈亏",
+        projectedProfit: "预期盈亏",
+        profitMargin: "收益率 %",
+        currency: "币种",
+        fxRate: "汇率",
+        channel: "渠道",
+        note: "备注",
+        tags: "标签",
+      },
+      mappingHint: "缺失的盈亏和收益率会自动计算；卖出按账本的成本计算方式匹配持仓批次。",
+      preview: "预览",
+      line: "行",
+      ok: "可导入",
+      errors: {
+        date: "无法识别日期",
+        side: "无法识别方向",
+        metal: "无法识别品种",
+        grams: "缺少重量",
+        costPrice: "缺少成本价",
+        sellingPrice: "缺少卖出价",
+        currency: "无法识别币种或汇率",
+        holdings: "卖出超过持仓",
+      },
+      target: "导入到",
+      newLedger: "新账本",
+      newLedgerName: "账本名称",
+      presets: "映射预设",
+      presetNone: "无",
+      presetName: "预设名称",
+      savePreset: "保存预设",
+      deletePreset: "删除预设",
+      summary: "{ok} 行可导入，{skipped} 行将被跳过",
+      import: "导入 {count} 条记录",
+      imported: "已从 CSV 导入 {count} 条记录",
+      close: "关闭",
+    },
+    bankImport: {
+      title: "导入银行对账单",
+      subtitle: "读取从银行下载的积存金交易明细（CSV、XLS 或 XLSX）",
+      chooseFile: "选择文件",
+      layout: "对账单格式",
+      detected: "已识别",
+      target: "导入到",
+      noLedgers: "请先创建账本",
+      rows: "{count} 笔交易",
+      notFound: "未按此格式找到交易明细表。可换一种格式，或使用 CSV 导入手动映射列。",
+      errors: {
+        legacyXls: "无法读取旧版二进制 .xls 文件，请用 Excel 或 WPS 打开后另存为 CSV 或 XLSX。",
+        empty: "文件为空",
+        unreadable: "无法读取该文件",
+      },
+      price: "价格",
+      review: "检查 {count} 条记录",
+      hint: "重复导入同一对账单是安全的：账本中已有的交易会显示为未变化。",
+      close: "关闭",
+    },
+    backup: {
+      encryptTitle: "加密备份",
+      encryptHint: "只有使用此密码才能打开备份，密码遗失后无法找回。",
+      decryptTitle: "解锁备份",
+      decryptHint: "{name} 已加密，请输入导出时设置的密码。",
+      passphrase: "密码",
+      confirm: "再次输入密码",
+      tooShort: "至少需要 {count} 个字符",
+      mismatch: "两次输入的密码不一致",
+      encrypt: "加密并导出",
+      decrypt: "解锁",
+      working: "处理中...",
+      cancel: "取消",
+      exported: "已导出加密备份",
+      errors: {
+        locked: "该备份已加密，请使用密码解锁",
+        passphrase: "密码错误",
+        tampered: "备份文件已损坏或在导出后被修改",
+        unsupported: "当前版本无法读取此备份的加密格式",
+        unavailable: "加密功能需要安全（https）连接",
+      },
+    },
+    snapshots: {
+      title: "快照",
+      subtitle: "每日及每次破坏性操作前自动保存的全部账本副本",
+      empty: "暂无快照",
+      loading: "加载中...",
+      counts: "{ledgers} 个账本 · {records} 条记录",
+      restore: "恢复",
+      remove: "删除快照",
+      close: "关闭",
+      confirmTitle: "恢复快照",
+      confirmMessage: "用 {date} 的快照替换当前所有账本？恢复前会先为当前数据保存快照，可随时撤销。",
+      restored: "已恢复 {date} 的快照",
+      undo: "撤销恢复",
+      undone: "已撤销恢复",
+      failed: "快照存储不可用",
+      reasons: {
+        daily: "每日",
+        clearLedger: "清空「{label}」前",
+        deleteLedger: "删除「{label}」前",
+        deleteRecord: "删除「{label}」中的记录前",
+        import: "导入前",
+        restore: "恢复前",
+      },
+    },
+    feePresets: {
+      title: "渠道费率预设",
+      subtitle: "为每家银行或金店设置名称、手续费率与固定费用",
+      name: "渠道名称",
+      feeRate: "费率",
+      fixedFee: "固定费用",
+      add: "添加",
+      remove: "删除预设",
+      empty: "暂无渠道，请在下方添加。",
+      close: "关闭",
     },
     shareModal: {
       title: "分享报告",
@@ -165,6 +895,7 @@ export const translations = {
         neon: "霓虹夜色",
       },
       downloadPng: "下载 PNG",
+      downloadPdf: "PDF 对账单",
       downloading: "生成中...",
       copyText: "复制文本",
       close: "关闭",
@@ -193,17 +924,116 @@ export const translations = {
       totalProfit: "当前总利润",
       projectedTotal: "预计总额",
       profitVariance: "利润差异",
-      avgCost: "平均克成本",
+      avgCost: "平均单位成本",
+      holdings: "当前持仓",
+      holdingAvgCost: "持仓均价",
+      marketValue: "市值",
+      unrealized: "浮动盈亏",
+      unpriced: "{weight} 暂无现货价格",
+      byMetal: "分品种",
+      traded: "成交",
     },
     form: {
       newTrade: "新交易记录",
-      grams: "克数 (Grams)",
-      feeRate: "手续费率 (小数)",
-      costPrice: "买入成本价 (￥)",
-      sellingPrice: "卖出成交价 (￥)",
-      targetPrice: "预期目标价 (￥)",
+      grams: "数量",
+      unit: "录入单位",
+      pricesPerUnit: "价格均以{currency}按每{unit}计",
+      feeRate: "卖出手续费率 (小数)",
+      buyFeeRate: "买入手续费率 (小数)",
+      fixedFee: "每笔固定费用",
+      minimumFee: "最低收费",
+      costPrice: "买入成本价",
+      sellingPrice: "卖出成交价",
+      targetPrice: "预期目标价",
+      currency: "交易币种",
+      tradedAt: "成交日期时间",
+      note: "备注",
+      notePlaceholder: "例如：婚礼礼金转卖",
+      tags: "标签",
+      tagsPlaceholder: "用逗号分隔，例如：银行活动, 礼品",
+      futureDate: "成交时间不能晚于当前时间",
+      invalidDate: "请输入有效的成交日期时间",
+      useLivePrice: "实时 {price}",
+      fxRate: "汇率 (1 {currency} = ? {base})",
       targetPlaceholder: "输入目标预测价",
       recordBtn: "记录此笔交易",
+      editTrade: "编辑交易记录",
+      saveBtn: "保存修改",
+      belowClosed: "克数不能低于该批次已卖出的克数",
+      afterClosingSell: "交易时间不能晚于已与该批次配对的卖出记录",
+      costBasis: "成本计算",
+      pickLots: "选择卖出批次",
+      lotRemaining: "剩余 {weight}",
+      channel: "交易渠道",
+      metal: "品种",
+      customChannel: "自定义（不指定渠道）",
+      side: "交易类型",
+      available: "当前持仓：{weight}",
+      exceedsHoldings: "卖出克数超过当前持仓",
+      noHoldings: "暂无可卖出的持仓",
+    },
+    sides: {
+      roundTrip: "完整买卖",
+      buy: "买入",
+      sell: "卖出",
+    },
+    units: {
+      g: "克",
+      ozt: "金衡盎司",
+      kg: "千克",
+      tael: "两",
+    },
+    unitSuffix: {
+      g: "g",
+      ozt: " 盎司",
+      kg: " kg",
+      tael: " 两",
+    },
+    displayUnit: "显示单位",
+    currencies: {
+      CNY: "CNY · 人民币",
+      USD: "USD · 美元",
+      HKD: "HKD · 港币",
+    },
+    baseCurrency: {
+      label: "记账币种",
+      hint: "请在记录交易前设置。仅更改金额的币种标签，不做换算。",
+      locked: "账本已有记录，无法更改：外币交易保存的汇率以此币种为基准。",
+    },
+    reportingCurrency: "汇总币种",
+    spotPrices: {
+      title: "现货价格历史",
+      subtitle: "按金属记录每日现货价格，用于计算持仓市值",
+      date: "日期",
+      price: "价格",
+      add: "保存",
+      remove: "删除价格",
+      empty: "暂无现货价格，可在下方添加或导入 CSV。",
+      importCsv: "导入 CSV",
+      importHint: "CSV 列：日期, 金属, 价格[, 币种]",
+      imported: "已导入 {count} 条价格，跳过 {skipped} 行",
+      close: "关闭",
+    },
+    fxRates: {
+      title: "汇率",
+      subtitle: "本地维护的汇率表，用于总账本汇总时换算各账本",
+      rate: "1 {currency} = ? CNY",
+      reset: "恢复默认",
+      close: "关闭",
+    },
+    metals: {
+      gold: "黄金",
+      silver: "白银",
+      platinum: "铂金",
+      palladium: "钯金",
+    },
+    costBasis: {
+      label: "成本计算",
+      hint: "仅影响之后的卖出；已记录的卖出保留原匹配批次。",
+      fifo: "先进先出",
+      lifo: "后进先出",
+      specific: "指定批次",
+      average: "加权平均",
     },
     table: {
       timeline: "时间线",
@@ -216,6 +1046,19 @@ export const translations = {
       sell: "售价",
       target: "目标",
       fee: "手续费",
+      open: "持仓中",
+      remaining: "剩余 {weight}",
+      fx: "@ {rate} {base}",
+      search: "搜索备注、标签或渠道",
+      filterTag: "按此标签筛选",
+      mismatch: "已重新计算",
+      mismatchHint: "存储的数值与计算结果不一致，已重新计算：{values}",
+      feeBuy: "买",
+      feeSell: "卖",
+      feeFixed: "固定",
+      feeMin: "最低",
+      allMetals: "全部品种",
+      noMatches: "该品种暂无记录",
     },
     report: {
       title: "AuraGold 交易报告",
@@ -224,8 +1067,29 @@ export const translations = {
       diff: "利率差/盈亏差异",
       volume: "总克重",
       count: "交易笔数",
+      holdings: "当前持仓",
       date: "生成时间",
     },
+    statement: {
+      title: "交易对账单",
+      period: "期间",
+      page: "第 {page} / {pages} 页",
+      empty: "暂无交易。",
+      subtotal: "{month} 小计 · {count} 笔",
+      columns: {
+        date: "日期",
+        ledger: "账本",
+        side: "方向",
+        metal: "品种",
+        weight: "重量",
+        cost: "成本价",
+        sell: "卖出价",
+        fee: "手续费",
+        actual: "实际盈亏",
+        projected: "预期盈亏",
+        margin: "收益率",
+      },
+    },
     ai: {
       noData: "暂无分析数据。",
       error: "目前无法生成分析。",
@@ -1,15 +1,164 @@
+export type TradeSide = "roundTrip" | "buy" | "sell";
+
+export type Metal = "gold" | "silver" | "platinum" | "palladium";
+
+export type WeightUnit = "g" | "ozt" | "kg" | "tael";
+
+export type Currency = "CNY" | "USD" | "HKD";
+
+// Value of one unit of each currency in CNY.
+export type FxRates = Record<Currency, number>;
+
+export type CostBasisMethod = "fifo" | "lifo" | "specific" | "average";
+
+export interface LotMatch {
+  buyId: string;
+  grams: number;
+  costPrice: number;
+}
+
+export interface FeeSchedule {
+  buyRate: number;
+  sellRate: number;
+  fixed: number;
+  minimum: number;
+}
+
+export interface FeePreset {
+  id: string;
+  name: string;
+  feeRate: number;
+  fixedFee?: number;
+}
+
+export type CsvDateFormat = "ymd" | "dmy" | "mdy";
+
+export type CsvDecimalFormat = "dot" | "comma";
+
+export type CsvImportField =
+  | "date"
+  | "side"
+  | "metal"
+  | "grams"
+  | "costPrice"
+  | "sellingPrice"
+  | "desiredPrice"
+  | "fee"
+  | "actualProfit"
+  | "projectedProfit"
+  | "profitMargin"
+  | "currency"
+  | "fxRate"
+  | "channel"
+  | "note"
+  | "tags";
+
+// A saved column mapping for repeat spreadsheet imports. Columns are matched
+// by header text so reordered sheets still map.
+export interface CsvImportPreset {
+  id: string;
+  name: string;
+  dateFormat: CsvDateFormat;
+  decimal: CsvDecimalFormat;
+  weightUnit: WeightUnit;
+  columns: Partial<Record<CsvImportField, string>>;
+}
 
 export interface TradeRecord {
   id: string;
+  side: TradeSide;
+  metal: Metal;
   grams: number;
   costPrice: number;
   sellingPrice: number;
-  handlingFeeRate: number;
+  fees: FeeSchedule;
   actualProfit: number;
   desiredPrice: number;
   projectedProfit: number;
   profitMargin: number;
   timestamp: number;
+  lotMatches?: LotMatch[];
+  channel?: string;
+  // Set when the trade was priced in a currency other than the ledger's base;
+  // fxRate is how many base units one unit of that currency was worth.
+  currency?: Currency;
+  fxRate?: number;
+  note?: string;
+  tags?: string[];
+  // Set on buys confirmed from a savings plan.
+  planId?: string;
+  // Stored profit figures that disagreed with the recalculated ones when the
+  // record was loaded or imported.
+  mismatches?: Partial<
+    Pick<TradeRecord, "actualProfit" | "projectedProfit" | "profitMargin">
+  >;
+}
+
+// A daily spot quote per gram, entered by hand or imported from CSV.
+export interface SpotPrice {
+  metal: Metal;
+  date: string;
+  price: number;
+  currency: Currency;
+}
+
+// A live quote per gram from the configured price provider.
+export interface PriceQuote {
+  metal: Metal;
+  price: number;
+  currency: Currency;
+  fetchedAt: number;
+}
+
+export type AlertKind = "target" | "stopLoss";
+
+// Thresholds are per gram in the ledger's base currency. Alerts scoped to a
+// position carry the buy leg's id; the rest watch the whole ledger.
+export interface PriceAlert {
+  id: string;
+  kind: AlertKind;
+  metal: Metal;
+  price: number;
+  buyId?: string;
+  createdAt: number;
+}
+
+export interface TriggeredAlert {
+  id: string;
+  alertId: string;
+  kind: AlertKind;
+  metal: Metal;
+  price: number;
+  marketPrice: number;
+  buyId?: string;
+  triggeredAt: number;
+}
+
+export type PlanFrequency = "weekly" | "biweekly" | "monthly";
+
+// "amount" plans spend a fixed sum in the ledger's base currency each period;
+// "grams" plans buy a fixed weight.
+export type PlanBasis = "amount" | "grams";
+
+export interface SavingsPlan {
+  id: string;
+  name: string;
+  metal: Metal;
+  basis: PlanBasis;
+  quantity: number;
+  frequency: PlanFrequency;
+  startDate: string;
+  channel?: string;
+  active: boolean;
+  createdAt: number;
+  // Last due date that already produced a pending entry.
+  scheduledThrough?: string;
+}
+
+export interface PendingEntry {
+  id: string;
+  planId: string;
+  dueDate: string;
 }
 
 export interface Ledger {
@@ -17,12 +166,35 @@ export interface Ledger {
   name: string;
   records: TradeRecord[];
   createdAt: number;
+  costBasisMethod?: CostBasisMethod;
+  baseCurrency?: Currency;
+  alerts?: PriceAlert[];
+  alertHistory?: TriggeredAlert[];
+  plans?: SavingsPlan[];
+  pendingEntries?: PendingEntry[];
+}
+
+export interface MetalTotals {
+  totalProfit: number;
+  totalGrams: number;
+  holdingGrams: number;
+  holdingAvgCost: number;
 }
 
 export interface TradeSummary {
+  currency: Currency;
   totalProfit: number;
   totalProjectedProfit: number;
   totalGrams: number;
   avgCostPrice: number;
   profitDifference: number;
+  // Across every metal held; byMetal has each metal's own figures.
+  holdingGrams: number;
+  holdingAvgCost: number;
+  // Mark-to-market of open holdings at the latest spot price; holdings of a
+  // metal with no price on record are left out and counted as unpriced.
+  marketValue: number;
+  unrealizedProfit: number;
+  unpricedGrams: number;
+  byMetal: Partial<Record<Metal, MetalTotals>>;
 }
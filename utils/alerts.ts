@@ -0,0 +1,73 @@
+import {
+  AlertKind,
+  Currency,
+  FxRates,
+  Metal,
+  PriceAlert,
+  TriggeredAlert,
+} from "../types";
+import { crossRate } from "./currency";
+
+export const ALERT_KINDS: AlertKind[] = ["target", "stopLoss"];
+
+// Only the most recent triggers are kept per ledger.
+export const ALERT_HISTORY_LIMIT = 100;
+
+export type MarketPrices = Partial<
+  Record<Metal, { price: number; currency: Currency }>
+>;
+
+export const isAlertHit = (alert: PriceAlert, marketPrice: number) =>
+  alert.kind === "target"
+    ? marketPrice >= alert.price
+    : marketPrice <= alert.price;
+
+// Alerts fire once: each hit is returned as a history entry and the caller
+// drops the alert. Position alerts whose lot has closed are left alone.
+export const evaluateAlerts = (
+  alerts: PriceAlert[],
+  prices: MarketPrices,
+  baseCurrency: Currency,
+  fxRates: FxRates,
+  openLotIds: Set<string>,
+  now: number,
+): TriggeredAlert[] => {
+  const triggered: TriggeredAlert[] = [];
+  for (const alert of alerts) {
+    const quote = prices[alert.metal];
+    if (!quote) continue;
+    if (alert.buyId && !openLotIds.has(alert.buyId)) continue;
+    const marketPrice =
+      quote.price * crossRate(quote.currency, baseCurrency, fxRates);
+    if (!isAlertHit(alert, marketPrice)) continue;
+    triggered.push({
+      id: `${alert.id}-${now}`,
+      alertId: alert.id,
+      kind: alert.kind,
+      metal: alert.metal,
+      price: alert.price,
+      marketPrice,
+      ...(alert.buyId ? { buyId: alert.buyId } : {}),
+      triggeredAt: now,
+    });
+  }
+  return triggered;
+};
+
+export const notifyBrowser = (title: string, body: string) => {
+  if (typeof Notification === "undefined") return;
+  if (Notification.permission !== "granted") return;
+  try {
+    new Notification(title, { body });
+  } catch (e) {
+    // Some mobile browsers only allow notifications from a service worker.
+    console.error("Notification failed", e);
+  }
+};
+
+export const requestNotificationPermission = () => {
+  if (typeof Notification === "undefined") return;
+  if (Notification.permission === "default") {
+    void Notification.requestPermission();
+  }
+};
@@ -0,0 +1,195 @@
+// Passphrase-protected backups. The passphrase is stretched with PBKDF2 into
+// an AES-GCM key plus a separate check value; the check tells a wrong
+// passphrase apart from a file whose contents were altered, which GCM alone
+// reports the same way.
+
+export type EncryptedBackup = {
+  schema: "auragold.export";
+  version: 1;
+  kind: "encrypted";
+  exportedAt: string;
+  kdf: { name: "PBKDF2"; hash: "SHA-256"; iterations: number; salt: string };
+  cipher: { name: "AES-GCM"; iv: string };
+  check: string;
+  data: string;
+};
+
+export type BackupErrorReason =
+  "locked" | "passphrase" | "tampered" | "unsupported" | "unavailable";
+
+export class BackupError extends Error {
+  constructor(readonly reason: BackupErrorReason) {
+    super(`Encrypted backup: ${reason}`);
+    this.name = "BackupError";
+  }
+}
+
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+const ITERATIONS = 600_000;
+
+// Refuses files that would stall the tab deriving a key.
+const MAX_ITERATIONS = 10_000_000;
+
+const encoder = new TextEncoder();
+
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const fromBase64 = (text: string) => {
+  try {
+    const binary = atob(text);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return bytes;
+  } catch {
+    throw new BackupError("tampered");
+  }
+};
+
+const subtle = () => {
+  if (typeof crypto === "undefined" || !crypto.subtle) {
+    // WebCrypto is only exposed on https:// and localhost.
+    throw new BackupError("unavailable");
+  }
+  return crypto.subtle;
+};
+
+const deriveKeys = async (
+  passphrase: string,
+  salt: Uint8Array,
+  iterations: number,
+) => {
+  const base = await subtle().importKey(
+    "raw",
+    encoder.encode(passphrase),
+    "PBKDF2",
+    false,
+    ["deriveBits"],
+  );
+  const bits = new Uint8Array(
+    await subtle().deriveBits(
+      { name: "PBKDF2", hash: "SHA-256", salt, iterations },
+      base,
+      512,
+    ),
+  );
+  const key = await subtle().importKey(
+    "raw",
+    bits.slice(0, 32),
+    "AES-GCM",
+    false,
+    ["encrypt", "decrypt"],
+  );
+  const check = new Uint8Array(
+    await subtle().digest("SHA-256", bits.slice(32)),
+  );
+  return { key, check: toBase64(check) };
+};
+
+// The header fields that steer decryption are bound to the ciphertext as
+// associated data.
+const associatedData = (backup: Omit<EncryptedBackup, "data">) =>
+  encoder.encode(
+    JSON.stringify([
+      backup.schema,
+      backup.version,
+      backup.kdf,
+      backup.cipher,
+      backup.check,
+    ]),
+  );
+
+export const isEncryptedBackup = (value: unknown): value is EncryptedBackup =>
+  !!value &&
+  typeof value === "object" &&
+  (value as { schema?: unknown }).schema === "auragold.export" &&
+  (value as { kind?: unknown }).kind === "encrypted";
+
+export const encryptBackup = async (
+  payload: unknown,
+  passphrase: string,
+): Promise<EncryptedBackup> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const { key, check } = await deriveKeys(passphrase, salt, ITERATIONS);
+  const header: Omit<EncryptedBackup, "data"> = {
+    schema: "auragold.export",
+    version: 1,
+    kind: "encrypted",
+    exportedAt: new Date().toISOString(),
+    kdf: {
+      name: "PBKDF2",
+      hash: "SHA-256",
+      iterations: ITERATIONS,
+      salt: toBase64(salt),
+    },
+    cipher: { name: "AES-GCM", iv: toBase64(iv) },
+    check,
+  };
+  const data = await subtle().encrypt(
+    { name: "AES-GCM", iv, additionalData: associatedData(header) },
+    key,
+    encoder.encode(JSON.stringify(payload)),
+  );
+  return { ...header, data: toBase64(new Uint8Array(data)) };
+};
+
+// Resolves to the original payload, or rejects with a BackupError saying
+// whether the passphrase was wrong or the file was changed.
+export const decryptBackup = async (
+  backup: EncryptedBackup,
+  passphrase: string,
+): Promise<unknown> => {
+  const { kdf, cipher } = backup;
+  if (
+    backup.version !== 1 ||
+    kdf?.name !== "PBKDF2" ||
+    kdf.hash !== "SHA-256" ||
+    cipher?.name !== "AES-GCM"
+  ) {
+    throw new BackupError("unsupported");
+  }
+  if (
+    !Number.isInteger(kdf.iterations) ||
+    kdf.iterations < 1 ||
+    kdf.iterations > MAX_ITERATIONS ||
+    typeof kdf.salt !== "string" ||
+    typeof cipher.iv !== "string" ||
+    typeof backup.check !== "string" ||
+    typeof backup.data !== "string"
+  ) {
+    throw new BackupError("tampered");
+  }
+  const { key, check } = await deriveKeys(
+    passphrase,
+    fromBase64(kdf.salt),
+    kdf.iterations,
+  );
+  if (check !== backup.check) throw new BackupError("passphrase");
+
+  let plain: ArrayBuffer;
+  try {
+    plain = await subtle().decrypt(
+      {
+        name: "AES-GCM",
+        iv: fromBase64(cipher.iv),
+        additionalData: associatedData(backup),
+      },
+      key,
+      fromBase64(backup.data),
+    );
+  } catch {
+    throw new BackupError("tampered");
+  }
+  try {
+    return JSON.parse(new TextDecoder().decode(plain));
+  } catch {
+    throw new BackupError("tampered");
+  }
+};
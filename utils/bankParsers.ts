@@ -0,0 +1,57 @@
+import {
+  BankStatementParser,
+  GENERIC_BANK_PARSER,
+  matchesSignature,
+} from "./bankStatement";
+
+// Layouts of the statement downloads we have seen. Add a bank by listing its
+// distinctive headers and column names; anything unrecognised falls back to
+// the generic header matcher.
+
+// ICBC 如意积存金: one row per order with a serial number.
+const ICBC: BankStatementParser = {
+  id: "icbc",
+  label: { en: "ICBC Gold Accumulation", zh: "工商银行 积存金" },
+  signature: ["交易流水号", "交易克重", "成交价格"],
+  columns: {
+    date: ["交易日期"],
+    time: ["交易时间"],
+    serial: ["交易流水号"],
+    side: ["交易类型"],
+    grams: ["交易克重"],
+    price: ["成交价格"],
+    amount: ["成交金额"],
+    fee: ["手续费"],
+  },
+  channel: "工商银行",
+};
+
+// CCB 易存金: compact dates (20240105, 101500), no serial, and failed
+// orders listed with a status.
+const CCB: BankStatementParser = {
+  id: "ccb",
+  label: { en: "CCB Yi Cun Jin", zh: "建设银行 易存金" },
+  signature: ["业务类型", "交易重量", "交易单价", "交易状态"],
+  columns: {
+    date: ["交易日期"],
+    time: ["交易时间"],
+    side: ["业务类型"],
+    grams: ["交易重量"],
+    price: ["交易单价"],
+    amount: ["交易金额"],
+    fee: ["手续费"],
+    status: ["交易状态"],
+    note: ["备注"],
+  },
+  channel: "建设银行",
+};
+
+export const BANK_STATEMENT_PARSERS: BankStatementParser[] = [
+  ICBC,
+  CCB,
+  GENERIC_BANK_PARSER,
+];
+
+export const detectBankParser = (table: string[][]) =>
+  BANK_STATEMENT_PARSERS.find((p) => matchesSignature(table, p)) ??
+  GENERIC_BANK_PARSER;
@@ -0,0 +1,370 @@
+import { CsvImportField, CsvImportPreset, FxRates, Ledger } from "../types";
+import { Language } from "../translations";
+import { CSV_DELIMITERS, decodeCsv, parseCsv } from "./csv";
+import {
+  buildCsvRecords,
+  CsvAliases,
+  CsvRowResult,
+  CSV_IMPORT_FIELDS,
+} from "./csvImport";
+import { DEFAULT_CURRENCY } from "./currency";
+import { readXlsxRows } from "./xlsx";
+
+// Transaction statements downloaded from banks' gold accumulation (积存金)
+// accounts. A parser describes one bank's layout; rows are normalized into
+// the CSV import fields and built into records by buildCsvRecords, so lot
+// matching and profit derivation work exactly as for a CSV import.
+
+export type BankColumn =
+  | "date"
+  | "time"
+  | "serial"
+  | "side"
+  | "grams"
+  | "price"
+  | "amount"
+  | "fee"
+  | "status"
+  | "note";
+
+// Header texts per column, compared without spaces and bracketed units, so
+// "交易克重(克)" matches "交易克重".
+export type BankColumnNames = Partial<Record<BankColumn, string[]>>;
+
+export type BankStatementParser = {
+  id: string;
+  label: Record<Language, string>;
+  // Headers that together only appear in this bank's statements.
+  signature: string[];
+  columns: BankColumnNames;
+  // Recorded as each trade's channel.
+  channel?: string;
+};
+
+export type BankRow = {
+  // 1-based row in the file.
+  line: number;
+  // Identifies the transaction across repeated downloads of a statement.
+  key: string;
+  cells: Partial<Record<CsvImportField, string>>;
+};
+
+export type StatementFileErrorReason = "legacyXls" | "empty";
+
+export class StatementFileError extends Error {
+  constructor(readonly reason: StatementFileErrorReason) {
+    super(`Bank statement: ${reason}`);
+    this.name = "StatementFileError";
+  }
+}
+
+// Transaction types are matched by substring, sells first: "主动卖出" must
+// not read as a buy.
+const SELL_WORDS = ["卖出", "赎回", "回售", "变现", "sell", "redeem"];
+const BUY_WORDS = ["买入", "积存", "定投", "申购", "购买", "buy"];
+
+// Rows in these states never moved any gold.
+const FAILED_WORDS = ["失败", "撤销", "撤单", "冲正", "已退回"];
+
+// Labels of the total lines under the table.
+const FOOTER_WORDS = ["合计", "总计", "小计", "共计"];
+
+const HEADER_SEARCH_ROWS = 30;
+
+export const GENERIC_BANK_PARSER: BankStatementParser = {
+  id: "generic",
+  label: { en: "Other bank (match by headers)", zh: "其他银行（按表头匹配）" },
+  signature: [],
+  columns: {
+    date: ["交易日期", "成交日期", "日期", "交易时间", "date"],
+    time: ["交易时间", "成交时间", "时间", "time"],
+    serial: ["交易流水号", "流水号", "交易编号", "订单号", "serial"],
+    side: [
+      "交易类型",
+      "业务类型",
+      "交易方向",
+      "买卖方向",
+      "摘要",
+      "type",
+      "side",
+    ],
+    grams: [
+      "交易克重",
+      "成交克重",
+      "交易重量",
+      "成交重量",
+      "克重",
+      "重量",
+      "克数",
+      "grams",
+      "weight",
+    ],
+    price: [
+      "成交价格",
+      "成交价",
+      "交易价格",
+      "交易单价",
+      "单价",
+      "价格",
+      "price",
+    ],
+    amount: ["成交金额", "交易金额", "金额", "amount"],
+    fee: ["手续费", "费用", "fee"],
+    status: ["交易状态", "状态", "status"],
+    note: ["备注", "附言", "note"],
+  },
+};
+
+const normalizeHeader = (value: string) =>
+  value
+    .toLowerCase()
+    .replace(/[(（][^)）]*[)）]/g, "")
+    .replace(/[\s_:：]/g, "");
+
+const findColumns = (headers: string[], columns: BankColumnNames) => {
+  const normalized = headers.map(normalizeHeader);
+  const found: Partial<Record<BankColumn, number>> = {};
+  const taken = new Set<number>();
+  // Earlier names are more specific, so each name is tried across every
+  // header before the next one.
+  for (const column of Object.keys(columns) as BankColumn[]) {
+    for (const name of columns[column] ?? []) {
+      const index = normalized.findIndex(
+        (h, i) => !taken.has(i) && h === normalizeHeader(name),
+      );
+      if (index >= 0) {
+        found[column] = index;
+        taken.add(index);
+        break;
+      }
+    }
+  }
+  return found;
+};
+
+// The statement's table starts at the first row naming at least a date and
+// a weight column; title and account lines above it are skipped.
+const findHeader = (table: string[][], columns: BankColumnNames) => {
+  for (let i = 0; i < Math.min(table.length, HEADER_SEARCH_ROWS); i++) {
+    const found = findColumns(table[i], columns);
+    if (found.date !== undefined && found.grams !== undefined) {
+      return { index: i, found };
+    }
+  }
+  return null;
+};
+
+export const matchesSignature = (
+  table: string[][],
+  parser: BankStatementParser,
+) =>
+  parser.signature.length > 0 &&
+  table.slice(0, HEADER_SEARCH_ROWS).some((row) => {
+    const headers = new Set(row.map(normalizeHeader));
+    return parser.signature.every((h) => headers.has(normalizeHeader(h)));
+  });
+
+// "20240105" and spreadsheet serial days become "2024-01-05"; "101500"
+// becomes "10:15:00". Anything else is left for parseDate.
+const normalizeDate = (raw: string) => {
+  const text = raw.trim();
+  if (/^\d{8}$/.test(text)) {
+    return `${text.slice(0, 4)}-${text.slice(4, 6)}-${text.slice(6)}`;
+  }
+  if (/^\d{5}(\.\d+)?$/.test(text)) {
+    const serial = Number(text);
+    const iso = new Date(Math.round((serial - 25569) * 86400000)).toISOString();
+    return Number.isInteger(serial)
+      ? iso.slice(0, 10)
+      : iso.slice(0, 19).replace("T", " ");
+  }
+  return text;
+};
+
+const normalizeTime = (raw: string) => {
+  const text = raw.trim();
+  if (/^\d{6}$/.test(text)) {
+    return `${text.slice(0, 2)}:${text.slice(2, 4)}:${text.slice(4)}`;
+  }
+  return text;
+};
+
+const number = (raw: string) => {
+  const text = raw.replace(/[^\d.-]/g, "");
+  const value = Number(text);
+  return text && Number.isFinite(value) ? value : null;
+};
+
+const sideFromText = (raw: string) => {
+  const text = raw.trim().toLowerCase();
+  if (SELL_WORDS.some((w) => text.includes(w))) return "sell";
+  if (BUY_WORDS.some((w) => text.includes(w))) return "buy";
+  return null;
+};
+
+// The transaction rows of `table` in `parser`'s layout, or null when no
+// header row is found. Failed transactions and total lines are left out.
+export const extractBankRows = (
+  table: string[][],
+  parser: BankStatementParser,
+): BankRow[] | null => {
+  const header = findHeader(table, parser.columns);
+  if (!header) return null;
+  const { found } = header;
+  const rows: BankRow[] = [];
+  for (let i = header.index + 1; i < table.length; i++) {
+    const row = table[i];
+    const cell = (column: BankColumn) => {
+      const index = found[column];
+      return index === undefined ? "" : (row[index] ?? "").trim();
+    };
+    const first = row.find((c) => c.trim())?.trim() ?? "";
+    if (FOOTER_WORDS.some((w) => first.startsWith(w))) break;
+    if (row.filter((c) => c.trim()).length < 2) continue;
+    if (FAILED_WORDS.some((w) => cell("status").includes(w))) continue;
+
+    const rawSide = cell("side");
+    const side = rawSide ? (sideFromText(rawSide) ?? rawSide) : "";
+    const grams = number(cell("grams"));
+    const amount = number(cell("amount"));
+    // Statements list either the unit price or only the amount paid.
+    const price =
+      number(cell("price")) ??
+      (amount !== null && grams ? Math.abs(amount / grams) : null);
+    const date = [normalizeDate(cell("date")), normalizeTime(cell("time"))]
+      .filter(Boolean)
+      // The generic layout may find one combined column for both.
+      .filter((part, j, parts) => j === 0 || !parts[0].includes(part))
+      .join(" ");
+    const priceText = price === null ? "" : String(price);
+
+    rows.push({
+      line: i + 1,
+      key:
+        cell("serial") ||
+        [date, rawSide, cell("grams"), cell("amount") || cell("price")].join(
+          "|",
+        ),
+      cells: {
+        date,
+        ...(side ? { side } : {}),
+        grams: grams === null ? "" : String(Math.abs(grams)),
+        ...(side === "sell"
+          ? { sellingPrice: priceText }
+          : { costPrice: priceText }),
+        ...(cell("fee") ? { fee: cell("fee") } : {}),
+        ...(parser.channel ? { channel: parser.channel } : {}),
+        ...(cell("note") ? { note: cell("note") } : {}),
+      },
+    });
+  }
+  return rows;
+};
+
+// FNV-1a, enough to turn a row key into a short stable id.
+const hash = (text: string) => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0).toString(36);
+};
+
+// Ids derive from the row contents, so importing the same statement again
+// yields the same records and the import review reports them as unchanged.
+const rowIds = (parserId: string, rows: BankRow[]) => {
+  const seen = new Map<string, number>();
+  return rows.map((row) => {
+    const n = seen.get(row.key) ?? 0;
+    seen.set(row.key, n + 1);
+    return `bank-${parserId}-${hash(row.key)}${n > 0 ? `-${n}` : ""}`;
+  });
+};
+
+const IDENTITY_PRESET: CsvImportPreset = {
+  id: "",
+  name: "",
+  dateFormat: "ymd",
+  decimal: "dot",
+  weightUnit: "g",
+  columns: Object.fromEntries(CSV_IMPORT_FIELDS.map((f) => [f, f])),
+};
+
+// Rows carry canonical sides, so only the keys themselves need to match.
+const ALIASES: CsvAliases = {
+  sides: { roundTrip: [], buy: [], sell: [] },
+  metals: { gold: [], silver: [], platinum: [], palladium: [] },
+};
+
+// Results are keyed by the rows' own lines. Records already imported from
+// an earlier copy of the statement are left out of lot matching, otherwise
+// their sells would be counted twice.
+export const buildBankRecords = (
+  rows: BankRow[],
+  parserId: string,
+  ledger: Ledger,
+  fxRates: FxRates,
+): CsvRowResult[] => {
+  const ids = rowIds(parserId, rows);
+  const incoming = new Set(ids);
+  const table = [
+    CSV_IMPORT_FIELDS,
+    ...rows.map((r) => CSV_IMPORT_FIELDS.map((f) => r.cells[f] ?? "")),
+  ];
+  return buildCsvRecords(
+    table,
+    IDENTITY_PRESET,
+    ALIASES,
+    {
+      records: ledger.records.filter((r) => !incoming.has(r.id)),
+      baseCurrency: ledger.baseCurrency ?? DEFAULT_CURRENCY,
+      costBasisMethod: ledger.costBasisMethod ?? "fifo",
+      fxRates,
+    },
+    (line) => ids[line - 2],
+  ).map((result) => ({ ...result, line: rows[result.line - 2].line }));
+};
+
+// CSV and tab-separated text, the HTML tables many banks save as .xls, and
+// .xlsx workbooks. Binary .xls files have to be re-saved in one of those.
+export const readStatementTable = async (file: File): Promise<string[][]> => {
+  const buffer = await file.arrayBuffer();
+  const bytes = new Uint8Array(buffer);
+  if (bytes[0] === 0x50 && bytes[1] === 0x4b) {
+    const rows = await readXlsxRows(bytes);
+    if (rows.length === 0) throw new StatementFileError("empty");
+    return rows;
+  }
+  if (bytes[0] === 0xd0 && bytes[1] === 0xcf && bytes[2] === 0x11) {
+    throw new StatementFileError("legacyXls");
+  }
+  const { text } = decodeCsv(buffer);
+  const rows = /<table[\s>]/i.test(text)
+    ? htmlTableRows(text)
+    : parseCsv(text, statementDelimiter(text));
+  if (rows.length === 0) throw new StatementFileError("empty");
+  return rows;
+};
+
+// Title lines above the table have a single cell, which throws off
+// detectDelimiter; the delimiter giving the widest row wins instead.
+const statementDelimiter = (text: string) => {
+  const sample = text.split(/\r?\n/).slice(0, HEADER_SEARCH_ROWS).join("\n");
+  const width = (delimiter: string) =>
+    Math.max(0, ...parseCsv(sample, delimiter).map((r) => r.length));
+  return CSV_DELIMITERS.reduce((best, d) =>
+    width(d) > width(best) ? d : best,
+  );
+};
+
+const htmlTableRows = (html: string) => {
+  const doc = new DOMParser().parseFromString(html, "text/html");
+  return Array.from<HTMLTableRowElement>(doc.querySelectorAll("tr"))
+    .map((tr) =>
+      Array.from<HTMLTableCellElement>(tr.cells).map((td) =>
+        (td.textContent ?? "").replace(/\s+/g, " ").trim(),
+      ),
+    )
+    .filter((cells) => cells.some(Boolean));
+};
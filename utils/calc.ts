@@ -0,0 +1,155 @@
+import { FeeSchedule, TradeRecord, TradeSide } from "../types";
+
+// All money is settled in integer cents. Rounding rules:
+// - every order's turnover (grams × price) and every fee is rounded to the
+//   cent on its own, the way a statement line would be;
+// - profits are sums of those cent amounts, so they never need rounding;
+// - halves round away from zero, after dropping binary noise past 12
+//   significant digits (so 1.005 is treated as 1.005, not 1.00499…);
+// - margins are percentages rounded to two decimals.
+// Per-gram prices and weights are rates, not amounts, and are left as is.
+
+const clean = (value: number) => Number(value.toPrecision(12));
+
+const roundHalfAway = (value: number) =>
+  Math.sign(value) * Math.round(Math.abs(clean(value)));
+
+export const toCents = (amount: number) => roundHalfAway(amount * 100);
+
+export const fromCents = (cents: number) => cents / 100;
+
+export const roundMoney = (amount: number) => fromCents(toCents(amount));
+
+export const sumMoney = (amounts: number[]) =>
+  fromCents(amounts.reduce((acc, amount) => acc + toCents(amount), 0));
+
+const roundPercent = (value: number) => roundHalfAway(value * 100) / 100;
+
+const turnoverCents = (grams: number, price: number) => toCents(grams * price);
+
+// Fee charged on one order: rate on turnover plus the flat fee, floored at
+// the minimum charge. Orders that did not happen cost nothing.
+const orderFeeCents = (turnover: number, rate: number, fees: FeeSchedule) => {
+  if (turnover <= 0) return 0;
+  return Math.max(
+    toCents(fromCents(turnover) * rate) + toCents(fees.fixed),
+    toCents(fees.minimum),
+  );
+};
+
+export type FeeBreakdown = {
+  buy: number;
+  sell: number;
+  total: number;
+};
+
+const feeCents = (
+  side: TradeSide,
+  grams: number,
+  costPrice: number,
+  sellingPrice: number,
+  fees: FeeSchedule,
+) => {
+  const buy =
+    side === "sell"
+      ? 0
+      : orderFeeCents(turnoverCents(grams, costPrice), fees.buyRate, fees);
+  const sell =
+    side === "buy"
+      ? 0
+      : orderFeeCents(turnoverCents(grams, sellingPrice), fees.sellRate, fees);
+  return { buy, sell };
+};
+
+export const computeFees = (
+  side: TradeSide,
+  grams: number,
+  costPrice: number,
+  sellingPrice: number,
+  fees: FeeSchedule,
+): FeeBreakdown => {
+  const { buy, sell } = feeCents(side, grams, costPrice, sellingPrice, fees);
+  return {
+    buy: fromCents(buy),
+    sell: fromCents(sell),
+    total: fromCents(buy + sell),
+  };
+};
+
+export const recordFees = (record: TradeRecord) =>
+  computeFees(
+    record.side,
+    record.grams,
+    record.costPrice,
+    record.sellingPrice,
+    record.fees,
+  );
+
+export type DerivedFields = Pick<
+  TradeRecord,
+  "actualProfit" | "projectedProfit" | "profitMargin"
+>;
+
+export type DerivedField = keyof DerivedFields;
+
+export const DERIVED_FIELDS: DerivedField[] = [
+  "actualProfit",
+  "projectedProfit",
+  "profitMargin",
+];
+
+// Profit of trading `grams` bought at `cost` and sold at `sale`, net of the
+// fees `side` incurs.
+const netCents = (
+  side: TradeSide,
+  grams: number,
+  cost: number,
+  sale: number,
+  fees: FeeSchedule,
+) => {
+  const { buy, sell } = feeCents(side, grams, cost, sale, fees);
+  return turnoverCents(grams, sale) - turnoverCents(grams, cost) - buy - sell;
+};
+
+// Buy legs realize nothing until a later sell closes them; their projection
+// assumes a full round trip at the target price.
+export const deriveTradeFields = (
+  record: Pick<
+    TradeRecord,
+    "side" | "grams" | "costPrice" | "sellingPrice" | "desiredPrice" | "fees"
+  >,
+): DerivedFields => {
+  const { side, grams, costPrice, sellingPrice, desiredPrice, fees } = record;
+  const actual =
+    side === "buy" ? 0 : netCents(side, grams, costPrice, sellingPrice, fees);
+  const projected = netCents(
+    side === "buy" ? "roundTrip" : side,
+    grams,
+    costPrice,
+    desiredPrice,
+    fees,
+  );
+  const cost = turnoverCents(grams, costPrice);
+  return {
+    actualProfit: fromCents(actual),
+    projectedProfit: fromCents(projected),
+    profitMargin:
+      side === "buy" || cost === 0 ? 0 : roundPercent((actual / cost) * 100),
+  };
+};
+
+// Stored values further than a cent (or 0.01%) from the recomputed ones.
+export const derivedMismatches = (
+  stored: Partial<DerivedFields>,
+  derived: DerivedFields,
+): Partial<DerivedFields> => {
+  const mismatches: Partial<DerivedFields> = {};
+  for (const field of DERIVED_FIELDS) {
+    const value = stored[field];
+    if (value === undefined) continue;
+    if (Math.abs(toCents(value) - toCents(derived[field])) > 1) {
+      mismatches[field] = value;
+    }
+  }
+  return mismatches;
+};
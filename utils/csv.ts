@@ -0,0 +1,183 @@
+import { Ledger, TradeRecord } from "../types";
+import { recordFees } from "./calc";
+import { DEFAULT_CURRENCY } from "./currency";
+
+export type CsvColumn =
+  | "date"
+  | "ledger"
+  | "side"
+  | "metal"
+  | "grams"
+  | "costPrice"
+  | "sellingPrice"
+  | "fee"
+  | "actualProfit"
+  | "projectedProfit"
+  | "margin"
+  | "currency";
+
+export const CSV_COLUMNS: CsvColumn[] = [
+  "date",
+  "ledger",
+  "side",
+  "metal",
+  "grams",
+  "costPrice",
+  "sellingPrice",
+  "fee",
+  "actualProfit",
+  "projectedProfit",
+  "margin",
+  "currency",
+];
+
+export type CsvRow = { ledger: Ledger; record: TradeRecord };
+
+type Cell = string | number;
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+// Local time without seconds; spreadsheets parse this form as a date.
+const formatDate = (timestamp: number) => {
+  const d = new Date(timestamp);
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())} ${pad(
+    d.getHours(),
+  )}:${pad(d.getMinutes())}`;
+};
+
+// Text that starts like a formula is prefixed so spreadsheets show it as is.
+const escapeCell = (cell: Cell) => {
+  if (typeof cell === "number") return String(cell);
+  const text = /^[=+\-@]/.test(cell) ? `'${cell}` : cell;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: Cell[][]) =>
+  rows.map((row) => row.map(escapeCell).join(",")).join("\r\n");
+
+// Prices are per gram and amounts are in each record's own currency, left as
+// plain numbers so the sheet can total them.
+const cellFor = (
+  column: CsvColumn,
+  { ledger, record }: CsvRow,
+  labels: CsvLabels,
+): Cell => {
+  switch (column) {
+    case "date":
+      return formatDate(record.timestamp);
+    case "ledger":
+      return ledger.name;
+    case "side":
+      return labels.sides[record.side];
+    case "metal":
+      return labels.metals[record.metal];
+    case "grams":
+      return record.grams;
+    case "costPrice":
+      return record.costPrice;
+    case "sellingPrice":
+      return record.side === "buy" ? "" : record.sellingPrice;
+    case "fee":
+      return recordFees(record).total;
+    case "actualProfit":
+      return record.side === "buy" ? "" : record.actualProfit;
+    case "projectedProfit":
+      return record.projectedProfit;
+    case "margin":
+      return record.side === "buy" ? "" : record.profitMargin;
+    case "currency":
+      return record.currency ?? ledger.baseCurrency ?? DEFAULT_CURRENCY;
+  }
+};
+
+export type CsvLabels = {
+  headers: Record<CsvColumn, string>;
+  sides: Record<TradeRecord["side"], string>;
+  metals: Record<TradeRecord["metal"], string>;
+};
+
+export const recordsToCsv = (
+  rows: CsvRow[],
+  columns: CsvColumn[],
+  labels: CsvLabels,
+) =>
+  toCsv([
+    columns.map((c) => labels.headers[c]),
+    ...rows.map((row) => columns.map((c) => cellFor(c, row, labels))),
+  ]);
+
+export const CSV_DELIMITERS = [",", ";", "\t", "|"];
+
+// Bank and broker exports are UTF-8 (often with a BOM), UTF-16 from Excel's
+// "Unicode text", or GB18030 from older Chinese software.
+export const decodeCsv = (buffer: ArrayBuffer) => {
+  const bytes = new Uint8Array(buffer);
+  if (bytes[0] === 0xff && bytes[1] === 0xfe)
+    return {
+      text: new TextDecoder("utf-16le").decode(bytes),
+      encoding: "UTF-16LE",
+    };
+  if (bytes[0] === 0xfe && bytes[1] === 0xff)
+    return {
+      text: new TextDecoder("utf-16be").decode(bytes),
+      encoding: "UTF-16BE",
+    };
+  try {
+    return {
+      text: new TextDecoder("utf-8", { fatal: true }).decode(bytes),
+      encoding: "UTF-8",
+    };
+  } catch {
+    return {
+      text: new TextDecoder("gb18030").decode(bytes),
+      encoding: "GB18030",
+    };
+  }
+};
+
+// Quoted cells may hold delimiters, doubled quotes and line breaks. Blank
+// lines are dropped.
+export const parseCsv = (text: string, delimiter: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  const endRow = () => {
+    row.push(cell);
+    if (row.some((c) => c.trim())) rows.push(row.map((c) => c.trim()));
+    row = [];
+    cell = "";
+  };
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch !== '"') cell += ch;
+      else if (text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else quoted = false;
+    } else if (ch === '"') quoted = true;
+    else if (ch === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (ch === "\n") endRow();
+    else if (ch !== "\r") cell += ch;
+  }
+  if (cell || row.length > 0) endRow();
+  return rows;
+};
+
+// The delimiter that splits the first lines into the most rows of the same,
+// multi-column width as the header.
+export const detectDelimiter = (text: string) => {
+  const sample = text.split(/\r?\n/).slice(0, 20).join("\n");
+  let best = { delimiter: ",", score: -1 };
+  for (const delimiter of CSV_DELIMITERS) {
+    const rows = parseCsv(sample, delimiter);
+    const width = rows[0]?.length ?? 0;
+    if (width < 2) continue;
+    const score = rows.filter((r) => r.length === width).length * 100 + width;
+    if (score > best.score) best = { delimiter, score };
+  }
+  return best.delimiter;
+};
@@ -0,0 +1,355 @@
+import {
+  CostBasisMethod,
+  CsvDateFormat,
+  CsvDecimalFormat,
+  CsvImportField,
+  CsvImportPreset,
+  Currency,
+  FeeSchedule,
+  FxRates,
+  Metal,
+  TradeRecord,
+  TradeSide,
+} from "../types";
+import { deriveTradeFields, derivedMismatches } from "./calc";
+import { crossRate, isCurrency } from "./currency";
+import { getOpenLots, matchSell, matchedCostPrice, METALS } from "./positions";
+import { pricePerGram, toGrams } from "./units";
+
+export const CSV_IMPORT_FIELDS: CsvImportField[] = [
+  "date",
+  "side",
+  "metal",
+  "grams",
+  "costPrice",
+  "sellingPrice",
+  "desiredPrice",
+  "fee",
+  "actualProfit",
+  "projectedProfit",
+  "profitMargin",
+  "currency",
+  "fxRate",
+  "channel",
+  "note",
+  "tags",
+];
+
+export const REQUIRED_CSV_FIELDS: CsvImportField[] = ["date", "grams"];
+
+export const CSV_DATE_FORMATS: CsvDateFormat[] = ["ymd", "dmy", "mdy"];
+
+export const CSV_DECIMAL_FORMATS: CsvDecimalFormat[] = ["dot", "comma"];
+
+export type CsvRowError =
+  | "date"
+  | "side"
+  | "metal"
+  | "grams"
+  | "costPrice"
+  | "sellingPrice"
+  | "currency"
+  | "holdings";
+
+export type CsvRowResult = {
+  // 1-based line in the file, counting the header.
+  line: number;
+  record?: TradeRecord;
+  error?: CsvRowError;
+};
+
+// Words (in any casing) that spell each side or metal in a sheet.
+export type CsvAliases = {
+  sides: Record<TradeSide, string[]>;
+  metals: Record<Metal, string[]>;
+};
+
+export type CsvImportTarget = {
+  records: TradeRecord[];
+  baseCurrency: Currency;
+  costBasisMethod: CostBasisMethod;
+  fxRates: FxRates;
+};
+
+const normalizeHeader = (value: string) =>
+  value.toLowerCase().replace(/[\s_/%().-]/g, "");
+
+// Maps each field to the first header whose text matches one of its names.
+export const guessColumns = (
+  headers: string[],
+  names: Record<CsvImportField, string[]>,
+): CsvImportPreset["columns"] => {
+  const columns: CsvImportPreset["columns"] = {};
+  const taken = new Set<string>();
+  for (const field of CSV_IMPORT_FIELDS) {
+    const wanted = names[field].map(normalizeHeader);
+    const header = headers.find(
+      (h) => !taken.has(h) && wanted.includes(normalizeHeader(h)),
+    );
+    if (header) {
+      columns[field] = header;
+      taken.add(header);
+    }
+  }
+  return columns;
+};
+
+// Currency signs, thousands separators, spaces and a trailing % are dropped;
+// accounting-style (1.00) reads as negative.
+export const parseDecimal = (raw: string, format: CsvDecimalFormat) => {
+  const negative = /^\(.*\)$/.test(raw.trim());
+  let text = raw.replace(/[^\d.,-]/g, "");
+  text =
+    format === "comma"
+      ? text.replace(/\./g, "").replace(",", ".")
+      : text.replace(/,/g, "");
+  if (!/\d/.test(text)) return null;
+  const value = Number(text);
+  if (!Number.isFinite(value)) return null;
+  return negative ? -Math.abs(value) : value;
+};
+
+// A four-digit first part is always year-first; otherwise `format` decides
+// the order. A missing time is taken as midday so the day survives any
+// timezone shift.
+export const parseDate = (raw: string, format: CsvDateFormat) => {
+  const m = raw
+    .trim()
+    .match(
+      /^(\d{1,4})\D(\d{1,2})\D(\d{1,4})(?:\D+(\d{1,2}):(\d{2})(?::(\d{2}))?)?/,
+    );
+  if (!m) return null;
+  const [a, b, c] = [m[1], m[2], m[3]].map(Number);
+  let [year, month, day] =
+    m[1].length === 4 || format === "ymd"
+      ? [a, b, c]
+      : format === "dmy"
+        ? [c, b, a]
+        : [c, a, b];
+  if (year < 100) year += 2000;
+  const hours = m[4] === undefined ? 12 : Number(m[4]);
+  const minutes = Number(m[5] ?? 0);
+  const seconds = Number(m[6] ?? 0);
+  const date = new Date(year, month - 1, day, hours, minutes, seconds);
+  if (
+    date.getFullYear() !== year ||
+    date.getMonth() !== month - 1 ||
+    date.getDate() !== day ||
+    hours > 23
+  )
+    return null;
+  return date.getTime();
+};
+
+const matchAlias = <T extends string>(
+  raw: string,
+  aliases: Record<T, string[]>,
+): T | null => {
+  const value = raw.trim().toLowerCase();
+  for (const key of Object.keys(aliases) as T[]) {
+    if (key.toLowerCase() === value) return key;
+    if (aliases[key].some((alias) => alias.toLowerCase() === value)) return key;
+  }
+  return null;
+};
+
+const parseTags = (value: string) => [
+  ...new Set(
+    value
+      .split(/[,，;|]/)
+      .map((tag) => tag.trim())
+      .filter(Boolean),
+  ),
+];
+
+type Draft = {
+  line: number;
+  timestamp: number;
+  side: TradeSide;
+  metal: Metal;
+  grams: number;
+  costPrice: number;
+  sellingPrice: number;
+  desiredPrice?: number;
+  fees: FeeSchedule;
+  currency: Currency;
+  fxRate: number;
+  stored: Partial<
+    Pick<TradeRecord, "actualProfit" | "projectedProfit" | "profitMargin">
+  >;
+  channel?: string;
+  note?: string;
+  tags?: string[];
+};
+
+const parseRow = (
+  cells: Record<string, string>,
+  line: number,
+  preset: CsvImportPreset,
+  aliases: CsvAliases,
+  target: CsvImportTarget,
+): Draft | CsvRowError => {
+  const cell = (field: CsvImportField) => {
+    const header = preset.columns[field];
+    return header ? (cells[header] ?? "") : "";
+  };
+  const number = (field: CsvImportField) =>
+    cell(field) ? parseDecimal(cell(field), preset.decimal) : null;
+
+  const timestamp = parseDate(cell("date"), preset.dateFormat);
+  if (timestamp === null) return "date";
+
+  const grams = number("grams");
+  if (grams === null || grams <= 0) return "grams";
+
+  const costPrice = number("costPrice");
+  const sellingPrice = number("sellingPrice");
+  if (costPrice !== null && costPrice < 0) return "costPrice";
+  if (sellingPrice !== null && sellingPrice < 0) return "sellingPrice";
+
+  // Without a side column, a row with a sale price is a closed round trip.
+  let side: TradeSide;
+  if (cell("side")) {
+    const parsed = matchAlias(cell("side"), aliases.sides);
+    if (!parsed) return "side";
+    side = parsed;
+  } else side = sellingPrice ? "roundTrip" : "buy";
+  if (side !== "sell" && !costPrice) return "costPrice";
+  if (side !== "buy" && !sellingPrice) return "sellingPrice";
+
+  let metal: Metal = "gold";
+  if (cell("metal")) {
+    const parsed = matchAlias(cell("metal"), aliases.metals);
+    if (!parsed || !METALS.includes(parsed)) return "metal";
+    metal = parsed;
+  }
+
+  let currency = target.baseCurrency;
+  if (cell("currency")) {
+    const code = cell("currency").toUpperCase();
+    if (!isCurrency(code)) return "currency";
+    currency = code;
+  }
+  const fxRate =
+    currency === target.baseCurrency
+      ? 1
+      : (number("fxRate") ??
+        crossRate(currency, target.baseCurrency, target.fxRates));
+  if (!(fxRate > 0)) return "currency";
+
+  // A fee column holds the whole trade's cost, split evenly over its orders.
+  const fee = number("fee") ?? 0;
+  const fees: FeeSchedule = {
+    buyRate: 0,
+    sellRate: 0,
+    fixed: Math.abs(fee) / (side === "roundTrip" ? 2 : 1),
+    minimum: 0,
+  };
+
+  const desiredPrice = number("desiredPrice");
+  const stored: Draft["stored"] = {};
+  for (const field of [
+    "actualProfit",
+    "projectedProfit",
+    "profitMargin",
+  ] as const) {
+    const value = number(field);
+    if (value !== null) stored[field] = value;
+  }
+  const tags = parseTags(cell("tags"));
+
+  return {
+    line,
+    timestamp,
+    side,
+    metal,
+    grams: toGrams(grams, preset.weightUnit),
+    costPrice: pricePerGram(costPrice ?? 0, preset.weightUnit),
+    sellingPrice:
+      side === "buy" ? 0 : pricePerGram(sellingPrice ?? 0, preset.weightUnit),
+    ...(desiredPrice !== null
+      ? { desiredPrice: pricePerGram(desiredPrice, preset.weightUnit) }
+      : {}),
+    fees,
+    currency,
+    fxRate,
+    stored,
+    ...(cell("channel") ? { channel: cell("channel") } : {}),
+    ...(cell("note") ? { note: cell("note") } : {}),
+    ...(tags.length > 0 ? { tags } : {}),
+  };
+};
+
+// Rows become records the way TradeForm builds them: sells are matched
+// against lots open at their date (including buys earlier in the same file)
+// by the ledger's cost-basis method, and profits are recomputed. Profit
+// columns in the file are kept only as mismatches when they disagree.
+export const buildCsvRecords = (
+  rows: string[][],
+  preset: CsvImportPreset,
+  aliases: CsvAliases,
+  target: CsvImportTarget,
+  // Receives the row's line, for callers that derive ids from the file.
+  makeId: (line: number) => string,
+): CsvRowResult[] => {
+  const [headers = [], ...body] = rows;
+  const results: CsvRowResult[] = [];
+  const drafts: Draft[] = [];
+  body.forEach((row, i) => {
+    const cells = Object.fromEntries(headers.map((h, j) => [h, row[j] ?? ""]));
+    const draft = parseRow(cells, i + 2, preset, aliases, target);
+    if (typeof draft === "string") results.push({ line: i + 2, error: draft });
+    else drafts.push(draft);
+  });
+
+  const records = [...target.records];
+  const method =
+    target.costBasisMethod === "specific" ? "fifo" : target.costBasisMethod;
+  for (const draft of [...drafts].sort((a, b) => a.timestamp - b.timestamp)) {
+    let costPrice = draft.costPrice;
+    let lotMatches: TradeRecord["lotMatches"];
+    if (draft.side === "sell") {
+      const lots = getOpenLots(records).filter(
+        (l) => l.metal === draft.metal && !(l.timestamp > draft.timestamp),
+      );
+      const matches = matchSell(lots, draft.grams, method);
+      if (!matches) {
+        results.push({ line: draft.line, error: "holdings" });
+        continue;
+      }
+      lotMatches = matches;
+      // Lots are costed in the base currency.
+      costPrice = matchedCostPrice(matches) / draft.fxRate;
+    }
+    const trade = {
+      side: draft.side,
+      grams: draft.grams,
+      costPrice,
+      sellingPrice: draft.sellingPrice,
+      desiredPrice:
+        draft.desiredPrice ??
+        (draft.side === "buy" ? costPrice : draft.sellingPrice),
+      fees: draft.fees,
+    };
+    const derived = deriveTradeFields(trade);
+    const mismatches = derivedMismatches(draft.stored, derived);
+    const isForeign = draft.currency !== target.baseCurrency;
+    const record: TradeRecord = {
+      id: makeId(draft.line),
+      metal: draft.metal,
+      ...trade,
+      ...derived,
+      timestamp: draft.timestamp,
+      ...(lotMatches ? { lotMatches } : {}),
+      ...(draft.channel ? { channel: draft.channel } : {}),
+      ...(isForeign ? { currency: draft.currency, fxRate: draft.fxRate } : {}),
+      ...(draft.note ? { note: draft.note } : {}),
+      ...(draft.tags ? { tags: draft.tags } : {}),
+      ...(Object.keys(mismatches).length > 0 ? { mismatches } : {}),
+    };
+    records.push(record);
+    results.push({ line: draft.line, record });
+  }
+
+  return results.sort((a, b) => a.line - b.line);
+};
@@ -0,0 +1,50 @@
+import { Currency, FxRates, TradeRecord } from "../types";
+import { Language } from "../translations";
+import { roundMoney } from "./calc";
+
+export const CURRENCIES: Currency[] = ["CNY", "USD", "HKD"];
+
+// Ledgers created before currencies existed were all kept in CNY.
+export const DEFAULT_CURRENCY: Currency = "CNY";
+
+export const DEFAULT_FX_RATES: FxRates = { CNY: 1, USD: 7.1, HKD: 0.91 };
+
+export const isCurrency = (value: unknown): value is Currency =>
+  value === "CNY" || value === "USD" || value === "HKD";
+
+// Units of `to` that one unit of `from` buys, via the CNY-quoted table.
+export const crossRate = (from: Currency, to: Currency, rates: FxRates) =>
+  from === to ? 1 : rates[from] / rates[to];
+
+export const recordFxRate = (record: TradeRecord) =>
+  record.currency ? (record.fxRate ?? 1) : 1;
+
+// Copy of a record with its money fields multiplied by `rate`.
+export const convertRecord = (
+  record: TradeRecord,
+  rate: number,
+): TradeRecord =>
+  rate === 1
+    ? record
+    : {
+        ...record,
+        costPrice: record.costPrice * rate,
+        sellingPrice: record.sellingPrice * rate,
+        desiredPrice: record.desiredPrice * rate,
+        actualProfit: roundMoney(record.actualProfit * rate),
+        projectedProfit: roundMoney(record.projectedProfit * rate),
+      };
+
+const LOCALES: Record<Language, string> = { en: "en-US", zh: "zh-CN" };
+
+export const formatMoney = (
+  value: number,
+  currency: Currency,
+  lang: Language,
+) =>
+  new Intl.NumberFormat(LOCALES[lang], {
+    style: "currency",
+    currency,
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(value);
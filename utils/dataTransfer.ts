@@ -1,22 +1,63 @@
-import { Ledger, TradeRecord } from "../types";
+import {
+  AlertKind,
+  CostBasisMethod,
+  CsvImportField,
+  CsvImportPreset,
+  Currency,
+  FeePreset,
+  FeeSchedule,
+  FxRates,
+  Ledger,
+  LotMatch,
+  Metal,
+  PendingEntry,
+  PriceAlert,
+  SavingsPlan,
+  SpotPrice,
+  TradeRecord,
+  TradeSide,
+  TriggeredAlert,
+  WeightUnit,
+} from "../types";
 import { Language } from "../translations";
+import { feeScheduleFromRate } from "./fees";
+import { DERIVED_FIELDS, deriveTradeFields, derivedMismatches } from "./calc";
+import { CURRENCIES, DEFAULT_FX_RATES, isCurrency } from "./currency";
+import { isSpotDate, upsertSpotPrices } from "./prices";
+import { METALS } from "./positions";
+import { isWeightUnit } from "./units";
+import { BackupError, isEncryptedBackup } from "./backup";
+import {
+  CSV_DATE_FORMATS,
+  CSV_DECIMAL_FORMATS,
+  CSV_IMPORT_FIELDS,
+} from "./csvImport";
+import { EXPORT_VERSION, migrateExport } from "./migrations";
+
+export type ExportSettings = {
+  lang?: Language;
+  theme?: "light" | "dark";
+  showMasterLedger?: boolean;
+  displayUnit?: WeightUnit;
+  reportingCurrency?: Currency;
+};
 
 export type AuraGoldAllExport = {
   schema: "auragold.export";
-  version: 1;
+  version: typeof EXPORT_VERSION;
   kind: "all";
   exportedAt: string;
   payload: {
     ledgers: Ledger[];
     activeLedgerId?: string;
-    lang?: Language;
-    theme?: "light" | "dark";
+    settings?: ExportSettings;
+    spotPrices?: SpotPrice[];
   };
 };
 
 export type AuraGoldLedgerExport = {
   schema: "auragold.export";
-  version: 1;
+  version: typeof EXPORT_VERSION;
   kind: "ledger";
   exportedAt: string;
   payload: {
@@ -24,6 +65,32 @@ export type AuraGoldLedgerExport = {
   };
 };
 
+export type ImportIssueReason =
+  | "notObject"
+  | "invalidField"
+  | "duplicateId"
+  | "recalculated";
+
+export type ImportIssue = {
+  // JSON path of the offending entry, e.g. `$.payload.ledgers[0].records[3]`.
+  path: string;
+  reason: ImportIssueReason;
+  // The invalid field, duplicate id or recalculated fields.
+  detail?: string;
+};
+
+export type ImportReport = {
+  accepted: { name: string; records: number }[];
+  repaired: ImportIssue[];
+  skipped: ImportIssue[];
+};
+
+const createReport = (): ImportReport => ({
+  accepted: [],
+  repaired: [],
+  skipped: [],
+});
+
 const downloadBlob = (blob: Blob, filename: string) => {
   const url = URL.createObjectURL(blob);
   const a = document.createElement("a");
@@ -42,6 +109,10 @@ export const safeFilename = (name: string) =>
     .trim()
     .slice(0, 80) || "auragold";
 
+// UTC time of an export for file names, e.g. `2024-05-01_08-30-00`.
+export const exportStamp = (now = new Date()) =>
+  now.toISOString().replace(/[:.]/g, "-").replace("T", "_").slice(0, 19);
+
 export const downloadJson = (filename: string, data: unknown) => {
   const blob = new Blob([JSON.stringify(data, null, 2)], {
     type: "application/json;charset=utf-8",
@@ -49,6 +120,19 @@ export const downloadJson = (filename: string, data: unknown) => {
   downloadBlob(blob, filename);
 };
 
+// The BOM makes Excel read the file as UTF-8 so Chinese text survives.
+export const downloadCsv = (filename: string, csv: string) => {
+  const blob = new Blob(["\uFEFF", csv], { type: "text/csv;charset=utf-8" });
+  downloadBlob(blob, filename);
+};
+
+export const downloadXlsx = (filename: string, bytes: Uint8Array) => {
+  const blob = new Blob([bytes], {
+    type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  });
+  downloadBlob(blob, filename);
+};
+
 export const readJsonFromFile = async (file: File) => {
   const text = await file.text();
   return JSON.parse(text);
@@ -71,77 +155,636 @@ const asRecordObject = (value: unknown): Record<string, unknown> | null => {
   return value as Record<string, unknown>;
 };
 
-const normalizeTradeRecord = (value: unknown): TradeRecord | null => {
+// Fields this version does not know (written by a newer one) are carried
+// through as-is, so importing and exporting again keeps them.
+const unknownFields = (
+  obj: Record<string, unknown>,
+  known: ReadonlySet<string>,
+) => Object.fromEntries(Object.entries(obj).filter(([k]) => !known.has(k)));
+
+const RECORD_FIELDS: ReadonlySet<string> = new Set([
+  "id",
+  "side",
+  "metal",
+  "grams",
+  "costPrice",
+  "sellingPrice",
+  "fees",
+  // Replaced by `fees`.
+  "handlingFeeRate",
+  "actualProfit",
+  "desiredPrice",
+  "projectedProfit",
+  "profitMargin",
+  "timestamp",
+  "lotMatches",
+  "channel",
+  "currency",
+  "fxRate",
+  "note",
+  "tags",
+  "planId",
+  "mismatches",
+]);
+
+const LEDGER_FIELDS: ReadonlySet<string> = new Set([
+  "id",
+  "name",
+  "records",
+  "createdAt",
+  "costBasisMethod",
+  "baseCurrency",
+  "alerts",
+  "alertHistory",
+  "plans",
+  "pendingEntries",
+]);
+
+const FEE_FIELDS: ReadonlySet<string> = new Set([
+  "buyRate",
+  "sellRate",
+  "fixed",
+  "minimum",
+]);
+
+const LOT_MATCH_FIELDS: ReadonlySet<string> = new Set([
+  "buyId",
+  "grams",
+  "costPrice",
+]);
+
+const ALERT_FIELDS: ReadonlySet<string> = new Set([
+  "id",
+  "kind",
+  "metal",
+  "price",
+  "buyId",
+  "createdAt",
+]);
+
+const TRIGGERED_ALERT_FIELDS: ReadonlySet<string> = new Set([
+  "id",
+  "alertId",
+  "kind",
+  "metal",
+  "price",
+  "marketPrice",
+  "buyId",
+  "triggeredAt",
+]);
+
+const PLAN_FIELDS: ReadonlySet<string> = new Set([
+  "id",
+  "name",
+  "metal",
+  "basis",
+  "quantity",
+  "frequency",
+  "startDate",
+  "channel",
+  "active",
+  "createdAt",
+  "scheduledThrough",
+]);
+
+const PENDING_ENTRY_FIELDS: ReadonlySet<string> = new Set([
+  "id",
+  "planId",
+  "dueDate",
+]);
+
+const SPOT_PRICE_FIELDS: ReadonlySet<string> = new Set([
+  "metal",
+  "date",
+  "price",
+  "currency",
+]);
+
+const SETTINGS_FIELDS: ReadonlySet<string> = new Set([
+  "lang",
+  "theme",
+  "showMasterLedger",
+  "displayUnit",
+  "reportingCurrency",
+]);
+
+const DOCUMENT_FIELDS: ReadonlySet<string> = new Set([
+  "schema",
+  "version",
+  "kind",
+  "exportedAt",
+  "payload",
+]);
+
+const ALL_PAYLOAD_FIELDS: ReadonlySet<string> = new Set([
+  "ledgers",
+  "activeLedgerId",
+  "settings",
+  "spotPrices",
+]);
+
+const LEDGER_PAYLOAD_FIELDS: ReadonlySet<string> = new Set(["ledger"]);
+
+const asTradeSide = (value: unknown): TradeSide =>
+  value === "buy" || value === "sell" ? value : "roundTrip";
+
+const asMetal = (value: unknown): Metal =>
+  value === "silver" || value === "platinum" || value === "palladium"
+    ? value
+    : "gold";
+
+const asCostBasisMethod = (value: unknown): CostBasisMethod | undefined =>
+  value === "fifo" ||
+  value === "lifo" ||
+  value === "specific" ||
+  value === "average"
+    ? value
+    : undefined;
+
+const normalizeFeeSchedule = (
+  obj: Record<string, unknown>,
+): FeeSchedule | null => {
+  const fees = asRecordObject(obj.fees);
+  if (fees) {
+    const buyRate = asNumber(fees.buyRate);
+    const sellRate = asNumber(fees.sellRate);
+    const fixed = asNumber(fees.fixed);
+    const minimum = asNumber(fees.minimum);
+    if (
+      buyRate === null ||
+      sellRate === null ||
+      fixed === null ||
+      minimum === null
+    ) {
+      return null;
+    }
+    return {
+      ...unknownFields(fees, FEE_FIELDS),
+      buyRate,
+      sellRate,
+      fixed,
+      minimum,
+    };
+  }
+  const handlingFeeRate = asNumber(obj.handlingFeeRate);
+  if (handlingFeeRate === null) return null;
+  return feeScheduleFromRate(handlingFeeRate);
+};
+
+const normalizeLotMatches = (value: unknown): LotMatch[] | null => {
+  if (!Array.isArray(value)) return null;
+  const matches: LotMatch[] = [];
+  for (const item of value) {
+    const obj = asRecordObject(item);
+    if (!obj) return null;
+    const buyId = asString(obj.buyId);
+    const grams = asNumber(obj.grams);
+    const costPrice = asNumber(obj.costPrice);
+    if (!buyId || grams === null || costPrice === null) return null;
+    matches.push({
+      ...unknownFields(obj, LOT_MATCH_FIELDS),
+      buyId,
+      grams,
+      costPrice,
+    });
+  }
+  return matches;
+};
+
+const asTags = (value: unknown) => {
+  if (!Array.isArray(value)) return [];
+  const tags = new Set<string>();
+  for (const item of value) {
+    const tag = asString(item)?.trim();
+    if (tag) tags.add(tag);
+  }
+  return [...tags];
+};
+
+const normalizeMismatches = (value: unknown) => {
   const obj = asRecordObject(value);
-  if (!obj) return null;
+  const mismatches: TradeRecord["mismatches"] = {};
+  if (!obj) return mismatches;
+  for (const field of DERIVED_FIELDS) {
+    const stored = asNumber(obj[field]);
+    if (stored !== null) mismatches[field] = stored;
+  }
+  return mismatches;
+};
+
+// Profit figures are always recomputed from the trade inputs; stored values
+// that disagree are kept under `mismatches` so the table can flag them.
+const normalizeTradeRecord = (
+  value: unknown,
+  path: string,
+  report?: ImportReport,
+): TradeRecord | null => {
+  const skip = (reason: ImportIssueReason, detail?: string) => {
+    report?.skipped.push({ path, reason, ...(detail ? { detail } : {}) });
+    return null;
+  };
+  const obj = asRecordObject(value);
+  if (!obj) return skip("notObject");
 
   const id = asString(obj.id);
   const grams = asNumber(obj.grams);
   const costPrice = asNumber(obj.costPrice);
   const sellingPrice = asNumber(obj.sellingPrice);
-  const handlingFeeRate = asNumber(obj.handlingFeeRate);
+  const fees = normalizeFeeSchedule(obj);
   const actualProfit = asNumber(obj.actualProfit);
   const desiredPrice = asNumber(obj.desiredPrice);
   const projectedProfit = asNumber(obj.projectedProfit);
   const profitMargin = asNumber(obj.profitMargin);
   const timestamp = asNumber(obj.timestamp);
+  const channel = asString(obj.channel);
+  const currency = isCurrency(obj.currency) ? obj.currency : undefined;
+  const fxRate = asNumber(obj.fxRate);
+  const note = asString(obj.note)?.trim();
+  const tags = asTags(obj.tags);
+  const planId = asString(obj.planId);
+  // Records written before buy/sell legs existed are closed round trips.
+  const side = asTradeSide(obj.side);
+  // Ledgers predate multi-metal support and only ever held gold.
+  const metal = asMetal(obj.metal);
+  const lotMatches =
+    obj.lotMatches === undefined ? undefined : normalizeLotMatches(obj.lotMatches);
 
-  if (
-    !id ||
-    grams === null ||
-    costPrice === null ||
-    sellingPrice === null ||
-    handlingFeeRate === null ||
-    actualProfit === null ||
-    desiredPrice === null ||
-    projectedProfit === null ||
-    profitMargin === null ||
-    timestamp === null
-  ) {
-    return null;
+  if (!id) return skip("invalidField", "id");
+  if (grams === null) return skip("invalidField", "grams");
+  if (costPrice === null) return skip("invalidField", "costPrice");
+  if (sellingPrice === null) return skip("invalidField", "sellingPrice");
+  if (fees === null) return skip("invalidField", "fees");
+  if (desiredPrice === null) return skip("invalidField", "desiredPrice");
+  if (timestamp === null) return skip("invalidField", "timestamp");
+  if (lotMatches === null) return skip("invalidField", "lotMatches");
+  if (currency && (fxRate === null || fxRate <= 0)) {
+    return skip("invalidField", "fxRate");
+  }
+
+  const derived = deriveTradeFields({
+    side,
+    grams,
+    costPrice,
+    sellingPrice,
+    desiredPrice,
+    fees,
+  });
+  const recalculated = derivedMismatches(
+    {
+      ...(actualProfit !== null ? { actualProfit } : {}),
+      ...(projectedProfit !== null ? { projectedProfit } : {}),
+      ...(profitMargin !== null ? { profitMargin } : {}),
+    },
+    derived,
+  );
+  if (Object.keys(recalculated).length > 0) {
+    report?.repaired.push({
+      path,
+      reason: "recalculated",
+      detail: Object.keys(recalculated).join(", "),
+    });
   }
+  const mismatches = {
+    ...normalizeMismatches(obj.mismatches),
+    ...recalculated,
+  };
 
   return {
+    ...unknownFields(obj, RECORD_FIELDS),
     id,
+    side,
+    metal,
     grams,
     costPrice,
     sellingPrice,
-    handlingFeeRate,
-    actualProfit,
+    fees,
     desiredPrice,
-    projectedProfit,
-    profitMargin,
+    ...derived,
     timestamp,
+    ...(side === "sell" && lotMatches ? { lotMatches } : {}),
+    ...(channel ? { channel } : {}),
+    ...(currency && fxRate ? { currency, fxRate } : {}),
+    ...(note ? { note } : {}),
+    ...(tags.length > 0 ? { tags } : {}),
+    ...(side === "buy" && planId ? { planId } : {}),
+    ...(Object.keys(mismatches).length > 0 ? { mismatches } : {}),
   };
 };
 
-export const normalizeLedger = (value: unknown): Ledger | null => {
+const asAlertKind = (value: unknown): AlertKind | null =>
+  value === "target" || value === "stopLoss" ? value : null;
+
+const normalizePriceAlerts = (value: unknown): PriceAlert[] => {
+  if (!Array.isArray(value)) return [];
+  const alerts: PriceAlert[] = [];
+  for (const item of value) {
+    const obj = asRecordObject(item);
+    if (!obj) continue;
+    const id = asString(obj.id);
+    const kind = asAlertKind(obj.kind);
+    const price = asNumber(obj.price);
+    const createdAt = asNumber(obj.createdAt);
+    const buyId = asString(obj.buyId);
+    if (!id || !kind || price === null || price <= 0 || createdAt === null) {
+      continue;
+    }
+    alerts.push({
+      ...unknownFields(obj, ALERT_FIELDS),
+      id,
+      kind,
+      metal: asMetal(obj.metal),
+      price,
+      ...(buyId ? { buyId } : {}),
+      createdAt,
+    });
+  }
+  return alerts;
+};
+
+const normalizeAlertHistory = (value: unknown): TriggeredAlert[] => {
+  if (!Array.isArray(value)) return [];
+  const history: TriggeredAlert[] = [];
+  for (const item of value) {
+    const obj = asRecordObject(item);
+    if (!obj) continue;
+    const id = asString(obj.id);
+    const alertId = asString(obj.alertId);
+    const kind = asAlertKind(obj.kind);
+    const price = asNumber(obj.price);
+    const marketPrice = asNumber(obj.marketPrice);
+    const triggeredAt = asNumber(obj.triggeredAt);
+    const buyId = asString(obj.buyId);
+    if (
+      !id ||
+      !alertId ||
+      !kind ||
+      price === null ||
+      marketPrice === null ||
+      triggeredAt === null
+    ) {
+      continue;
+    }
+    history.push({
+      ...unknownFields(obj, TRIGGERED_ALERT_FIELDS),
+      id,
+      alertId,
+      kind,
+      metal: asMetal(obj.metal),
+      price,
+      marketPrice,
+      ...(buyId ? { buyId } : {}),
+      triggeredAt,
+    });
+  }
+  return history.sort((a, b) => b.triggeredAt - a.triggeredAt);
+};
+
+const normalizePlans = (value: unknown): SavingsPlan[] => {
+  if (!Array.isArray(value)) return [];
+  const plans: SavingsPlan[] = [];
+  for (const item of value) {
+    const obj = asRecordObject(item);
+    if (!obj) continue;
+    const id = asString(obj.id);
+    const name = asString(obj.name);
+    const quantity = asNumber(obj.quantity);
+    const startDate = asString(obj.startDate);
+    const createdAt = asNumber(obj.createdAt);
+    const channel = asString(obj.channel);
+    const scheduledThrough = asString(obj.scheduledThrough);
+    const basis =
+      obj.basis === "amount" || obj.basis === "grams" ? obj.basis : null;
+    const frequency =
+      obj.frequency === "weekly" ||
+      obj.frequency === "biweekly" ||
+      obj.frequency === "monthly"
+        ? obj.frequency
+        : null;
+    if (
+      !id ||
+      !name ||
+      quantity === null ||
+      quantity <= 0 ||
+      !startDate ||
+      !isSpotDate(startDate) ||
+      createdAt === null ||
+      !basis ||
+      !frequency
+    ) {
+      continue;
+    }
+    plans.push({
+      ...unknownFields(obj, PLAN_FIELDS),
+      id,
+      name,
+      metal: asMetal(obj.metal),
+      basis,
+      quantity,
+      frequency,
+      startDate,
+      ...(channel ? { channel } : {}),
+      active: obj.active !== false,
+      createdAt,
+      ...(scheduledThrough && isSpotDate(scheduledThrough)
+        ? { scheduledThrough }
+        : {}),
+    });
+  }
+  return plans;
+};
+
+const normalizePendingEntries = (
+  value: unknown,
+  plans: SavingsPlan[],
+): PendingEntry[] => {
+  if (!Array.isArray(value)) return [];
+  const entries: PendingEntry[] = [];
+  for (const item of value) {
+    const obj = asRecordObject(item);
+    if (!obj) continue;
+    const id = asString(obj.id);
+    const planId = asString(obj.planId);
+    const dueDate = asString(obj.dueDate);
+    if (!id || !planId || !dueDate || !isSpotDate(dueDate)) continue;
+    if (!plans.some((p) => p.id === planId)) continue;
+    entries.push({
+      ...unknownFields(obj, PENDING_ENTRY_FIELDS),
+      id,
+      planId,
+      dueDate,
+    });
+  }
+  return entries.sort((a, b) => a.dueDate.localeCompare(b.dueDate));
+};
+
+// Invalid records are skipped (and reported) rather than failing the whole
+// ledger; only a ledger without its own id, name or record list is dropped.
+export const normalizeLedger = (
+  value: unknown,
+  path = "$",
+  report?: ImportReport,
+): Ledger | null => {
+  const skip = (reason: ImportIssueReason, detail?: string) => {
+    report?.skipped.push({ path, reason, ...(detail ? { detail } : {}) });
+    return null;
+  };
   const obj = asRecordObject(value);
-  if (!obj) return null;
+  if (!obj) return skip("notObject");
 
   const id = asString(obj.id);
   const name = asString(obj.name);
   const createdAt = asNumber(obj.createdAt);
   const rawRecords = Array.isArray(obj.records) ? obj.records : null;
-  if (!id || !name || createdAt === null || !rawRecords) return null;
+  if (!id) return skip("invalidField", "id");
+  if (!name) return skip("invalidField", "name");
+  if (createdAt === null) return skip("invalidField", "createdAt");
+  if (!rawRecords) return skip("invalidField", "records");
 
   const records: TradeRecord[] = [];
   const seen = new Set<string>();
-  for (const item of rawRecords) {
-    const r = normalizeTradeRecord(item);
-    if (!r) return null;
-    if (seen.has(r.id)) continue;
+  rawRecords.forEach((item, i) => {
+    const recordPath = `${path}.records[${i}]`;
+    // Later copies of an accepted id are dropped before they are repaired.
+    const rawId = asString(asRecordObject(item)?.id);
+    if (rawId && seen.has(rawId)) {
+      report?.skipped.push({
+        path: recordPath,
+        reason: "duplicateId",
+        detail: rawId,
+      });
+      return;
+    }
+    const r = normalizeTradeRecord(item, recordPath, report);
+    if (!r) return;
     seen.add(r.id);
     records.push(r);
-  }
+  });
   records.sort((a, b) => b.timestamp - a.timestamp);
+  const costBasisMethod = asCostBasisMethod(obj.costBasisMethod);
+  const baseCurrency: Currency | undefined = isCurrency(obj.baseCurrency)
+    ? obj.baseCurrency
+    : undefined;
+  const alerts = normalizePriceAlerts(obj.alerts);
+  const alertHistory = normalizeAlertHistory(obj.alertHistory);
+  const plans = normalizePlans(obj.plans);
+  const pendingEntries = normalizePendingEntries(obj.pendingEntries, plans);
+
+  return {
+    ...unknownFields(obj, LEDGER_FIELDS),
+    id,
+    name,
+    createdAt,
+    records,
+    ...(costBasisMethod ? { costBasisMethod } : {}),
+    ...(baseCurrency ? { baseCurrency } : {}),
+    ...(alerts.length > 0 ? { alerts } : {}),
+    ...(alertHistory.length > 0 ? { alertHistory } : {}),
+    ...(plans.length > 0 ? { plans } : {}),
+    ...(pendingEntries.length > 0 ? { pendingEntries } : {}),
+  };
+};
+
+export const normalizeFeePresets = (value: unknown): FeePreset[] => {
+  if (!Array.isArray(value)) return [];
+  const presets: FeePreset[] = [];
+  for (const item of value) {
+    const obj = asRecordObject(item);
+    if (!obj) continue;
+    const id = asString(obj.id);
+    const name = asString(obj.name);
+    const feeRate = asNumber(obj.feeRate);
+    const fixedFee = asNumber(obj.fixedFee);
+    if (!id || !name || feeRate === null) continue;
+    presets.push({
+      id,
+      name,
+      feeRate,
+      ...(fixedFee !== null ? { fixedFee } : {}),
+    });
+  }
+  return presets;
+};
+
+export const normalizeCsvPresets = (value: unknown): CsvImportPreset[] => {
+  if (!Array.isArray(value)) return [];
+  const presets: CsvImportPreset[] = [];
+  for (const item of value) {
+    const obj = asRecordObject(item);
+    if (!obj) continue;
+    const id = asString(obj.id);
+    const name = asString(obj.name);
+    const dateFormat = CSV_DATE_FORMATS.find((f) => f === obj.dateFormat);
+    const decimal = CSV_DECIMAL_FORMATS.find((f) => f === obj.decimal);
+    if (!id || !name || !dateFormat || !decimal) continue;
+    const rawColumns = asRecordObject(obj.columns) ?? {};
+    const columns: Partial<Record<CsvImportField, string>> = {};
+    for (const field of CSV_IMPORT_FIELDS) {
+      const header = asString(rawColumns[field]);
+      if (header) columns[field] = header;
+    }
+    presets.push({
+      id,
+      name,
+      dateFormat,
+      decimal,
+      weightUnit: isWeightUnit(obj.weightUnit) ? obj.weightUnit : "g",
+      columns,
+    });
+  }
+  return presets;
+};
+
+export const normalizeSpotPrices = (value: unknown): SpotPrice[] => {
+  if (!Array.isArray(value)) return [];
+  const prices: SpotPrice[] = [];
+  for (const item of value) {
+    const obj = asRecordObject(item);
+    if (!obj) continue;
+    const date = asString(obj.date);
+    const price = asNumber(obj.price);
+    if (!date || !isSpotDate(date) || price === null || price <= 0) continue;
+    const metal = METALS.find((m) => m === obj.metal);
+    if (!metal || !isCurrency(obj.currency)) continue;
+    prices.push({
+      ...unknownFields(obj, SPOT_PRICE_FIELDS),
+      metal,
+      date,
+      price,
+      currency: obj.currency,
+    });
+  }
+  return upsertSpotPrices([], prices);
+};
 
-  return { id, name, createdAt, records };
+// Missing or invalid entries fall back to the default table; CNY is the
+// quote currency and always stays at 1.
+export const normalizeFxRates = (value: unknown): FxRates => {
+  const obj = asRecordObject(value);
+  const rates: FxRates = { ...DEFAULT_FX_RATES };
+  if (!obj) return rates;
+  for (const c of CURRENCIES) {
+    const rate = asNumber(obj[c]);
+    if (c !== "CNY" && rate !== null && rate > 0) rates[c] = rate;
+  }
+  return rates;
 };
 
-const dedupeLedgersById = (ledgers: Ledger[]) => {
+export const normalizeStoredLedgers = (value: unknown): Ledger[] => {
+  if (!Array.isArray(value)) return [];
+  const ledgers: Ledger[] = [];
+  for (const l of value) {
+    const ledger = normalizeLedger(l);
+    if (ledger) ledgers.push(ledger);
+  }
+  return ledgers;
+};
+
+const dedupeLedgersById = (
+  entries: { ledger: Ledger; path: string }[],
+  report: ImportReport,
+) => {
   const map = new Map<string, Ledger>();
-  for (const l of ledgers) {
+  for (const { ledger: l, path } of entries) {
     const prev = map.get(l.id);
     if (!prev) {
       map.set(l.id, l);
@@ -150,11 +793,19 @@ const dedupeLedgersById = (ledgers: Ledger[]) => {
     const seen = new Set(prev.records.map((r) => r.id));
     const mergedRecords = [...prev.records];
     for (const r of l.records) {
-      if (!seen.has(r.id)) mergedRecords.push(r);
+      if (!seen.has(r.id)) {
+        mergedRecords.push(r);
+        continue;
+      }
+      report.skipped.push({
+        path: `${path}.records`,
+        reason: "duplicateId",
+        detail: r.id,
+      });
     }
     mergedRecords.sort((a, b) => b.timestamp - a.timestamp);
     map.set(l.id, {
-      id: prev.id,
+      ...prev,
       name: l.name || prev.name,
       createdAt: Math.min(prev.createdAt, l.createdAt),
       records: mergedRecords,
@@ -163,55 +814,160 @@ const dedupeLedgersById = (ledgers: Ledger[]) => {
   return [...map.values()].sort((a, b) => a.createdAt - b.createdAt);
 };
 
-export const normalizeAllImport = (input: unknown) => {
-  const obj = asRecordObject(input);
-  if (!obj) return null;
+const normalizeLedgerList = (
+  values: unknown[],
+  basePath: string,
+  report: ImportReport,
+) => {
+  const entries: { ledger: Ledger; path: string }[] = [];
+  values.forEach((value, i) => {
+    const path = `${basePath}[${i}]`;
+    const ledger = normalizeLedger(value, path, report);
+    if (ledger) entries.push({ ledger, path });
+  });
+  const ledgers = dedupeLedgersById(entries, report);
+  report.accepted = ledgers.map((l) => ({
+    name: l.name,
+    records: l.records.length,
+  }));
+  return ledgers;
+};
 
-  if (obj.schema === "auragold.export" && obj.kind === "all") {
-    const payload = asRecordObject(obj.payload);
-    if (!payload) return null;
-    const ledgersRaw = Array.isArray(payload.ledgers) ? payload.ledgers : null;
-    if (!ledgersRaw) return null;
+// Unknown keys of the export envelope, its payload and the settings. The
+// app keeps them after an import and writes them back on the next export.
+export type ExportExtras = {
+  document?: Record<string, unknown>;
+  payload?: Record<string, unknown>;
+  settings?: Record<string, unknown>;
+};
 
-    const ledgers: Ledger[] = [];
-    for (const l of ledgersRaw) {
-      const ledger = normalizeLedger(l);
-      if (!ledger) return null;
-      ledgers.push(ledger);
-    }
+export const normalizeExportExtras = (value: unknown): ExportExtras => {
+  const obj = asRecordObject(value);
+  if (!obj) return {};
+  const extras: ExportExtras = {};
+  for (const key of ["document", "payload", "settings"] as const) {
+    const fields = asRecordObject(obj[key]);
+    if (fields && Object.keys(fields).length > 0) extras[key] = fields;
+  }
+  return extras;
+};
 
-    const activeLedgerId = asString(payload.activeLedgerId ?? undefined);
-    const lang = asString(payload.lang ?? undefined);
-    const theme = asString(payload.theme ?? undefined);
+// Full imports keep the extras of the whole file; single-ledger imports keep
+// them per ledger id, for that ledger's own export.
+export type StoredExportExtras = {
+  all: ExportExtras;
+  ledgers: Record<string, ExportExtras>;
+};
 
-    return {
-      ledgers: dedupeLedgersById(ledgers),
-      activeLedgerId,
-      lang: lang === "en" || lang === "zh" ? (lang as Language) : undefined,
-      theme: theme === "light" || theme === "dark" ? theme : undefined,
-    };
+export const normalizeStoredExportExtras = (
+  value: unknown,
+): StoredExportExtras => {
+  const obj = asRecordObject(value);
+  const ledgers: Record<string, ExportExtras> = {};
+  for (const [id, extras] of Object.entries(
+    asRecordObject(obj?.ledgers) ?? {},
+  )) {
+    const normalized = normalizeExportExtras(extras);
+    if (Object.keys(normalized).length > 0) ledgers[id] = normalized;
   }
+  return { all: normalizeExportExtras(obj?.all), ledgers };
+};
 
-  if (Array.isArray(input)) {
-    const ledgers: Ledger[] = [];
-    for (const l of input) {
-      const ledger = normalizeLedger(l);
-      if (!ledger) return null;
-      ledgers.push(ledger);
-    }
-    return { ledgers: dedupeLedgersById(ledgers) };
-  }
+// Merges keep the keys already stored and add only the new ones.
+export const mergeExportExtras = (
+  mine: ExportExtras,
+  theirs: ExportExtras,
+): ExportExtras =>
+  normalizeExportExtras({
+    document: { ...theirs.document, ...mine.document },
+    payload: { ...theirs.payload, ...mine.payload },
+    settings: { ...theirs.settings, ...mine.settings },
+  });
 
-  return null;
+export type NormalizedAllImport = {
+  ledgers: Ledger[];
+  activeLedgerId?: string | null;
+  settings: ExportSettings;
+  spotPrices?: SpotPrice[];
+  extras: ExportExtras;
+  report: ImportReport;
 };
 
-export const normalizeLedgerImport = (input: unknown) => {
-  const obj = asRecordObject(input);
-  if (obj && obj.schema === "auragold.export" && obj.kind === "ledger") {
-    const payload = asRecordObject(obj.payload);
-    if (!payload) return null;
-    return normalizeLedger(payload.ledger);
-  }
-  return normalizeLedger(input);
+const normalizeSettings = (value: unknown): ExportSettings => {
+  const obj = asRecordObject(value);
+  if (!obj) return {};
+  return {
+    ...(obj.lang === "en" || obj.lang === "zh" ? { lang: obj.lang } : {}),
+    ...(obj.theme === "light" || obj.theme === "dark"
+      ? { theme: obj.theme }
+      : {}),
+    ...(typeof obj.showMasterLedger === "boolean"
+      ? { showMasterLedger: obj.showMasterLedger }
+      : {}),
+    ...(isWeightUnit(obj.displayUnit) ? { displayUnit: obj.displayUnit } : {}),
+    ...(isCurrency(obj.reportingCurrency)
+      ? { reportingCurrency: obj.reportingCurrency }
+      : {}),
+  };
 };
 
+export const normalizeAllImport = (
+  input: unknown,
+): NormalizedAllImport | null => {
+  // Encrypted backups have to be unlocked with decryptBackup first.
+  if (isEncryptedBackup(input)) throw new BackupError("locked");
+  const migrated = migrateExport(input, "all");
+  if (!migrated) return null;
+  const { payload } = migrated.document;
+  const ledgersRaw = Array.isArray(payload.ledgers) ? payload.ledgers : null;
+  if (!ledgersRaw) return null;
+
+  const report = createReport();
+  const ledgers = normalizeLedgerList(
+    ledgersRaw,
+    migrated.legacy ? "$" : "$.payload.ledgers",
+    report,
+  );
+  const spotPrices = Array.isArray(payload.spotPrices)
+    ? normalizeSpotPrices(payload.spotPrices)
+    : undefined;
+
+  return {
+    ledgers,
+    activeLedgerId: asString(payload.activeLedgerId ?? undefined),
+    settings: normalizeSettings(payload.settings),
+    spotPrices,
+    extras: normalizeExportExtras({
+      document: unknownFields(migrated.document, DOCUMENT_FIELDS),
+      payload: unknownFields(payload, ALL_PAYLOAD_FIELDS),
+      settings: unknownFields(
+        asRecordObject(payload.settings) ?? {},
+        SETTINGS_FIELDS,
+      ),
+    }),
+    report,
+  };
+};
+
+export const normalizeLedgerImport = (
+  input: unknown,
+): { ledger: Ledger; extras: ExportExtras; report: ImportReport } | null => {
+  const migrated = migrateExport(input, "ledger");
+  if (!migrated) return null;
+  const report = createReport();
+  const ledger = normalizeLedger(
+    migrated.document.payload.ledger,
+    migrated.legacy ? "$" : "$.payload.ledger",
+    report,
+  );
+  if (!ledger) return null;
+  report.accepted = [{ name: ledger.name, records: ledger.records.length }];
+  return {
+    ledger,
+    extras: normalizeExportExtras({
+      document: unknownFields(migrated.document, DOCUMENT_FIELDS),
+      payload: unknownFields(migrated.document.payload, LEDGER_PAYLOAD_FIELDS),
+    }),
+    report,
+  };
+};
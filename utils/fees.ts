@@ -0,0 +1,29 @@
+import { FeePreset, FeeSchedule, TradeSide } from "../types";
+
+export const DEFAULT_FEE_SCHEDULE: FeeSchedule = {
+  buyRate: 0,
+  sellRate: 0.004,
+  fixed: 0,
+  minimum: 0,
+};
+
+// Records saved before fee schedules only knew a sell-side rate.
+export const feeScheduleFromRate = (handlingFeeRate: number): FeeSchedule => ({
+  buyRate: 0,
+  sellRate: handlingFeeRate,
+  fixed: 0,
+  minimum: 0,
+});
+
+// A channel charges its preset rate on every order placed through it: the
+// purchase of a buy, the sale of a sell, and both legs of a round trip.
+export const applyFeePreset = (
+  fees: FeeSchedule,
+  preset: FeePreset,
+  side: TradeSide,
+): FeeSchedule => ({
+  ...fees,
+  ...(side !== "sell" ? { buyRate: preset.feeRate } : {}),
+  ...(side !== "buy" ? { sellRate: preset.feeRate } : {}),
+  fixed: preset.fixedFee ?? 0,
+});
@@ -0,0 +1,8 @@
+// crypto.randomUUID is missing outside secure contexts (plain http on a LAN
+// address), so ids fall back to a timestamp plus a random suffix.
+export const generateId = () => {
+  if (typeof crypto !== "undefined" && crypto.randomUUID) {
+    return crypto.randomUUID();
+  }
+  return `${Date.now()}-${Math.floor(Math.random() * 1000000)}`;
+};
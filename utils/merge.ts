@@ -0,0 +1,208 @@
+import { Ledger, TradeRecord } from "../types";
+import { overClosedLots, repriceSells } from "./positions";
+
+export type ImportMode = "merge" | "replace";
+
+export type ConflictChoice = "mine" | "theirs" | "both";
+
+export type RecordRef = {
+  ledgerId: string;
+  ledgerName: string;
+  record: TradeRecord;
+};
+
+export type RecordConflict = {
+  key: string;
+  ledgerId: string;
+  ledgerName: string;
+  mine: TradeRecord;
+  theirs: TradeRecord;
+  fields: string[];
+};
+
+export type LedgerRef = { id: string; name: string; records: number };
+
+export type ImportDiff = {
+  newLedgers: LedgerRef[];
+  newRecords: RecordRef[];
+  conflicts: RecordConflict[];
+  unchanged: number;
+  // Only dropped by a replace import.
+  missingLedgers: LedgerRef[];
+  missingRecords: RecordRef[];
+};
+
+// Thrown when the chosen copies leave a buy lot closed by more grams than it
+// holds; `lot` is that buy leg.
+export class MergeError extends Error {
+  constructor(
+    readonly reason: "overClosed",
+    readonly ledgerName: string,
+    readonly lot: TradeRecord,
+  ) {
+    super(`Import would over-close lot ${lot.id} in ${ledgerName}`);
+    this.name = "MergeError";
+  }
+}
+
+export const defaultChoice = (mode: ImportMode): ConflictChoice =>
+  mode === "merge" ? "mine" : "theirs";
+
+export const conflictKey = (ledgerId: string, recordId: string) =>
+  `${ledgerId}/${recordId}`;
+
+// A second copy of a sell would close the same buy lots twice, so only buys
+// and round trips can be kept as both.
+export const canKeepBoth = (mine: TradeRecord, theirs: TradeRecord) =>
+  mine.side !== "sell" && theirs.side !== "sell";
+
+// `mismatches` only notes how a copy was loaded, not what it says.
+const IGNORED_FIELDS = new Set(["mismatches"]);
+
+export const changedFields = (mine: TradeRecord, theirs: TradeRecord) => {
+  const a: Record<string, unknown> = { ...mine };
+  const b: Record<string, unknown> = { ...theirs };
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  return [...keys].filter(
+    (k) =>
+      !IGNORED_FIELDS.has(k) && JSON.stringify(a[k]) !== JSON.stringify(b[k]),
+  );
+};
+
+const ledgerRef = (l: Ledger): LedgerRef => ({
+  id: l.id,
+  name: l.name,
+  records: l.records.length,
+});
+
+export const diffImport = (
+  current: Ledger[],
+  incoming: Ledger[],
+): ImportDiff => {
+  const diff: ImportDiff = {
+    newLedgers: [],
+    newRecords: [],
+    conflicts: [],
+    unchanged: 0,
+    missingLedgers: [],
+    missingRecords: [],
+  };
+  const currentById = new Map(current.map((l) => [l.id, l]));
+  const incomingIds = new Set(incoming.map((l) => l.id));
+
+  for (const theirs of incoming) {
+    const mine = currentById.get(theirs.id);
+    if (!mine) {
+      diff.newLedgers.push(ledgerRef(theirs));
+      continue;
+    }
+    const ref = { ledgerId: mine.id, ledgerName: mine.name };
+    const mineById = new Map(mine.records.map((r) => [r.id, r]));
+    const theirIds = new Set(theirs.records.map((r) => r.id));
+    for (const record of theirs.records) {
+      const existing = mineById.get(record.id);
+      if (!existing) {
+        diff.newRecords.push({ ...ref, record });
+        continue;
+      }
+      const fields = changedFields(existing, record);
+      if (fields.length === 0) {
+        diff.unchanged += 1;
+        continue;
+      }
+      diff.conflicts.push({
+        ...ref,
+        key: conflictKey(mine.id, record.id),
+        mine: existing,
+        theirs: record,
+        fields,
+      });
+    }
+    for (const record of mine.records) {
+      if (!theirIds.has(record.id))
+        diff.missingRecords.push({ ...ref, record });
+    }
+  }
+
+  for (const l of current) {
+    if (!incomingIds.has(l.id)) diff.missingLedgers.push(ledgerRef(l));
+  }
+  return diff;
+};
+
+// Without a choice, merges keep the existing copy and replaces take the
+// incoming one. "both" keeps the existing record and adds the incoming one
+// under a fresh id; for sells it falls back to the default. Sells matched to
+// a conflicting buy are re-priced against the copy that was kept.
+const resolveRecords = (
+  mine: Ledger,
+  theirs: Ledger,
+  mode: ImportMode,
+  choices: Record<string, ConflictChoice>,
+  makeId: () => string,
+) => {
+  const mineById = new Map(mine.records.map((r) => [r.id, r]));
+  const records: TradeRecord[] =
+    mode === "merge"
+      ? [...mine.records]
+      : theirs.records.filter((r) => !mineById.has(r.id));
+  const index = new Map(records.map((r, i) => [r.id, i]));
+  const conflictingBuys: string[] = [];
+
+  for (const record of theirs.records) {
+    const existing = mineById.get(record.id);
+    if (!existing) {
+      if (mode === "merge") records.push(record);
+      continue;
+    }
+    if (changedFields(existing, record).length === 0) {
+      if (mode === "replace") records.push(existing);
+      continue;
+    }
+    const chosen =
+      choices[conflictKey(mine.id, record.id)] ?? defaultChoice(mode);
+    const choice =
+      chosen === "both" && !canKeepBoth(existing, record)
+        ? defaultChoice(mode)
+        : chosen;
+    const kept = choice === "theirs" ? record : existing;
+    const at = index.get(record.id);
+    if (at === undefined) records.push(kept);
+    else records[at] = kept;
+    if (choice === "both") records.push({ ...record, id: makeId() });
+    if (kept.side === "buy") conflictingBuys.push(kept.id);
+  }
+
+  const resolved = conflictingBuys.reduce(repriceSells, records);
+  const [overClosed] = overClosedLots(resolved);
+  if (overClosed) throw new MergeError("overClosed", mine.name, overClosed);
+  return resolved.sort((a, b) => b.timestamp - a.timestamp);
+};
+
+// Merge keeps every existing ledger and record; replace leaves exactly the
+// incoming set, with conflicts still resolved per choice.
+export const resolveImport = (
+  current: Ledger[],
+  incoming: Ledger[],
+  mode: ImportMode,
+  choices: Record<string, ConflictChoice>,
+  makeId: () => string,
+): Ledger[] => {
+  const currentById = new Map(current.map((l) => [l.id, l]));
+  const map = new Map<string, Ledger>(
+    mode === "merge" ? current.map((l) => [l.id, l]) : [],
+  );
+  for (const theirs of incoming) {
+    const mine = currentById.get(theirs.id);
+    if (!mine) {
+      map.set(theirs.id, theirs);
+      continue;
+    }
+    const records = resolveRecords(mine, theirs, mode, choices, makeId);
+    map.set(
+      theirs.id,
+      mode === "merge" ? { ...mine, records } : { ...theirs, records },
+    );
+  }
+  return [...map.values()].sort((a, b) => a.createdAt - b.createdAt);
+};
@@ -0,0 +1,109 @@
+// Export files are upgraded one version at a time to the current layout
+// before they are normalized, so the readers only deal with one shape.
+// The layout is published as a JSON Schema at
+// public/schemas/auragold-export.v2.schema.json.
+
+export const EXPORT_SCHEMA = "auragold.export";
+export const EXPORT_VERSION = 2;
+
+export type ExportKind = "all" | "ledger";
+
+export type ExportDocument = {
+  schema: typeof EXPORT_SCHEMA;
+  version: number;
+  kind: ExportKind;
+  exportedAt?: string;
+  payload: Record<string, unknown>;
+};
+
+// Thrown for files written by a newer version of the app, which this one
+// cannot read without losing data.
+export class ExportVersionError extends Error {
+  constructor(readonly version: number) {
+    super(`Export version ${version} is newer than ${EXPORT_VERSION}`);
+    this.name = "ExportVersionError";
+  }
+}
+
+const asObject = (value: unknown): Record<string, unknown> | null =>
+  value && typeof value === "object" && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : null;
+
+// Each step takes a document of version `n` to version `n + 1`.
+const MIGRATIONS: Record<number, (doc: ExportDocument) => ExportDocument> = {
+  // v1 kept the language and theme next to the ledgers; v2 groups them with
+  // the other view settings.
+  1: (doc) => {
+    if (doc.kind !== "all") return { ...doc, version: 2 };
+    const { lang, theme, ...payload } = doc.payload;
+    const settings = {
+      ...(lang !== undefined ? { lang } : {}),
+      ...(theme !== undefined ? { theme } : {}),
+    };
+    return {
+      ...doc,
+      version: 2,
+      payload: {
+        ...payload,
+        ...(Object.keys(settings).length > 0 ? { settings } : {}),
+      },
+    };
+  },
+};
+
+// Wraps the forms that predate the export envelope: a bare array of ledgers
+// for full exports, a bare ledger object for single-ledger exports.
+const fromLegacy = (
+  input: unknown,
+  kind: ExportKind,
+): ExportDocument | null => {
+  if (kind === "all" && Array.isArray(input)) {
+    return {
+      schema: EXPORT_SCHEMA,
+      version: 1,
+      kind,
+      payload: { ledgers: input },
+    };
+  }
+  const obj = asObject(input);
+  if (kind === "ledger" && obj && obj.schema === undefined) {
+    return {
+      schema: EXPORT_SCHEMA,
+      version: 1,
+      kind,
+      payload: { ledger: obj },
+    };
+  }
+  return null;
+};
+
+// Returns the file as a current-version document of `kind`, or null when it
+// is not one; files written by a newer version throw ExportVersionError.
+// `legacy` is set for the bare forms, whose report paths start at `$`.
+export const migrateExport = (
+  input: unknown,
+  kind: ExportKind,
+): { document: ExportDocument; legacy: boolean } | null => {
+  const legacyDoc = fromLegacy(input, kind);
+  const obj = asObject(input);
+  let doc: ExportDocument | null = legacyDoc;
+  if (!doc && obj && obj.schema === EXPORT_SCHEMA && obj.kind === kind) {
+    const payload = asObject(obj.payload);
+    // Readers never checked the version before v2, so files without one are
+    // read as v1.
+    const version = obj.version === undefined ? 1 : obj.version;
+    if (!payload || typeof version !== "number") return null;
+    doc = { ...(obj as ExportDocument), version, payload };
+  }
+  if (!doc) return null;
+  if (doc.version > EXPORT_VERSION) throw new ExportVersionError(doc.version);
+
+  while (doc.version < EXPORT_VERSION) {
+    const step = MIGRATIONS[doc.version];
+    if (!step) return null;
+    doc = step(doc);
+  }
+  if (doc.version !== EXPORT_VERSION) return null;
+  return { document: doc, legacy: !!legacyDoc };
+};
@@ -0,0 +1,88 @@
+// A minimal PDF writer: every page is one full-bleed JPEG. Pages are
+// rendered as HTML first, so any script the browser can draw (including
+// Chinese) ends up in the file without embedding fonts.
+
+export type PdfPageImage = {
+  jpeg: Uint8Array;
+  // Pixel size of the JPEG.
+  width: number;
+  height: number;
+};
+
+// A4 portrait in points.
+export const A4 = { width: 595.28, height: 841.89 };
+
+export const jpegFromDataUrl = (dataUrl: string) => {
+  const binary = atob(dataUrl.slice(dataUrl.indexOf(",") + 1));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+export const imagesToPdf = (pages: PdfPageImage[], size = A4) => {
+  const encoder = new TextEncoder();
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+  const push = (part: Uint8Array | string) => {
+    const bytes = typeof part === "string" ? encoder.encode(part) : part;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+  const object = (id: number, ...body: (Uint8Array | string)[]) => {
+    offsets[id] = length;
+    push(`${id} 0 obj\n`);
+    body.forEach(push);
+    push("\nendobj\n");
+  };
+
+  // Objects: 1 catalog, 2 page tree, then page, content and image per page.
+  const pageId = (i: number) => 3 + i * 3;
+  const w = size.width.toFixed(2);
+  const h = size.height.toFixed(2);
+
+  push("%PDF-1.4\n");
+  // A comment of high bytes marks the file as binary.
+  push(new Uint8Array([0x25, 0xe2, 0xe3, 0xcf, 0xd3, 0x0a]));
+  object(1, "<< /Type /Catalog /Pages 2 0 R >>");
+  object(
+    2,
+    `<< /Type /Pages /Kids [${pages.map((_, i) => `${pageId(i)} 0 R`).join(" ")}] /Count ${pages.length} >>`,
+  );
+  pages.forEach((page, i) => {
+    const id = pageId(i);
+    const content = `q ${w} 0 0 ${h} 0 0 cm /Im0 Do Q`;
+    object(
+      id,
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${w} ${h}] /Resources << /XObject << /Im0 ${id + 2} 0 R >> >> /Contents ${id + 1} 0 R >>`,
+    );
+    object(
+      id + 1,
+      `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+    );
+    object(
+      id + 2,
+      `<< /Type /XObject /Subtype /Image /Width ${page.width} /Height ${page.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.jpeg.length} >>\nstream\n`,
+      page.jpeg,
+      "\nendstream",
+    );
+  });
+
+  const count = 3 + pages.length * 3;
+  const xref = length;
+  push(`xref\n0 ${count}\n0000000000 65535 f \n`);
+  for (let id = 1; id < count; id++) {
+    push(`${String(offsets[id]).padStart(10, "0")} 00000 n \n`);
+  }
+  push(
+    `trailer\n<< /Size ${count} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`,
+  );
+
+  const out = new Uint8Array(length);
+  let at = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, at);
+    at += chunk.length;
+  }
+  return out;
+};
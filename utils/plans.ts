@@ -0,0 +1,175 @@
+import {
+  FeePreset,
+  FeeSchedule,
+  Ledger,
+  PendingEntry,
+  PlanFrequency,
+  SavingsPlan,
+  TradeRecord,
+} from "../types";
+import { applyFeePreset, DEFAULT_FEE_SCHEDULE } from "./fees";
+import {
+  computeFees,
+  deriveTradeFields,
+  fromCents,
+  sumMoney,
+  toCents,
+} from "./calc";
+
+export const PLAN_FREQUENCIES: PlanFrequency[] = [
+  "weekly",
+  "biweekly",
+  "monthly",
+];
+
+// Catching up after a long break never floods the ledger.
+const MAX_CATCH_UP = 24;
+
+// How often an open tab checks whether a new day has made plans due.
+export const PLAN_CHECK_INTERVAL_MS = 60_000;
+
+export const localDateKey = (timestamp: number) => {
+  const d = new Date(timestamp);
+  d.setMinutes(d.getMinutes() - d.getTimezoneOffset());
+  return d.toISOString().slice(0, 10);
+};
+
+// Date math runs in UTC on the YYYY-MM-DD key so DST never shifts a day.
+const occurrence = (plan: SavingsPlan, n: number) => {
+  const [y, m, d] = plan.startDate.split("-").map(Number);
+  if (plan.frequency === "monthly") {
+    const lastDay = new Date(Date.UTC(y, m - 1 + n + 1, 0)).getUTCDate();
+    return new Date(Date.UTC(y, m - 1 + n, Math.min(d, lastDay)))
+      .toISOString()
+      .slice(0, 10);
+  }
+  const step = plan.frequency === "weekly" ? 7 : 14;
+  return new Date(Date.UTC(y, m - 1, d + step * n)).toISOString().slice(0, 10);
+};
+
+export const dueDates = (plan: SavingsPlan, today: string) => {
+  const dates: string[] = [];
+  for (let n = 0; ; n++) {
+    const date = occurrence(plan, n);
+    if (date > today) break;
+    if (!plan.scheduledThrough || date > plan.scheduledThrough) {
+      dates.push(date);
+    }
+  }
+  return dates.slice(-MAX_CATCH_UP);
+};
+
+// Adds a pending entry for every due date of an active plan up to `today`.
+// Returns null when nothing new is due.
+export const schedulePlans = (
+  ledger: Ledger,
+  today: string,
+  makeId: () => string,
+): Pick<Ledger, "plans" | "pendingEntries"> | null => {
+  const added: PendingEntry[] = [];
+  const plans = (ledger.plans ?? []).map((plan) => {
+    if (!plan.active) return plan;
+    const dates = dueDates(plan, today);
+    if (dates.length === 0) return plan;
+    for (const dueDate of dates) {
+      added.push({ id: makeId(), planId: plan.id, dueDate });
+    }
+    return { ...plan, scheduledThrough: dates[dates.length - 1] };
+  });
+  if (added.length === 0) return null;
+  return {
+    plans,
+    pendingEntries: [...(ledger.pendingEntries ?? []), ...added].sort((a, b) =>
+      a.dueDate.localeCompare(b.dueDate),
+    ),
+  };
+};
+
+// Plans buy through their channel, so the preset's rate is a purchase fee.
+export const planFeeSchedule = (
+  plan: SavingsPlan,
+  presets: FeePreset[],
+): FeeSchedule => {
+  const preset = presets.find((p) => p.name === plan.channel);
+  if (!preset) return DEFAULT_FEE_SCHEDULE;
+  return applyFeePreset(DEFAULT_FEE_SCHEDULE, preset, "buy");
+};
+
+// Largest turnover whose purchase fee keeps the total within `amount`. The
+// fee is either the rate plus the flat fee or the minimum charge, so both
+// cases are tried and the larger turnover that fits wins.
+const turnoverWithin = (amount: number, fees: FeeSchedule) => {
+  const amountCents = toCents(amount);
+  const byRate = Math.floor(
+    (amountCents - toCents(fees.fixed)) / (1 + fees.buyRate),
+  );
+  const byMinimum = amountCents - toCents(fees.minimum);
+  const fits = (cents: number) =>
+    cents > 0 &&
+    cents + toCents(computeFees("buy", 1, fromCents(cents), 0, fees).buy) <=
+      amountCents;
+  return fromCents(Math.max(0, ...[byRate, byMinimum].filter(fits)));
+};
+
+// Builds the buy leg for a confirmed entry at the actual per-gram price.
+// Amount-based plans spend the amount including the purchase fee.
+export const buildPlanBuy = (
+  plan: SavingsPlan,
+  entry: PendingEntry,
+  price: number,
+  fees: FeeSchedule,
+  id: string,
+): TradeRecord => {
+  const grams =
+    plan.basis === "grams"
+      ? plan.quantity
+      : turnoverWithin(plan.quantity, fees) / price;
+  const trade = {
+    side: "buy" as const,
+    grams,
+    costPrice: price,
+    sellingPrice: 0,
+    desiredPrice: price,
+    fees,
+  };
+  return {
+    id,
+    metal: plan.metal,
+    ...trade,
+    ...deriveTradeFields(trade),
+    // Midday keeps the due date stable across time zones.
+    timestamp: Math.min(
+      new Date(`${entry.dueDate}T12:00`).getTime(),
+      Date.now(),
+    ),
+    ...(plan.channel ? { channel: plan.channel } : {}),
+    planId: plan.id,
+  };
+};
+
+export type PlanTotals = {
+  grams: number;
+  cost: number;
+  avgCost: number;
+  count: number;
+};
+
+export const summarizePlan = (
+  records: TradeRecord[],
+  planId: string,
+): PlanTotals => {
+  const buys = records.filter((r) => r.planId === planId && r.side === "buy");
+  const grams = buys.reduce((acc, r) => acc + r.grams, 0);
+  const cost = sumMoney(
+    buys.flatMap((r) => [
+      r.grams * r.costPrice,
+      computeFees("buy", r.grams, r.costPrice, 0, r.fees).buy,
+    ]),
+  );
+  return {
+    grams,
+    cost,
+    avgCost: grams > 0 ? cost / grams : 0,
+    count: buys.length,
+  };
+};
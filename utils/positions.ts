@@ -0,0 +1,190 @@
+import {
+  CostBasisMethod,
+  FeeSchedule,
+  LotMatch,
+  Metal,
+  TradeRecord,
+} from "../types";
+import { computeFees, deriveTradeFields } from "./calc";
+import { recordFxRate } from "./currency";
+
+export const METALS: Metal[] = ["gold", "silver", "platinum", "palladium"];
+
+export type OpenLot = {
+  buyId: string;
+  metal: Metal;
+  timestamp: number;
+  grams: number;
+  remainingGrams: number;
+  costPrice: number;
+  desiredPrice: number;
+  fees: FeeSchedule;
+};
+
+// Grams below this are treated as fully closed to absorb float noise.
+const GRAMS_EPSILON = 1e-9;
+
+export const isRealized = (record: TradeRecord) => record.side !== "buy";
+
+// Per-gram cost of a buy leg as sells match against it. Purchase fees are
+// part of what each gram cost, and lots are costed in the ledger's base
+// currency so that sells priced in any currency match the same figures.
+const lotCostPrice = (buy: TradeRecord) => {
+  const buyFee = computeFees("buy", buy.grams, buy.costPrice, 0, buy.fees).buy;
+  const costPrice =
+    buy.grams > 0 ? buy.costPrice + buyFee / buy.grams : buy.costPrice;
+  return costPrice * recordFxRate(buy);
+};
+
+export const getOpenLots = (records: TradeRecord[]): OpenLot[] => {
+  const lots = new Map<string, OpenLot>();
+  for (const r of records) {
+    if (r.side !== "buy") continue;
+    lots.set(r.id, {
+      buyId: r.id,
+      metal: r.metal,
+      timestamp: r.timestamp,
+      grams: r.grams,
+      remainingGrams: r.grams,
+      costPrice: lotCostPrice(r),
+      desiredPrice: r.desiredPrice,
+      fees: r.fees,
+    });
+  }
+
+  for (const r of records) {
+    if (r.side !== "sell" || !r.lotMatches) continue;
+    for (const m of r.lotMatches) {
+      const lot = lots.get(m.buyId);
+      if (lot) lot.remainingGrams -= m.grams;
+    }
+  }
+
+  return [...lots.values()]
+    .filter((l) => l.remainingGrams > GRAMS_EPSILON)
+    .sort((a, b) => a.timestamp - b.timestamp);
+};
+
+export const COST_BASIS_METHODS: CostBasisMethod[] = [
+  "fifo",
+  "lifo",
+  "specific",
+  "average",
+];
+
+const takeInOrder = (lots: OpenLot[], grams: number): LotMatch[] | null => {
+  const matches: LotMatch[] = [];
+  let left = grams;
+  for (const lot of lots) {
+    if (left <= GRAMS_EPSILON) break;
+    const take = Math.min(lot.remainingGrams, left);
+    matches.push({ buyId: lot.buyId, grams: take, costPrice: lot.costPrice });
+    left -= take;
+  }
+  if (left > GRAMS_EPSILON) return null;
+  return matches;
+};
+
+// Weighted average draws from every open lot pro rata, so the matched cost
+// equals the average cost of the whole position.
+const takeProRata = (lots: OpenLot[], grams: number): LotMatch[] | null => {
+  const open = lots.reduce((acc, l) => acc + l.remainingGrams, 0);
+  if (open <= GRAMS_EPSILON || grams - open > GRAMS_EPSILON) return null;
+  const ratio = Math.min(grams / open, 1);
+  return lots.map((lot) => ({
+    buyId: lot.buyId,
+    grams: lot.remainingGrams * ratio,
+    costPrice: lot.costPrice,
+  }));
+};
+
+export const matchSell = (
+  lots: OpenLot[],
+  grams: number,
+  method: CostBasisMethod = "fifo",
+): LotMatch[] | null => {
+  if (method === "average") return takeProRata(lots, grams);
+  if (method === "lifo") return takeInOrder([...lots].reverse(), grams);
+  return takeInOrder(lots, grams);
+};
+
+export const matchSpecificLots = (
+  lots: OpenLot[],
+  picks: Record<string, number>,
+): LotMatch[] | null => {
+  const matches: LotMatch[] = [];
+  for (const lot of lots) {
+    const grams = picks[lot.buyId] || 0;
+    if (grams <= 0) continue;
+    if (grams - lot.remainingGrams > GRAMS_EPSILON) return null;
+    matches.push({ buyId: lot.buyId, grams, costPrice: lot.costPrice });
+  }
+  return matches.length > 0 ? matches : null;
+};
+
+export const matchedCostPrice = (matches: LotMatch[]) => {
+  const grams = matches.reduce((acc, m) => acc + m.grams, 0);
+  if (grams === 0) return 0;
+  return matches.reduce((acc, m) => acc + m.grams * m.costPrice, 0) / grams;
+};
+
+export const remainingGramsByLot = (records: TradeRecord[]) =>
+  new Map(getOpenLots(records).map((l) => [l.buyId, l.remainingGrams]));
+
+// Buy legs that at least one sell has closed against.
+export const closedLotIds = (records: TradeRecord[]) =>
+  new Set(
+    records.flatMap((r) =>
+      r.side === "sell" ? (r.lotMatches ?? []).map((m) => m.buyId) : [],
+    ),
+  );
+
+// Buy legs whose matched sells close more grams than the leg holds.
+export const overClosedLots = (records: TradeRecord[]) => {
+  const closed = new Map<string, number>();
+  for (const r of records) {
+    if (r.side !== "sell" || !r.lotMatches) continue;
+    for (const m of r.lotMatches) {
+      closed.set(m.buyId, (closed.get(m.buyId) ?? 0) + m.grams);
+    }
+  }
+  return records.filter(
+    (r) =>
+      r.side === "buy" && (closed.get(r.id) ?? 0) - r.grams > GRAMS_EPSILON,
+  );
+};
+
+// Time of the first sell that closed against `buyId`, if any. The buy leg
+// cannot be moved past it, or that sell would close a lot bought later.
+export const firstClosingSellAt = (records: TradeRecord[], buyId: string) => {
+  let first: number | undefined;
+  for (const r of records) {
+    if (r.side !== "sell" || !r.lotMatches?.some((m) => m.buyId === buyId)) {
+      continue;
+    }
+    if (first === undefined || r.timestamp < first) first = r.timestamp;
+  }
+  return first;
+};
+
+// Re-prices the sells matched to `buyId` after that buy leg was edited, so
+// their matched cost and realized profit follow the new figures.
+export const repriceSells = (records: TradeRecord[], buyId: string) => {
+  const buy = records.find((r) => r.id === buyId && r.side === "buy");
+  if (!buy) return records;
+  const costPrice = lotCostPrice(buy);
+  return records.map((r) => {
+    if (r.side !== "sell" || !r.lotMatches?.some((m) => m.buyId === buyId)) {
+      return r;
+    }
+    const lotMatches = r.lotMatches.map((m) =>
+      m.buyId === buyId ? { ...m, costPrice } : m,
+    );
+    const trade = {
+      ...r,
+      lotMatches,
+      costPrice: matchedCostPrice(lotMatches) / recordFxRate(r),
+    };
+    return { ...trade, ...deriveTradeFields(trade) };
+  });
+};
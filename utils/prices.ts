@@ -0,0 +1,69 @@
+import { Currency, Metal, SpotPrice } from "../types";
+import { isCurrency } from "./currency";
+import { METALS } from "./positions";
+
+export const isSpotDate = (value: string) => /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+const spotKey = (p: SpotPrice) => `${p.metal}|${p.date}`;
+
+// Keeps one quote per metal and day, with incoming quotes replacing older
+// ones, newest first.
+export const upsertSpotPrices = (
+  history: SpotPrice[],
+  incoming: SpotPrice[],
+): SpotPrice[] => {
+  const map = new Map<string, SpotPrice>();
+  for (const p of history) map.set(spotKey(p), p);
+  for (const p of incoming) map.set(spotKey(p), p);
+  return [...map.values()].sort(
+    (a, b) => b.date.localeCompare(a.date) || a.metal.localeCompare(b.metal),
+  );
+};
+
+export const latestSpotPrices = (history: SpotPrice[]) => {
+  const latest: Partial<Record<Metal, SpotPrice>> = {};
+  for (const p of history) {
+    const prev = latest[p.metal];
+    if (!prev || p.date > prev.date) latest[p.metal] = p;
+  }
+  return latest;
+};
+
+// Rows are `date,metal,price[,currency]`; a header row and blank lines are
+// skipped. `toPerGram` converts the file's price unit into per-gram prices.
+export const parseSpotPriceCsv = (
+  text: string,
+  fallbackCurrency: Currency,
+  toPerGram: (price: number) => number,
+) => {
+  const prices: SpotPrice[] = [];
+  let skipped = 0;
+  const lines = text.split(/\r?\n/).filter((line) => line.trim());
+  for (const [i, line] of lines.entries()) {
+    const [date = "", metalRaw = "", priceRaw = "", currencyRaw = ""] = line
+      .split(",")
+      .map((cell) => cell.trim());
+    if (i === 0 && !isSpotDate(date)) continue;
+    const metal = metalRaw.toLowerCase() as Metal;
+    const price = Number(priceRaw);
+    const currency = currencyRaw.toUpperCase();
+    if (
+      !isSpotDate(date) ||
+      !METALS.includes(metal) ||
+      !priceRaw ||
+      !Number.isFinite(price) ||
+      price <= 0 ||
+      (currency && !isCurrency(currency))
+    ) {
+      skipped++;
+      continue;
+    }
+    prices.push({
+      metal,
+      date,
+      price: toPerGram(price),
+      currency: isCurrency(currency) ? currency : fallbackCurrency,
+    });
+  }
+  return { prices, skipped };
+};
@@ -0,0 +1,142 @@
+import { Ledger } from "../types";
+import { generateId } from "./id";
+
+// Point-in-time copies of every ledger, kept in IndexedDB so a mistaken
+// replace import or clear can be rolled back. localStorage only ever holds
+// the current state.
+
+export type SnapshotReason =
+  | "daily"
+  | "clearLedger"
+  | "deleteLedger"
+  | "deleteRecord"
+  | "import"
+  | "restore";
+
+export type Snapshot = {
+  id: string;
+  createdAt: number;
+  reason: SnapshotReason;
+  // Name of the ledger the destructive action targeted, if any.
+  label?: string;
+  ledgerCount: number;
+  recordCount: number;
+  ledgers: Ledger[];
+  activeLedgerId: string;
+};
+
+export type SnapshotInfo = Omit<Snapshot, "ledgers">;
+
+// Oldest snapshots beyond this count are dropped on every save.
+export const MAX_SNAPSHOTS = 40;
+
+const DB_NAME = "auragold";
+const DB_VERSION = 1;
+// The restore screen lists snapshots from INFO_STORE alone; the ledger
+// copies, which can be large, live in DATA_STORE under the same id.
+const INFO_STORE = "snapshots";
+const DATA_STORE = "snapshotData";
+
+type SnapshotData = Pick<Snapshot, "id" | "ledgers">;
+
+const request = <T>(req: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+let db: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  if (!db) {
+    db = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === "undefined") {
+        reject(new Error("IndexedDB is not available"));
+        return;
+      }
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const upgrade = req.result;
+        const store = upgrade.createObjectStore(INFO_STORE, { keyPath: "id" });
+        store.createIndex("createdAt", "createdAt");
+        upgrade.createObjectStore(DATA_STORE, { keyPath: "id" });
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+    // Let a later call retry after a failed open.
+    db.catch(() => {
+      db = null;
+    });
+  }
+  return db;
+};
+
+const transaction = async <T>(
+  mode: IDBTransactionMode,
+  run: (info: IDBObjectStore, data: IDBObjectStore) => Promise<T>,
+) => {
+  const tx = (await openDb()).transaction([INFO_STORE, DATA_STORE], mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+  const [result] = await Promise.all([
+    run(tx.objectStore(INFO_STORE), tx.objectStore(DATA_STORE)),
+    done,
+  ]);
+  return result;
+};
+
+export const saveSnapshot = (
+  ledgers: Ledger[],
+  activeLedgerId: string,
+  reason: SnapshotReason,
+  label?: string,
+) => {
+  const info: SnapshotInfo = {
+    id: generateId(),
+    createdAt: Date.now(),
+    reason,
+    label,
+    ledgerCount: ledgers.length,
+    recordCount: ledgers.reduce((acc, l) => acc + l.records.length, 0),
+    activeLedgerId,
+  };
+  return transaction("readwrite", async (infoStore, dataStore) => {
+    infoStore.put(info);
+    dataStore.put({ id: info.id, ledgers });
+    const keys = await request(
+      infoStore.index("createdAt").getAllKeys() as IDBRequest<IDBValidKey[]>,
+    );
+    // Keys come back oldest first; the new snapshot is always the newest.
+    keys.slice(0, Math.max(0, keys.length - MAX_SNAPSHOTS)).forEach((key) => {
+      infoStore.delete(key);
+      dataStore.delete(key);
+    });
+    return { ...info, ledgers };
+  });
+};
+
+// Newest first, without the ledger payloads.
+export const listSnapshots = () =>
+  transaction("readonly", async (infoStore) => {
+    const all = await request(infoStore.getAll() as IDBRequest<SnapshotInfo[]>);
+    return all.sort((a, b) => b.createdAt - a.createdAt);
+  });
+
+export const loadSnapshot = (id: string) =>
+  transaction("readonly", async (infoStore, dataStore) => {
+    const [info, data] = await Promise.all([
+      request(infoStore.get(id) as IDBRequest<SnapshotInfo | undefined>),
+      request(dataStore.get(id) as IDBRequest<SnapshotData | undefined>),
+    ]);
+    return info && data ? { ...info, ledgers: data.ledgers } : undefined;
+  });
+
+export const deleteSnapshot = (id: string) =>
+  transaction("readwrite", async (infoStore, dataStore) => {
+    dataStore.delete(id);
+    await request(infoStore.delete(id));
+  });
@@ -0,0 +1,100 @@
+import { Currency, FxRates, Ledger, TradeRecord } from "../types";
+import { recordFees, sumMoney } from "./calc";
+import {
+  convertRecord,
+  crossRate,
+  DEFAULT_CURRENCY,
+  recordFxRate,
+} from "./currency";
+import { isRealized } from "./positions";
+import { localDateKey } from "./plans";
+
+export type StatementEntry = {
+  ledgerName: string;
+  // Money fields converted into the statement currency.
+  record: TradeRecord;
+  fee: number;
+};
+
+export type StatementSubtotal = {
+  month: string;
+  count: number;
+  grams: number;
+  fees: number;
+  actualProfit: number;
+  projectedProfit: number;
+};
+
+export type StatementRow =
+  | { kind: "entry"; entry: StatementEntry }
+  | { kind: "subtotal"; subtotal: StatementSubtotal };
+
+// Every record of `ledgers`, oldest first, in `currency` the same way the
+// summary converts them.
+export const statementEntries = (
+  ledgers: Ledger[],
+  currency: Currency,
+  fxRates: FxRates,
+): StatementEntry[] =>
+  ledgers
+    .flatMap((l) => {
+      const rate = crossRate(
+        l.baseCurrency ?? DEFAULT_CURRENCY,
+        currency,
+        fxRates,
+      );
+      return l.records.map((r) => {
+        const recordRate = rate * recordFxRate(r);
+        return {
+          ledgerName: l.name,
+          record: convertRecord(r, recordRate),
+          fee: sumMoney([recordFees(r).total * recordRate]),
+        };
+      });
+    })
+    .sort((a, b) => a.record.timestamp - b.record.timestamp);
+
+const subtotal = (month: string, entries: StatementEntry[]) => {
+  const realized = entries.filter((e) => isRealized(e.record));
+  return {
+    month,
+    count: entries.length,
+    grams: entries.reduce((acc, e) => acc + e.record.grams, 0),
+    fees: sumMoney(entries.map((e) => e.fee)),
+    actualProfit: sumMoney(realized.map((e) => e.record.actualProfit)),
+    projectedProfit: sumMoney(realized.map((e) => e.record.projectedProfit)),
+  };
+};
+
+// Entries followed by a subtotal row after each calendar month. Profit
+// subtotals only count realized trades, like the summary.
+export const statementRows = (entries: StatementEntry[]): StatementRow[] => {
+  const rows: StatementRow[] = [];
+  let month = "";
+  let bucket: StatementEntry[] = [];
+  const close = () => {
+    if (bucket.length === 0) return;
+    rows.push({ kind: "subtotal", subtotal: subtotal(month, bucket) });
+    bucket = [];
+  };
+  for (const entry of entries) {
+    const key = localDateKey(entry.record.timestamp).slice(0, 7);
+    if (key !== month) {
+      close();
+      month = key;
+    }
+    rows.push({ kind: "entry", entry });
+    bucket.push(entry);
+  }
+  close();
+  return rows;
+};
+
+// The first page also carries the summary header, so it fits fewer rows.
+export const paginate = <T>(rows: T[], firstPage: number, perPage: number) => {
+  const pages: T[][] = [rows.slice(0, firstPage)];
+  for (let i = firstPage; i < rows.length; i += perPage) {
+    pages.push(rows.slice(i, i + perPage));
+  }
+  return pages;
+};
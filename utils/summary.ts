@@ -0,0 +1,139 @@
+import {
+  Currency,
+  FxRates,
+  Ledger,
+  Metal,
+  TradeRecord,
+  TradeSummary,
+} from "../types";
+import { MarketPrices } from "./alerts";
+import { sumMoney } from "./calc";
+import {
+  convertRecord,
+  crossRate,
+  DEFAULT_CURRENCY,
+  recordFxRate,
+} from "./currency";
+import { getOpenLots, isRealized, OpenLot } from "./positions";
+
+// Totals for `ledgers` expressed in `currency`; open holdings are valued at
+// `marketPrices`.
+export const summarizeLedgers = (
+  ledgers: Ledger[],
+  currency: Currency,
+  fxRates: FxRates,
+  marketPrices: MarketPrices,
+): TradeSummary => {
+  const records: TradeRecord[] = [];
+  const lots: OpenLot[] = [];
+  // Open lots belong to a single ledger, so they are collected per ledger.
+  // Each ledger keeps its own base currency; the master view converts them
+  // with the local rate table.
+  for (const l of ledgers) {
+    const rate = crossRate(
+      l.baseCurrency ?? DEFAULT_CURRENCY,
+      currency,
+      fxRates,
+    );
+    for (const lot of getOpenLots(l.records)) {
+      lots.push({ ...lot, costPrice: lot.costPrice * rate });
+    }
+    for (const r of l.records) {
+      records.push(convertRecord(r, rate * recordFxRate(r)));
+    }
+  }
+  const holdingGrams = lots.reduce((acc, l) => acc + l.remainingGrams, 0);
+  const holdingCost = sumMoney(lots.map((l) => l.remainingGrams * l.costPrice));
+  const holdingAvgCost = holdingGrams > 0 ? holdingCost / holdingGrams : 0;
+
+  let unpricedGrams = 0;
+  const marketValues: number[] = [];
+  const pricedCosts: number[] = [];
+  for (const l of lots) {
+    const quote = marketPrices[l.metal];
+    if (!quote) {
+      unpricedGrams += l.remainingGrams;
+      continue;
+    }
+    marketValues.push(
+      l.remainingGrams *
+        quote.price *
+        crossRate(quote.currency, currency, fxRates),
+    );
+    pricedCosts.push(l.remainingGrams * l.costPrice);
+  }
+  const marketValue = sumMoney(marketValues);
+  const unrealizedProfit = sumMoney([marketValue, -sumMoney(pricedCosts)]);
+
+  const realized = records.filter(isRealized);
+  const byMetal: TradeSummary["byMetal"] = {};
+  const metalTotals = (metal: Metal) =>
+    (byMetal[metal] ??= {
+      totalProfit: 0,
+      totalGrams: 0,
+      holdingGrams: 0,
+      holdingAvgCost: 0,
+    });
+  for (const r of realized) {
+    const m = metalTotals(r.metal);
+    m.totalProfit = sumMoney([m.totalProfit, r.actualProfit]);
+    m.totalGrams += r.grams;
+  }
+  // Each metal's holding cost is averaged over its own lots only.
+  const metalHoldingCosts = new Map<Metal, number[]>();
+  for (const l of lots) {
+    metalTotals(l.metal).holdingGrams += l.remainingGrams;
+    const costs = metalHoldingCosts.get(l.metal) ?? [];
+    costs.push(l.remainingGrams * l.costPrice);
+    metalHoldingCosts.set(l.metal, costs);
+  }
+  for (const [metal, costs] of metalHoldingCosts) {
+    const m = metalTotals(metal);
+    if (m.holdingGrams > 0) m.holdingAvgCost = sumMoney(costs) / m.holdingGrams;
+  }
+
+  if (realized.length === 0)
+    return {
+      currency,
+      totalProfit: 0,
+      totalProjectedProfit: 0,
+      totalGrams: 0,
+      avgCostPrice: 0,
+      profitDifference: 0,
+      holdingGrams,
+      holdingAvgCost,
+      marketValue,
+      unrealizedProfit,
+      unpricedGrams,
+      byMetal,
+    };
+
+  const totalProfit = sumMoney(realized.map((r) => r.actualProfit));
+  const totalProjectedProfit = sumMoney(realized.map((r) => r.projectedProfit));
+  const totalGrams = realized.reduce((acc, curr) => acc + curr.grams, 0);
+  const avgCostPrice =
+    realized.reduce((acc, curr) => acc + curr.costPrice, 0) / realized.length;
+  const profitDifference = sumMoney([totalProjectedProfit, -totalProfit]);
+
+  return {
+    currency,
+    totalProfit,
+    totalProjectedProfit,
+    totalGrams,
+    avgCostPrice,
+    profitDifference,
+    holdingGrams,
+    holdingAvgCost,
+    marketValue,
+    unrealizedProfit,
+    unpricedGrams,
+    byMetal,
+  };
+};
+
+// Metals with open holdings. With more than one, the top-level holding
+// figures mix metals and each metal's own figures are shown instead.
+export const heldMetals = (summary: TradeSummary) =>
+  (Object.keys(summary.byMetal) as Metal[]).filter(
+    (metal) => summary.byMetal[metal]!.holdingGrams > 0,
+  );
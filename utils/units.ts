@@ -0,0 +1,30 @@
+import { WeightUnit } from "../types";
+
+export const WEIGHT_UNITS: WeightUnit[] = ["g", "ozt", "kg", "tael"];
+
+// The tael is the mainland 市两 (1 斤 = 500g = 10 两).
+export const GRAMS_PER_UNIT: Record<WeightUnit, number> = {
+  g: 1,
+  ozt: 31.1034768,
+  kg: 1000,
+  tael: 50,
+};
+
+export const isWeightUnit = (value: unknown): value is WeightUnit =>
+  value === "g" || value === "ozt" || value === "kg" || value === "tael";
+
+export const toGrams = (value: number, unit: WeightUnit) =>
+  value * GRAMS_PER_UNIT[unit];
+
+export const fromGrams = (grams: number, unit: WeightUnit) =>
+  grams / GRAMS_PER_UNIT[unit];
+
+// Prices are stored per gram; a price per unit scales the other way round.
+export const pricePerGram = (price: number, unit: WeightUnit) =>
+  price / GRAMS_PER_UNIT[unit];
+
+export const pricePerUnit = (price: number, unit: WeightUnit) =>
+  price * GRAMS_PER_UNIT[unit];
+
+export const formatWeight = (grams: number, unit: WeightUnit, suffix: string) =>
+  `${fromGrams(grams, unit).toFixed(unit === "g" ? 2 : 4)}${suffix}`;
@@ -0,0 +1,383 @@
+import { Currency, Ledger, TradeRecord, TradeSummary } from "../types";
+import { recordFees } from "./calc";
+import { CsvColumn } from "./csv";
+import { CURRENCIES, DEFAULT_CURRENCY } from "./currency";
+import { createZip, readZip } from "./zip";
+
+export type XlsxFormat = "grams" | "percent" | "date" | "money";
+
+export type XlsxCell =
+  | string
+  | number
+  | null
+  | { value: number; format: XlsxFormat; currency?: Currency };
+
+// The first row of every sheet is a bold header that stays frozen on scroll.
+export type XlsxSheet = { name: string; rows: XlsxCell[][]; widths?: number[] };
+
+const CURRENCY_SYMBOLS: Record<Currency, string> = {
+  CNY: "¥",
+  USD: "$",
+  HKD: "HK$",
+};
+
+// Custom number formats start at id 164. Margins are stored as percentages
+// already, so their format only appends the sign.
+const NUMBER_FORMATS = [
+  '#,##0.00##" g"',
+  '0.00"%"',
+  "yyyy-mm-dd hh:mm",
+  ...CURRENCIES.map((c) => `"${CURRENCY_SYMBOLS[c]}"#,##0.00`),
+];
+
+const HEADER_STYLE = 1;
+
+const styleFor = (format: XlsxFormat, currency?: Currency) => {
+  if (format === "grams") return 2;
+  if (format === "percent") return 3;
+  if (format === "date") return 4;
+  return 5 + CURRENCIES.indexOf(currency ?? DEFAULT_CURRENCY);
+};
+
+const escapeXml = (text: string) =>
+  text
+    // Control characters are not allowed in XML 1.0.
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const columnName = (index: number) => {
+  let name = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+};
+
+// Spreadsheet dates are days since 1899-12-30 in local time.
+export const toSerialDate = (timestamp: number) =>
+  (timestamp - new Date(timestamp).getTimezoneOffset() * 60000) / 86400000 +
+  25569;
+
+const cellXml = (cell: XlsxCell, ref: string, header: boolean) => {
+  if (cell === null || cell === "") return "";
+  if (typeof cell === "string") {
+    const style = header ? ` s="${HEADER_STYLE}"` : "";
+    return `<c r="${ref}" t="inlineStr"${style}><is><t xml:space="preserve">${escapeXml(cell)}</t></is></c>`;
+  }
+  if (typeof cell === "number") {
+    return Number.isFinite(cell) ? `<c r="${ref}"><v>${cell}</v></c>` : "";
+  }
+  if (!Number.isFinite(cell.value)) return "";
+  return `<c r="${ref}" s="${styleFor(cell.format, cell.currency)}"><v>${cell.value}</v></c>`;
+};
+
+const sheetXml = ({ rows, widths }: XlsxSheet) => {
+  const cols = widths?.length
+    ? `<cols>${widths
+        .map(
+          (w, i) =>
+            `<col min="${i + 1}" max="${i + 1}" width="${w}" customWidth="1"/>`,
+        )
+        .join("")}</cols>`
+    : "";
+  const data = rows
+    .map(
+      (row, r) =>
+        `<row r="${r + 1}">${row
+          .map((cell, c) => cellXml(cell, `${columnName(c)}${r + 1}`, r === 0))
+          .join("")}</row>`,
+    )
+    .join("");
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>${cols}<sheetData>${data}</sheetData></worksheet>`;
+};
+
+const stylesXml = () => {
+  const numFmts = NUMBER_FORMATS.map(
+    (code, i) =>
+      `<numFmt numFmtId="${164 + i}" formatCode="${escapeXml(code)}"/>`,
+  ).join("");
+  const xfs = [
+    '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>',
+    '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>',
+    ...NUMBER_FORMATS.map(
+      (_, i) =>
+        `<xf numFmtId="${164 + i}" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>`,
+    ),
+  ];
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><numFmts count="${NUMBER_FORMATS.length}">${numFmts}</numFmts><fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts><fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills><borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders><cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs><cellXfs count="${xfs.length}">${xfs.join("")}</cellXfs><cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles></styleSheet>`;
+};
+
+// Sheet names are at most 31 characters, may not contain []:*?/\ and must
+// be unique regardless of case.
+const sheetNames = (names: string[]) => {
+  const used = new Set<string>();
+  return names.map((raw) => {
+    const base =
+      raw
+        .replace(/[[\]:*?/\\]/g, "-")
+        .replace(/^'+|'+$/g, "")
+        .trim()
+        .slice(0, 31) || "Sheet";
+    let name = base;
+    for (let i = 2; used.has(name.toLowerCase()); i++) {
+      const suffix = ` (${i})`;
+      name = base.slice(0, 31 - suffix.length) + suffix;
+    }
+    used.add(name.toLowerCase());
+    return name;
+  });
+};
+
+export const buildXlsx = (sheets: XlsxSheet[]) => {
+  const names = sheetNames(sheets.map((s) => s.name));
+  const ns = "http://schemas.openxmlformats.org";
+  const xml = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+  return createZip([
+    {
+      name: "[Content_Types].xml",
+      data: `${xml}<Types xmlns="${ns}/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>${sheets
+        .map(
+          (_, i) =>
+            `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`,
+        )
+        .join("")}</Types>`,
+    },
+    {
+      name: "_rels/.rels",
+      data: `${xml}<Relationships xmlns="${ns}/package/2006/relationships"><Relationship Id="rId1" Type="${ns}/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>`,
+    },
+    {
+      name: "xl/workbook.xml",
+      data: `${xml}<workbook xmlns="${ns}/spreadsheetml/2006/main" xmlns:r="${ns}/officeDocument/2006/relationships"><sheets>${names
+        .map(
+          (name, i) =>
+            `<sheet name="${escapeXml(name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`,
+        )
+        .join("")}</sheets></workbook>`,
+    },
+    {
+      name: "xl/_rels/workbook.xml.rels",
+      data: `${xml}<Relationships xmlns="${ns}/package/2006/relationships">${sheets
+        .map(
+          (_, i) =>
+            `<Relationship Id="rId${i + 1}" Type="${ns}/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`,
+        )
+        .join(
+          "",
+        )}<Relationship Id="rId${sheets.length + 1}" Type="${ns}/officeDocument/2006/relationships/styles" Target="styles.xml"/></Relationships>`,
+    },
+    { name: "xl/styles.xml", data: stylesXml() },
+    ...sheets.map((sheet, i) => ({
+      name: `xl/worksheets/sheet${i + 1}.xml`,
+      data: sheetXml(sheet),
+    })),
+  ]);
+};
+
+export type XlsxSummaryColumn =
+  | "ledger"
+  | "currency"
+  | "totalProfit"
+  | "totalProjectedProfit"
+  | "profitDifference"
+  | "totalGrams"
+  | "avgCostPrice"
+  | "holdingGrams"
+  | "holdingAvgCost"
+  | "marketValue"
+  | "unrealizedProfit"
+  | "unpricedGrams";
+
+const SUMMARY_COLUMNS: XlsxSummaryColumn[] = [
+  "ledger",
+  "currency",
+  "totalProfit",
+  "totalProjectedProfit",
+  "profitDifference",
+  "totalGrams",
+  "avgCostPrice",
+  "holdingGrams",
+  "holdingAvgCost",
+  "marketValue",
+  "unrealizedProfit",
+  "unpricedGrams",
+];
+
+const RECORD_COLUMNS: (CsvColumn | "channel" | "note")[] = [
+  "date",
+  "side",
+  "metal",
+  "grams",
+  "costPrice",
+  "sellingPrice",
+  "fee",
+  "actualProfit",
+  "projectedProfit",
+  "margin",
+  "currency",
+  "channel",
+  "note",
+];
+
+export type XlsxLabels = {
+  summarySheet: string;
+  summary: Record<XlsxSummaryColumn, string>;
+  headers: Record<CsvColumn | "channel" | "note", string>;
+  sides: Record<TradeRecord["side"], string>;
+  metals: Record<TradeRecord["metal"], string>;
+};
+
+const money = (value: number, currency: Currency): XlsxCell => ({
+  value,
+  format: "money",
+  currency,
+});
+
+const grams = (value: number): XlsxCell => ({ value, format: "grams" });
+
+// Amounts are in each record's own currency, like the CSV export, and
+// prices are per gram.
+const recordRow = (
+  ledger: Ledger,
+  record: TradeRecord,
+  labels: XlsxLabels,
+): XlsxCell[] => {
+  const currency = record.currency ?? ledger.baseCurrency ?? DEFAULT_CURRENCY;
+  const isBuy = record.side === "buy";
+  return [
+    { value: toSerialDate(record.timestamp), format: "date" },
+    labels.sides[record.side],
+    labels.metals[record.metal],
+    grams(record.grams),
+    money(record.costPrice, currency),
+    isBuy ? null : money(record.sellingPrice, currency),
+    money(recordFees(record).total, currency),
+    isBuy ? null : money(record.actualProfit, currency),
+    money(record.projectedProfit, currency),
+    isBuy ? null : { value: record.profitMargin, format: "percent" },
+    currency,
+    record.channel ?? null,
+    record.note ?? null,
+  ];
+};
+
+// Summary figures are in each ledger's base currency.
+const summaryRow = (ledger: Ledger, s: TradeSummary): XlsxCell[] => [
+  ledger.name,
+  s.currency,
+  money(s.totalProfit, s.currency),
+  money(s.totalProjectedProfit, s.currency),
+  money(s.profitDifference, s.currency),
+  grams(s.totalGrams),
+  money(s.avgCostPrice, s.currency),
+  grams(s.holdingGrams),
+  money(s.holdingAvgCost, s.currency),
+  money(s.marketValue, s.currency),
+  money(s.unrealizedProfit, s.currency),
+  grams(s.unpricedGrams),
+];
+
+// A summary sheet with one row per ledger, then one sheet of records per
+// ledger, newest first.
+export const ledgersToXlsx = (
+  ledgers: { ledger: Ledger; summary: TradeSummary }[],
+  labels: XlsxLabels,
+) =>
+  buildXlsx([
+    {
+      name: labels.summarySheet,
+      rows: [
+        SUMMARY_COLUMNS.map((c) => labels.summary[c]),
+        ...ledgers.map(({ ledger, summary }) => summaryRow(ledger, summary)),
+      ],
+      widths: SUMMARY_COLUMNS.map((c) => (c === "ledger" ? 24 : 16)),
+    },
+    ...ledgers.map(({ ledger }) => ({
+      name: ledger.name,
+      rows: [
+        RECORD_COLUMNS.map((c) => labels.headers[c]),
+        ...[...ledger.records]
+          .sort((a, b) => b.timestamp - a.timestamp)
+          .map((record) => recordRow(ledger, record, labels)),
+      ],
+      widths: RECORD_COLUMNS.map((c) =>
+        c === "date" ? 17 : c === "note" ? 32 : 14,
+      ),
+    })),
+  ]);
+
+const parseXml = (bytes: Uint8Array | undefined) =>
+  bytes
+    ? new DOMParser().parseFromString(
+        new TextDecoder().decode(bytes),
+        "application/xml",
+      )
+    : null;
+
+const columnIndex = (ref: string) => {
+  let index = 0;
+  for (const ch of ref.replace(/\d+$/, ""))
+    index = index * 26 + ch.charCodeAt(0) - 64;
+  return index - 1;
+};
+
+// Cell text of the workbook's first sheet, row by row. Numbers come back as
+// written (dates stay serial numbers); blank rows are dropped.
+export const readXlsxRows = async (bytes: Uint8Array) => {
+  const files = await readZip(bytes);
+  const shared = Array.from<Element>(
+    parseXml(files.get("xl/sharedStrings.xml"))?.getElementsByTagName("si") ??
+      [],
+  ).map((si) =>
+    Array.from<Element>(si.getElementsByTagName("t"))
+      .map((t) => t.textContent ?? "")
+      .join(""),
+  );
+
+  // The first <sheet> in workbook order, resolved through its relationship.
+  const rid = parseXml(files.get("xl/workbook.xml"))
+    ?.getElementsByTagName("sheet")[0]
+    ?.getAttribute("r:id");
+  const target = Array.from<Element>(
+    parseXml(files.get("xl/_rels/workbook.xml.rels"))?.getElementsByTagName(
+      "Relationship",
+    ) ?? [],
+  )
+    .find((r) => r.getAttribute("Id") === rid)
+    ?.getAttribute("Target");
+  const path = target
+    ? target.startsWith("/")
+      ? target.slice(1)
+      : `xl/${target}`
+    : "xl/worksheets/sheet1.xml";
+  const sheet = parseXml(files.get(path));
+  if (!sheet) return [];
+
+  const rows: string[][] = [];
+  for (const row of Array.from<Element>(sheet.getElementsByTagName("row"))) {
+    const cells: string[] = [];
+    for (const c of Array.from<Element>(row.getElementsByTagName("c"))) {
+      const type = c.getAttribute("t");
+      const value = c.getElementsByTagName("v")[0]?.textContent ?? "";
+      const text =
+        type === "s"
+          ? (shared[Number(value)] ?? "")
+          : type === "inlineStr"
+            ? Array.from<Element>(c.getElementsByTagName("t"))
+                .map((t) => t.textContent ?? "")
+                .join("")
+            : value;
+      const ref = c.getAttribute("r");
+      const index = ref ? columnIndex(ref) : cells.length;
+      while (cells.length < index) cells.push("");
+      cells[index] = text.trim();
+    }
+    if (cells.some(Boolean)) rows.push(cells);
+  }
+  return rows;
+};